@@ -1,7 +1,7 @@
-// Bucket detail page with tabs: Overview, Analytics, Files, Setup
+// Bucket detail page with tabs: Overview, Analytics, Files, Setup, Deployments
 "use client";
 
-import { use, useState, useEffect } from "react";
+import { use, useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
@@ -23,6 +23,11 @@ import {
   RefreshCw,
   DollarSign,
   FolderPlus,
+  Settings2,
+  History,
+  GitCompare,
+  Trash2,
+  KeyRound,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -36,20 +41,36 @@ import {
   RequestsBarChart,
   FileTypeDistributionChart,
   FileSizeRangeChart,
+  DedupSavingsCard,
 } from "@/features/infrastructure/components/storage-charts";
 import { FilesTable, S3FilesTable } from "@/features/files/components/files-table";
 import { FolderStructureView } from "@/features/files/components/folder-structure";
 import { SetupTab } from "@/features/buckets/components/setup-tab";
 import { ComponentsPreviewTab } from "@/features/buckets/components/components-preview-tab";
 import { DeleteBucketDialog } from "@/features/buckets/components/delete-bucket-dialog";
+import { EditBucketConfigDialog } from "@/features/buckets/components/edit-bucket-config-dialog";
+import { CustomDomainDialog } from "@/features/buckets/components/custom-domain-dialog";
+import { SignedAccessDialog } from "@/features/buckets/components/signed-access-dialog";
+import { DeployHistory } from "@/features/buckets/components/deploy-history";
 import { UploadDialog } from "@/features/files/components/upload-dialog";
 import { CreateFolderDialog } from "@/features/files/components/create-folder-dialog";
 import { MoveFileDialog } from "@/features/files/components/move-file-dialog";
+import { InvalidationsDialog } from "@/features/distributions/components/invalidations-dialog";
 import { useFiles, useDeleteFile, useS3Files } from "@/features/files/hooks/use-files";
+import { useProjects } from "@/features/projects/hooks/use-projects";
 import { useAnalytics } from "@/features/infrastructure/hooks/use-analytics";
 import { useExpenses } from "@/features/infrastructure/hooks/use-expenses";
 import { CostBreakdownTable, BucketExpensesTable } from "@/features/infrastructure/components/cost-tables";
 import { SyncStatusDialog } from "@/features/infrastructure/components/sync-status-dialog";
+import { DeployDialog } from "@/features/infrastructure/components/deploy-dialog";
+import { DestroyStackDialog } from "@/features/infrastructure/components/destroy-stack-dialog";
+import { DeployRuns } from "@/features/infrastructure/components/deploy-runs";
+import { DeployRunLogDialog } from "@/features/infrastructure/components/deploy-run-log-dialog";
+import {
+  useDeployRuns,
+  useReplayDeployRun,
+} from "@/features/infrastructure/hooks/use-deploy-runs";
+import { hasDeployedStack, hasPendingChanges, getCdnDomain } from "@/lib/bucket-config";
 import type { Bucket } from "@/lib/types";
 
 function formatTotalSize(bytes: number): string {
@@ -93,12 +114,25 @@ export default function BucketDetailPage({
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [uploadOpen, setUploadOpen] = useState(false);
   const [syncOpen, setSyncOpen] = useState(false);
+  const [editConfigOpen, setEditConfigOpen] = useState(false);
+  const [domainOpen, setDomainOpen] = useState(false);
+  const [signedAccessOpen, setSignedAccessOpen] = useState(false);
+  const [applyOpen, setApplyOpen] = useState(false);
+  const [destroyOpen, setDestroyOpen] = useState(false);
+  const [logRunId, setLogRunId] = useState<string | null>(null);
   const [createFolderOpen, setCreateFolderOpen] = useState(false);
   const [moveFileKey, setMoveFileKey] = useState<string | null>(null);
+  const [invalidatePath, setInvalidatePath] = useState<string | null>(null);
   const [filesView, setFilesView] = useState<"table" | "folder">("table");
   const { files, refetch: refetchFiles } = useFiles(undefined, bucket?.s3BucketName);
   const { deleteFile, deleteMetadataOnly } = useDeleteFile();
+  const { runs, refetch: refetchRuns, loading: runsLoading } = useDeployRuns(
+    bucket?.id,
+    bucket?.updatedAt
+  );
+  const { replay, stop: stopReplay, replayingId } = useReplayDeployRun();
   const { bucketAnalytics } = useAnalytics();
+  const { projects } = useProjects();
   const {
     buckets: bucketExpenses,
     loading: expensesLoading,
@@ -113,21 +147,22 @@ export default function BucketDetailPage({
     refetch: refetchS3,
   } = useS3Files(bucket?.s3BucketName, bucket?.region);
 
-  useEffect(() => {
-    async function load() {
-      try {
-        const res = await fetch(`/api/buckets?id=${id}`);
-        if (!res.ok) throw new Error();
-        setBucket(await res.json());
-      } catch {
-        toast.error("Bucket not found");
-      } finally {
-        setLoading(false);
-      }
+  const loadBucket = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/buckets?id=${id}`);
+      if (!res.ok) throw new Error();
+      setBucket(await res.json());
+    } catch {
+      toast.error("Bucket not found");
+    } finally {
+      setLoading(false);
     }
-    load();
   }, [id]);
 
+  useEffect(() => {
+    loadBucket();
+  }, [loadBucket]);
+
   const handleDeleteFile = async (fileId: string) => {
     const success = await deleteFile(fileId);
     if (success) {
@@ -182,6 +217,11 @@ export default function BucketDetailPage({
     refetchS3();
   };
 
+  const pendingChanges = bucket ? hasPendingChanges(bucket) : false;
+
+  const project = projects.find((p) => p.id === bucket?.projectId);
+  const objectKeyTemplate = project?.objectKeyTemplate;
+
   // Extract existing folders from S3 file keys
   const existingFolders = [
     ...new Set(
@@ -246,9 +286,42 @@ export default function BucketDetailPage({
             <Badge variant={bucket.status === "active" ? "default" : "secondary"}>
               {bucket.status}
             </Badge>
+            {pendingChanges && (
+              <Button size="sm" onClick={() => setApplyOpen(true)}>
+                <GitCompare className="mr-1.5 size-3.5" /> Review &amp; Apply Changes
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={() => setSyncOpen(true)}>
               <RefreshCw className="mr-1.5 size-3.5" /> Check Status
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={bucket.status === "deploying" || bucket.status === "deleting"}
+              onClick={() => setEditConfigOpen(true)}
+            >
+              <Settings2 className="mr-1.5 size-3.5" /> Edit Config
+            </Button>
+            {bucket.projectId && (
+              <Button variant="outline" size="sm" onClick={() => setDomainOpen(true)}>
+                <Globe className="mr-1.5 size-3.5" /> Custom Domain
+              </Button>
+            )}
+            {bucket.deployedConfig?.privateDelivery && bucket.signingKeyPairId && (
+              <Button variant="outline" size="sm" onClick={() => setSignedAccessOpen(true)}>
+                <KeyRound className="mr-1.5 size-3.5" /> Signed Access
+              </Button>
+            )}
+            {(hasDeployedStack(bucket) || bucket.status === "failed") && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={bucket.status === "deploying" || bucket.status === "deleting"}
+                onClick={() => setDestroyOpen(true)}
+              >
+                <Trash2 className="mr-1.5 size-3.5" /> Destroy Stack
+              </Button>
+            )}
             {bucket.status === "active" && (
               <>
                 <Button variant="outline" size="sm" onClick={() => setUploadOpen(true)}>
@@ -310,8 +383,18 @@ export default function BucketDetailPage({
                 CloudFront
               </CardTitle>
             </CardHeader>
-            <CardContent>
-              <CopyValue value={bucket.cloudFrontDomain} />
+            <CardContent className="space-y-1">
+              <CopyValue value={getCdnDomain(bucket)} />
+              {getCdnDomain(bucket) !== bucket.cloudFrontDomain && (
+                <p className="font-mono text-[10px] text-muted-foreground">
+                  {bucket.cloudFrontDomain}
+                </p>
+              )}
+              {bucket.customDomain && bucket.customDomain.domainName !== getCdnDomain(bucket) && (
+                <Badge variant="secondary" className="text-[10px]">
+                  {bucket.customDomain.domainName} being set up
+                </Badge>
+              )}
             </CardContent>
           </Card>
           <Card>
@@ -321,6 +404,11 @@ export default function BucketDetailPage({
               </CardTitle>
             </CardHeader>
             <CardContent className="flex flex-wrap gap-1.5">
+              {pendingChanges && (
+                <Badge variant="secondary" className="text-amber-600 dark:text-amber-400">
+                  Changes pending
+                </Badge>
+              )}
               {bucket.config?.versioning && <Badge variant="outline">Versioning</Badge>}
               {bucket.config?.backupEnabled && <Badge variant="outline">Backup</Badge>}
               <Badge variant="outline">{bucket.config?.maxFileSizeMB || 100} MB max</Badge>
@@ -349,6 +437,9 @@ export default function BucketDetailPage({
             <TabsTrigger value="expenses" className="gap-1.5">
               <DollarSign className="size-3.5" /> Expenses
             </TabsTrigger>
+            <TabsTrigger value="deployments" className="gap-1.5">
+              <History className="size-3.5" /> Deployments
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="files">
@@ -416,6 +507,9 @@ export default function BucketDetailPage({
                     onDeleteMetadata={handleRemoveTracking}
                     onDeleteS3={handleDeleteS3}
                     onMove={(key) => setMoveFileKey(key)}
+                    onInvalidate={
+                      bucket.cloudFrontDistributionId ? setInvalidatePath : undefined
+                    }
                   />
                 )}
               </CardContent>
@@ -434,6 +528,7 @@ export default function BucketDetailPage({
                   <CostBarChart bucketAnalytics={thisBucketAnalytics} />
                   <RequestsBarChart bucketAnalytics={thisBucketAnalytics} />
                   <StoragePieChart bucketAnalytics={thisBucketAnalytics} />
+                  <DedupSavingsCard bucketAnalytics={thisBucketAnalytics} />
                 </>
               )}
             </div>
@@ -456,7 +551,11 @@ export default function BucketDetailPage({
           </TabsContent>
 
           <TabsContent value="setup">
-            <SetupTab bucket={bucket} />
+            <SetupTab
+              bucket={bucket}
+              keyTemplate={objectKeyTemplate}
+              allowedMimeTypes={project?.allowedMimeTypes}
+            />
           </TabsContent>
 
           <TabsContent value="components">
@@ -482,8 +581,100 @@ export default function BucketDetailPage({
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="deployments">
+            <Card>
+              <CardHeader>
+                <CardTitle>Deploy History</CardTitle>
+                <CardDescription>
+                  Every deploy of the SCR-{bucket.s3BucketName} stack and the config changes it applied.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeployHistory
+                  deployments={bucket.deployHistory ?? []}
+                  onViewLog={setLogRunId}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Run Logs</CardTitle>
+                  <CardDescription>
+                    Every synth, diff, deploy and destroy of this bucket with its full output.
+                    Replay a run into the terminal or download its NDJSON log.
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="sm" onClick={refetchRuns} disabled={runsLoading}>
+                  <RefreshCw className={`size-3.5 ${runsLoading ? "animate-spin" : ""}`} />
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <DeployRuns
+                  runs={runs}
+                  replayingId={replayingId}
+                  onViewLog={setLogRunId}
+                  onReplay={async (run) => {
+                    if (!(await replay(run))) toast.error("The log of this run is no longer available");
+                  }}
+                  onStopReplay={stopReplay}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
+        {/* Archived run log */}
+        <DeployRunLogDialog
+          runId={logRunId}
+          onOpenChange={(v) => {
+            if (!v) setLogRunId(null);
+          }}
+        />
+
+        {/* Edit config dialog */}
+        <EditBucketConfigDialog
+          key={bucket.updatedAt}
+          open={editConfigOpen}
+          onOpenChange={setEditConfigOpen}
+          bucket={bucket}
+          onSaved={setBucket}
+        />
+
+        <CustomDomainDialog
+          open={domainOpen}
+          onOpenChange={setDomainOpen}
+          bucket={bucket}
+          onUpdated={setBucket}
+        />
+
+        <SignedAccessDialog
+          open={signedAccessOpen}
+          onOpenChange={setSignedAccessOpen}
+          bucket={bucket}
+        />
+
+        {/* Apply pending changes — previews the diff before deploying */}
+        <DeployDialog
+          open={applyOpen}
+          onOpenChange={setApplyOpen}
+          bucket={bucket}
+          onDeployed={loadBucket}
+        />
+
+        {/* Destroy the stack, then delete or detach the retained bucket */}
+        <DestroyStackDialog
+          open={destroyOpen}
+          onOpenChange={setDestroyOpen}
+          bucket={bucket}
+          onDestroyed={(deleted) => {
+            if (deleted) window.location.href = "/buckets";
+            else loadBucket();
+          }}
+        />
+
         {/* Upload dialog */}
         <UploadDialog
           open={uploadOpen}
@@ -492,6 +683,7 @@ export default function BucketDetailPage({
           projectId={bucket.projectId}
           onUploadComplete={handleUploadComplete}
           existingFolders={existingFolders}
+          objectKeyTemplate={objectKeyTemplate}
         />
 
         {/* Create folder dialog */}
@@ -522,6 +714,15 @@ export default function BucketDetailPage({
           }}
         />
 
+        {/* CloudFront invalidation dialog */}
+        <InvalidationsDialog
+          key={invalidatePath ?? ""}
+          distributionId={invalidatePath ? bucket.cloudFrontDistributionId : null}
+          domainName={bucket.cloudFrontDomain}
+          initialPaths={invalidatePath ? [invalidatePath] : []}
+          onOpenChange={(open) => { if (!open) setInvalidatePath(null); }}
+        />
+
         {/* Delete dialog */}
         <DeleteBucketDialog
           open={deleteOpen}
@@ -13,13 +13,14 @@ import { CreateBucketDialog } from "@/features/buckets/components/create-bucket-
 import { DeleteBucketDialog } from "@/features/buckets/components/delete-bucket-dialog";
 import { AwsSyncDialog } from "@/features/buckets/components/aws-sync-dialog";
 import { SyncStatusDialog } from "@/features/infrastructure/components/sync-status-dialog";
+import { DeployDialog } from "@/features/infrastructure/components/deploy-dialog";
+import { DestroyStackDialog } from "@/features/infrastructure/components/destroy-stack-dialog";
 import {
   useBuckets,
   useCreateBucket,
   useDeleteBucket,
 } from "@/features/buckets/hooks/use-buckets";
 import { useProjects } from "@/features/projects/hooks/use-projects";
-import { useDeployBucket } from "@/features/infrastructure/hooks/use-deploy-bucket";
 import { useFiles } from "@/features/files/hooks/use-files";
 import type { BucketFormValues } from "@/lib/validations";
 import type { Bucket } from "@/lib/types";
@@ -28,6 +29,8 @@ import { useEnvironments } from "@/features/environments/hooks/use-environments"
 export default function BucketsPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<Bucket | null>(null);
+  const [deployTarget, setDeployTarget] = useState<Bucket | null>(null);
+  const [destroyTarget, setDestroyTarget] = useState<Bucket | null>(null);
   const [syncOpen, setSyncOpen] = useState(false);
   const [awsSyncOpen, setAwsSyncOpen] = useState(false);
   const [search, setSearch] = useState("");
@@ -35,7 +38,6 @@ export default function BucketsPage() {
   const { projects } = useProjects();
   const { createBucket, loading: creating } = useCreateBucket();
   const { deleteBucket } = useDeleteBucket();
-  const { deploy } = useDeployBucket();
   const { files } = useFiles();
   const { environments } = useEnvironments();
 
@@ -76,15 +78,8 @@ export default function BucketsPage() {
     setDeleteTarget(bucket);
   };
 
-  const handleDeploy = async (bucket: Bucket) => {
-    toast.info(`Deploying ${bucket.name}... This may take a few minutes.`);
-    const result = await deploy(bucket.id, bucket.s3BucketName, bucket.region);
-    if (result.success) {
-      toast.success("Deployment complete!");
-      refetch();
-    } else {
-      toast.error(`Deployment failed: ${result.error}`);
-    }
+  const handleDeploy = (bucket: Bucket) => {
+    setDeployTarget(bucket);
   };
 
   const handleImportBuckets = async (
@@ -186,6 +181,7 @@ export default function BucketsPage() {
                 onDelete={handleDelete}
                 onFullDelete={handleFullDelete}
                 onDeploy={handleDeploy}
+                onDestroy={setDestroyTarget}
               />
             )}
           </CardContent>
@@ -229,6 +225,24 @@ export default function BucketsPage() {
             toast.success("Buckets synced with AWS");
           }}
         />
+
+        <DeployDialog
+          open={!!deployTarget}
+          onOpenChange={(v) => {
+            if (!v) setDeployTarget(null);
+          }}
+          bucket={deployTarget}
+          onDeployed={refetch}
+        />
+
+        <DestroyStackDialog
+          open={!!destroyTarget}
+          onOpenChange={(v) => {
+            if (!v) setDestroyTarget(null);
+          }}
+          bucket={destroyTarget}
+          onDestroyed={refetch}
+        />
       </div>
     </PageTransition>
   );
@@ -16,6 +16,8 @@ import {
   Database,
   AlertTriangle,
   Server,
+  Eraser,
+  Settings2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -45,6 +47,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { PageTransition } from "@/components/page-transition";
+import { InvalidationsDialog } from "@/features/distributions/components/invalidations-dialog";
+import { DistributionSettingsDialog } from "@/features/distributions/components/distribution-settings-dialog";
 
 interface LinkedBucket {
   id: string;
@@ -72,6 +76,8 @@ export default function DistributionsPage() {
   const [error, setError] = useState<string | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<Distribution | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [invalidateTarget, setInvalidateTarget] = useState<Distribution | null>(null);
+  const [settingsTarget, setSettingsTarget] = useState<Distribution | null>(null);
 
   const fetchDistributions = useCallback(async () => {
     try {
@@ -224,7 +230,7 @@ export default function DistributionsPage() {
                     <TableHead>Origins</TableHead>
                     <TableHead>Linked Bucket</TableHead>
                     <TableHead>Last Modified</TableHead>
-                    <TableHead className="w-24">Actions</TableHead>
+                    <TableHead className="w-40">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -307,7 +313,25 @@ export default function DistributionsPage() {
                             ? new Date(dist.lastModified).toLocaleDateString()
                             : "—"}
                         </TableCell>
-                        <TableCell>
+                        <TableCell className="space-x-1.5 whitespace-nowrap">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 gap-1"
+                            onClick={() => setSettingsTarget(dist)}
+                          >
+                            <Settings2 className="size-3" /> Settings
+                          </Button>
+                          {dist.enabled && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 gap-1"
+                              onClick={() => setInvalidateTarget(dist)}
+                            >
+                              <Eraser className="size-3" /> Invalidate
+                            </Button>
+                          )}
                           {!dist.enabled && (
                             <Button
                               variant="destructive"
@@ -328,6 +352,22 @@ export default function DistributionsPage() {
           </CardContent>
         </Card>
 
+        <InvalidationsDialog
+          key={invalidateTarget?.id}
+          distributionId={invalidateTarget?.id ?? null}
+          domainName={invalidateTarget?.domainName}
+          onOpenChange={(open) => !open && setInvalidateTarget(null)}
+        />
+
+        <DistributionSettingsDialog
+          key={settingsTarget?.id}
+          distributionId={settingsTarget?.id ?? null}
+          domainName={settingsTarget?.domainName}
+          linkedBucketName={settingsTarget?.linkedBucket?.name}
+          onOpenChange={(open) => !open && setSettingsTarget(null)}
+          onUpdated={fetchDistributions}
+        />
+
         {/* Delete confirmation dialog */}
         <AlertDialog
           open={!!deleteTarget}
@@ -1,8 +1,9 @@
 // Infrastructure page for CDK synth/deploy with streaming terminal output
 "use client";
 
+import { useState } from "react";
 import { toast } from "sonner";
-import { Rocket, RefreshCw, Terminal } from "lucide-react";
+import { ListOrdered, Rocket, RefreshCw, Terminal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,18 +11,24 @@ import { PageTransition } from "@/components/page-transition";
 import { BucketsTable } from "@/features/buckets/components/buckets-table";
 import { useBuckets, useDeleteBucket } from "@/features/buckets/hooks/use-buckets";
 import { useDeployBucket } from "@/features/infrastructure/hooks/use-deploy-bucket";
+import { DeployDialog } from "@/features/infrastructure/components/deploy-dialog";
+import { DeployQueue } from "@/features/infrastructure/components/deploy-queue";
+import { useDeployJobs } from "@/features/infrastructure/hooks/use-deploy-jobs";
 import { useTerminal } from "@/lib/terminal-context";
 import type { Bucket } from "@/lib/types";
 
 export default function InfrastructurePage() {
   const { buckets, loading, refetch } = useBuckets();
   const { deleteBucket } = useDeleteBucket();
-  const { deploy, synth, loading: deploying } = useDeployBucket();
+  const { synth, loading: deploying } = useDeployBucket();
+  const [deployTarget, setDeployTarget] = useState<Bucket | null>(null);
+  const { jobs, concurrency, refetch: refetchJobs } = useDeployJobs();
   const terminal = useTerminal();
 
   const handleSynth = async () => {
     toast.info("Running CDK synth...");
     const result = await synth();
+    refetchJobs();
     if (result.success) {
       toast.success("CDK synth complete");
     } else {
@@ -29,15 +36,8 @@ export default function InfrastructurePage() {
     }
   };
 
-  const handleDeploy = async (bucket: Bucket) => {
-    toast.info(`Deploying ${bucket.name}...`);
-    const result = await deploy(bucket.id, bucket.s3BucketName, bucket.region);
-    if (result.success) {
-      toast.success("Deployment complete!");
-      refetch();
-    } else {
-      toast.error(`Deployment failed: ${result.error}`);
-    }
+  const handleDeploy = (bucket: Bucket) => {
+    setDeployTarget(bucket);
   };
 
   const handleDelete = async (id: string) => {
@@ -91,6 +91,8 @@ export default function InfrastructurePage() {
           <CardContent>
             <div className="flex flex-wrap gap-2 text-xs">
               <Badge variant="outline">Pre-flight checks</Badge>
+              <Badge variant="outline">Change preview</Badge>
+              <Badge variant="outline">Deploy queue</Badge>
               <Badge variant="outline">Streaming logs</Badge>
               <Badge variant="outline">Error intelligence</Badge>
               <Badge variant="outline">Auto-status update</Badge>
@@ -98,6 +100,22 @@ export default function InfrastructurePage() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <ListOrdered className="size-4" />
+              Deploy Queue
+            </CardTitle>
+            <CardDescription>
+              Up to {concurrency} CDK job{concurrency === 1 ? "" : "s"} run at once, each
+              with its own output directory. Jobs for the same stack wait for each other.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DeployQueue jobs={jobs} />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Deployable Buckets</CardTitle>
@@ -116,6 +134,18 @@ export default function InfrastructurePage() {
             )}
           </CardContent>
         </Card>
+
+        <DeployDialog
+          open={!!deployTarget}
+          onOpenChange={(v) => {
+            if (!v) setDeployTarget(null);
+          }}
+          bucket={deployTarget}
+          onDeployed={() => {
+            refetch();
+            refetchJobs();
+          }}
+        />
       </div>
     </PageTransition>
   );
@@ -1,9 +1,9 @@
 // Project detail page showing buckets and files for a specific project
 "use client";
 
-import { use } from "react";
+import { use, useState } from "react";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, DollarSign, RefreshCw } from "lucide-react";
+import { ArrowLeft, DollarSign, RefreshCw, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -22,9 +22,10 @@ import {
 import { useBuckets, useDeleteBucket } from "@/features/buckets/hooks/use-buckets";
 import { useFiles, useDeleteFile } from "@/features/files/hooks/use-files";
 import { useAnalytics } from "@/features/infrastructure/hooks/use-analytics";
-import { useDeployBucket } from "@/features/infrastructure/hooks/use-deploy-bucket";
 import { useExpenses } from "@/features/infrastructure/hooks/use-expenses";
 import { useProjects } from "@/features/projects/hooks/use-projects";
+import { ObjectKeySettings } from "@/features/projects/components/object-key-settings";
+import { DeployDialog } from "@/features/infrastructure/components/deploy-dialog";
 import { toast } from "sonner";
 import type { Bucket } from "@/lib/types";
 
@@ -35,7 +36,7 @@ export default function ProjectDetailPage({
 }) {
   const { id } = use(params);
   const router = useRouter();
-  const { projects } = useProjects();
+  const { projects, refetch: refetchProjects } = useProjects();
   const project = projects.find((p) => p.id === id);
   const { buckets, refetch: refetchBuckets } = useBuckets(id);
   const { files, refetch: refetchFiles } = useFiles(id);
@@ -48,7 +49,7 @@ export default function ProjectDetailPage({
   } = useExpenses(id);
   const { deleteBucket } = useDeleteBucket();
   const { deleteFile } = useDeleteFile();
-  const { deploy } = useDeployBucket();
+  const [deployTarget, setDeployTarget] = useState<Bucket | null>(null);
 
   const handleDeleteBucket = async (bucketId: string) => {
     const success = await deleteBucket(bucketId);
@@ -66,15 +67,8 @@ export default function ProjectDetailPage({
     }
   };
 
-  const handleDeploy = async (bucket: Bucket) => {
-    toast.info(`Deploying ${bucket.name}...`);
-    const result = await deploy(bucket.id, bucket.s3BucketName, bucket.region);
-    if (result.success) {
-      toast.success("Deployment complete!");
-      refetchBuckets();
-    } else {
-      toast.error(`Deployment failed: ${result.error}`);
-    }
+  const handleDeploy = (bucket: Bucket) => {
+    setDeployTarget(bucket);
   };
 
   return (
@@ -119,6 +113,10 @@ export default function ProjectDetailPage({
               <DollarSign className="size-3.5" />
               Pricing
             </TabsTrigger>
+            <TabsTrigger value="settings" className="gap-1.5">
+              <Settings className="size-3.5" />
+              Settings
+            </TabsTrigger>
           </TabsList>
           <TabsContent value="buckets">
             <Card>
@@ -284,7 +282,26 @@ export default function ProjectDetailPage({
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="settings">
+            {project && (
+              <ObjectKeySettings
+                key={project.objectKeyTemplate}
+                project={project}
+                onSaved={refetchProjects}
+              />
+            )}
+          </TabsContent>
         </Tabs>
+
+        <DeployDialog
+          open={!!deployTarget}
+          onOpenChange={(v) => {
+            if (!v) setDeployTarget(null);
+          }}
+          bucket={deployTarget}
+          onDeployed={refetchBuckets}
+        />
       </div>
     </PageTransition>
   );
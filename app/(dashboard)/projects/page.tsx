@@ -1,4 +1,4 @@
-// Projects listing page with create dialog
+// Projects listing page with create and cascade-aware delete dialogs
 "use client";
 
 import { useState } from "react";
@@ -9,18 +9,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PageTransition } from "@/components/page-transition";
 import { ProjectsTable } from "@/features/projects/components/projects-table";
 import { CreateProjectDialog } from "@/features/projects/components/create-project-dialog";
+import { DeleteProjectDialog } from "@/features/projects/components/delete-project-dialog";
 import {
   useProjects,
   useCreateProject,
-  useDeleteProject,
 } from "@/features/projects/hooks/use-projects";
+import type { Project } from "@/lib/types";
 import type { ProjectFormValues } from "@/lib/validations";
 
 export default function ProjectsPage() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const { projects, loading, refetch } = useProjects();
   const { createProject, loading: creating } = useCreateProject();
-  const { deleteProject } = useDeleteProject();
+  const [deleteTarget, setDeleteTarget] = useState<Project | null>(null);
 
   const handleCreate = async (data: ProjectFormValues) => {
     const result = await createProject(data);
@@ -33,14 +34,8 @@ export default function ProjectsPage() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    const success = await deleteProject(id);
-    if (success) {
-      toast.success("Project deleted");
-      refetch();
-    } else {
-      toast.error("Failed to delete project");
-    }
+  const handleDelete = (id: string) => {
+    setDeleteTarget(projects.find((p) => p.id === id) ?? null);
   };
 
   return (
@@ -80,6 +75,16 @@ export default function ProjectsPage() {
           onSubmit={handleCreate}
           loading={creating}
         />
+
+        <DeleteProjectDialog
+          project={deleteTarget}
+          projects={projects}
+          open={!!deleteTarget}
+          onOpenChange={(open) => {
+            if (!open) setDeleteTarget(null);
+          }}
+          onFinished={refetch}
+        />
       </div>
     </PageTransition>
   );
@@ -12,6 +12,7 @@ import {
 import { PageTransition } from "@/components/page-transition";
 import { CodeSnippets } from "@/features/infrastructure/components/code-snippets";
 import { useBuckets } from "@/features/buckets/hooks/use-buckets";
+import { useProjects } from "@/features/projects/hooks/use-projects";
 import { useState } from "react";
 import { Code2 } from "lucide-react";
 
@@ -19,6 +20,9 @@ export default function SnippetsPage() {
   const { buckets, loading } = useBuckets();
   const [selectedBucketId, setSelectedBucketId] = useState<string>("");
   const selectedBucket = buckets.find((b) => b.id === selectedBucketId);
+  const { projects } = useProjects();
+  const project = projects.find((p) => p.id === selectedBucket?.projectId);
+  const keyTemplate = project?.objectKeyTemplate;
 
   return (
     <PageTransition>
@@ -72,7 +76,11 @@ export default function SnippetsPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <CodeSnippets bucket={selectedBucket} />
+              <CodeSnippets
+                bucket={selectedBucket}
+                keyTemplate={keyTemplate}
+                allowedMimeTypes={project?.allowedMimeTypes}
+              />
             </CardContent>
           </Card>
         )}
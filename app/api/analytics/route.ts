@@ -48,13 +48,17 @@ export async function GET(request: NextRequest) {
 
   const bucketAnalytics: BucketAnalytics[] = filteredBuckets.map((bucket) => {
     const s3Data = s3DataMap.get(bucket.id);
+    // Pending records only carry the size the client claimed
     const bucketFiles = filteredFiles.filter(
-      (f) => f.bucketName === bucket.s3BucketName
+      (f) => f.bucketName === bucket.s3BucketName && f.status !== "pending"
     );
+    // Deduplicated records share an object that is already counted
+    const dedupFiles = bucketFiles.filter((f) => f.dedupOf);
+    const objectFiles = bucketFiles.filter((f) => !f.dedupOf);
 
     // Use live S3 data when available, fall back to metadata
-    const totalSizeBytes = s3Data?.totalSizeBytes ?? bucketFiles.reduce((acc, f) => acc + f.size, 0);
-    const fileCount = s3Data?.fileCount ?? bucketFiles.length;
+    const totalSizeBytes = s3Data?.totalSizeBytes ?? objectFiles.reduce((acc, f) => acc + f.size, 0);
+    const fileCount = s3Data?.fileCount ?? objectFiles.length;
 
     // Simulate read/write counts based on file count
     const readRequests = fileCount * 12;
@@ -73,6 +77,8 @@ export async function GET(request: NextRequest) {
       estimatedMonthlyCost: estimateMonthlyCost(totalSizeBytes, writeRequests, readRequests),
       readRequests,
       writeRequests,
+      dedupLinkedFiles: dedupFiles.length,
+      dedupSavedBytes: dedupFiles.reduce((acc, f) => acc + f.size, 0),
     };
   });
 
@@ -0,0 +1,212 @@
+// API route for giving a bucket's distribution a custom domain — requests or
+// imports the ACM certificate and stages the alias for the next deploy
+import { NextRequest, NextResponse } from "next/server";
+import { X509Certificate } from "crypto";
+import { findInJsonFile, updateInJsonFile } from "@/lib/filesystem";
+import {
+  requestCertificate,
+  importCertificate,
+  describeCertificate,
+} from "@/lib/aws";
+import { hasDeployedStack } from "@/lib/bucket-config";
+import { customDomainRequestSchema } from "@/lib/validations";
+import type { Bucket, BucketCustomDomain } from "@/lib/types";
+
+const FILE = "buckets.json";
+
+/**
+ * Bucket updates that put the domain (or none) into the config. A deployed
+ * bucket keeps its live config in deployedConfig, so the change shows as
+ * pending until it is deployed.
+ */
+function stageDomain(
+  bucket: Bucket,
+  domain: Pick<BucketCustomDomain, "domainName" | "certificateArn"> | null,
+): Partial<Bucket> {
+  const updates: Partial<Bucket> = {
+    config: {
+      ...bucket.config,
+      customDomain: domain?.domainName,
+      certificateArn: domain?.certificateArn,
+    },
+  };
+  if (hasDeployedStack(bucket) && !bucket.deployedConfig) {
+    updates.deployedConfig = bucket.config;
+  }
+  return updates;
+}
+
+function isStaged(bucket: Bucket, domain: BucketCustomDomain): boolean {
+  return (
+    bucket.config.customDomain === domain.domainName &&
+    bucket.config.certificateArn === domain.certificateArn
+  );
+}
+
+/** Refresh the certificate status — an issued certificate is staged into the config. */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const bucketId = searchParams.get("bucketId");
+  if (!bucketId) {
+    return NextResponse.json({ error: "bucketId is required" }, { status: 400 });
+  }
+
+  const bucket = await findInJsonFile<Bucket>(FILE, bucketId);
+  if (!bucket) {
+    return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+  }
+  if (!bucket.customDomain) {
+    return NextResponse.json(bucket);
+  }
+
+  try {
+    const certificate = await describeCertificate(bucket.customDomain.certificateArn);
+    const customDomain: BucketCustomDomain = {
+      ...bucket.customDomain,
+      certificateStatus: certificate.status,
+      validationRecords:
+        certificate.validationRecords.length > 0
+          ? certificate.validationRecords
+          : bucket.customDomain.validationRecords,
+    };
+    const staging =
+      certificate.status === "ISSUED" && !isStaged(bucket, customDomain)
+        ? stageDomain(bucket, customDomain)
+        : {};
+
+    const updated = await updateInJsonFile<Bucket>(FILE, bucketId, {
+      ...staging,
+      customDomain,
+      updatedAt: new Date().toISOString(),
+    });
+    return NextResponse.json(updated);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to check the certificate",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start setting up a custom domain:
+ *   { bucketId, domainName, certificateSource: "requested" }
+ *       — request a DNS-validated certificate; create the returned validation records
+ *   { bucketId, domainName, certificateSource: "imported", certificate, privateKey, certificateChain? }
+ *       — import an existing certificate, which must cover the domain
+ */
+export async function POST(request: NextRequest) {
+  let parsed;
+  try {
+    parsed = customDomainRequestSchema.parse(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Validation failed" },
+      { status: 400 }
+    );
+  }
+
+  const bucket = await findInJsonFile<Bucket>(FILE, parsed.bucketId);
+  if (!bucket) {
+    return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+  }
+  if (bucket.status === "deploying" || bucket.status === "deleting") {
+    return NextResponse.json(
+      { error: `Bucket is ${bucket.status} — try again when it finishes` },
+      { status: 409 }
+    );
+  }
+
+  if (parsed.certificateSource === "imported") {
+    // Check the PEM locally so a mismatched certificate never reaches ACM
+    let cert: X509Certificate;
+    try {
+      cert = new X509Certificate(parsed.certificate);
+    } catch {
+      return NextResponse.json(
+        { error: "The certificate could not be parsed" },
+        { status: 400 }
+      );
+    }
+    if (!cert.checkHost(parsed.domainName)) {
+      return NextResponse.json(
+        { error: `The certificate does not cover ${parsed.domainName}` },
+        { status: 400 }
+      );
+    }
+    if (new Date(cert.validTo) < new Date()) {
+      return NextResponse.json(
+        { error: `The certificate expired on ${cert.validTo}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const certificateArn =
+      parsed.certificateSource === "requested"
+        ? await requestCertificate(parsed.domainName)
+        : await importCertificate(
+            parsed.certificate,
+            parsed.privateKey,
+            parsed.certificateChain
+          );
+    const certificate = await describeCertificate(certificateArn);
+
+    const customDomain: BucketCustomDomain = {
+      domainName: parsed.domainName,
+      certificateArn,
+      certificateSource: parsed.certificateSource,
+      certificateStatus: certificate.status,
+      validationRecords: certificate.validationRecords,
+      createdAt: new Date().toISOString(),
+    };
+    const updated = await updateInJsonFile<Bucket>(FILE, bucket.id, {
+      ...(certificate.status === "ISSUED" ? stageDomain(bucket, customDomain) : {}),
+      customDomain,
+      updatedAt: new Date().toISOString(),
+    });
+    return NextResponse.json(updated, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to set up the certificate",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the custom domain. The alias stays on the distribution until the
+ * next deploy, so the certificate is left in ACM.
+ */
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const bucketId = searchParams.get("bucketId");
+  if (!bucketId) {
+    return NextResponse.json({ error: "bucketId is required" }, { status: 400 });
+  }
+
+  const bucket = await findInJsonFile<Bucket>(FILE, bucketId);
+  if (!bucket) {
+    return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+  }
+  if (bucket.status === "deploying" || bucket.status === "deleting") {
+    return NextResponse.json(
+      { error: `Bucket is ${bucket.status} — try again when it finishes` },
+      { status: 409 }
+    );
+  }
+
+  const updated = await updateInJsonFile<Bucket>(FILE, bucketId, {
+    ...stageDomain(bucket, null),
+    customDomain: undefined,
+    updatedAt: new Date().toISOString(),
+  });
+  return NextResponse.json(updated);
+}
@@ -42,6 +42,9 @@ export async function POST(request: NextRequest) {
           encryption: "s3",
           backupEnabled: false,
           maxFileSizeMB: 100,
+          originAccess: "oac",
+          privateDelivery: false,
+          securityHeaders: false,
         },
         createdAt: ab.creationDate || new Date().toISOString(),
         updatedAt: new Date().toISOString(),
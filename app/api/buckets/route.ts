@@ -7,9 +7,11 @@ import {
   updateInJsonFile,
   deleteFromJsonFile,
   findInJsonFile,
+  modifyJsonFile,
 } from "@/lib/filesystem";
-import { bucketSchema } from "@/lib/validations";
-import type { Bucket, FileRecord } from "@/lib/types";
+import { bucketSchema, bucketConfigSchema } from "@/lib/validations";
+import { validateBucketConfig, hasDeployedStack } from "@/lib/bucket-config";
+import type { Bucket, BucketConfig, FileRecord } from "@/lib/types";
 import {
   emptyBucket,
   deleteS3Bucket,
@@ -41,6 +43,23 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const parsed = bucketSchema.parse(body);
+    // New stacks always use Origin Access Control
+    const config: BucketConfig = {
+      versioning: parsed.versioning ?? false,
+      encryption: parsed.encryption ?? "s3",
+      backupEnabled: parsed.backupEnabled ?? false,
+      maxFileSizeMB: parsed.maxFileSizeMB ?? 100,
+      originAccess: "oac",
+      privateDelivery: parsed.privateDelivery ?? false,
+      securityHeaders: parsed.securityHeaders ?? false,
+      wafRateLimit: parsed.wafRateLimit,
+      wafBlockedCountries: parsed.wafBlockedCountries,
+      hotlinkDomains: parsed.hotlinkDomains,
+    };
+    const configProblem = validateBucketConfig(config);
+    if (configProblem) {
+      return NextResponse.json({ error: configProblem }, { status: 400 });
+    }
 
     const s3BucketName = `scr-${parsed.name}-${Date.now()}`;
 
@@ -54,12 +73,7 @@ export async function POST(request: NextRequest) {
       cloudFrontDistributionId: "",
       region: parsed.region,
       status: "pending",
-      config: {
-        versioning: parsed.versioning ?? false,
-        encryption: parsed.encryption ?? "s3",
-        backupEnabled: parsed.backupEnabled ?? false,
-        maxFileSizeMB: parsed.maxFileSizeMB ?? 100,
-      },
+      config,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -81,6 +95,33 @@ export async function PUT(request: NextRequest) {
     if (!id) {
       return NextResponse.json({ error: "ID is required" }, { status: 400 });
     }
+
+    // Config edits to a deployed bucket stay pending until they are applied
+    // through the infrastructure route — the stack keeps deployedConfig
+    if (updates.config !== undefined) {
+      const existing = await findInJsonFile<Bucket>(FILE, id);
+      if (!existing) {
+        return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+      }
+      if (existing.status === "deploying" || existing.status === "deleting") {
+        return NextResponse.json(
+          { error: `Bucket is ${existing.status} — try again when it finishes` },
+          { status: 409 }
+        );
+      }
+      // null clears an optional setting such as the WAF rate limit
+      const merged: Record<string, unknown> = { ...existing.config, ...updates.config };
+      for (const key of Object.keys(merged)) if (merged[key] === null) delete merged[key];
+      updates.config = bucketConfigSchema.parse(merged);
+      const configProblem = validateBucketConfig(updates.config);
+      if (configProblem) {
+        return NextResponse.json({ error: configProblem }, { status: 400 });
+      }
+      if (hasDeployedStack(existing) && !existing.deployedConfig) {
+        updates.deployedConfig = existing.config;
+      }
+    }
+
     const updated = await updateInJsonFile<Bucket>(FILE, id, {
       ...updates,
       updatedAt: new Date().toISOString(),
@@ -124,10 +165,9 @@ export async function DELETE(request: NextRequest) {
     // Soft delete — just remove metadata
     await deleteFromJsonFile<Bucket>(FILE, id);
     // Also remove associated file records
-    const files = await readJsonFile<FileRecord>("files.json");
-    const remaining = files.filter((f) => f.bucketName !== bucket.s3BucketName);
-    const { writeJsonFile } = await import("@/lib/filesystem");
-    await writeJsonFile("files.json", remaining);
+    await modifyJsonFile<FileRecord>("files.json", (files) =>
+      files.filter((f) => f.bucketName !== bucket.s3BucketName)
+    );
     return NextResponse.json({ success: true });
   }
 
@@ -182,10 +222,9 @@ export async function DELETE(request: NextRequest) {
         // Step 4 — Remove metadata
         send("metadata", "running");
         await deleteFromJsonFile<Bucket>(FILE, id);
-        const files = await readJsonFile<FileRecord>("files.json");
-        const remaining = files.filter((f) => f.bucketName !== bucket.s3BucketName);
-        const { writeJsonFile } = await import("@/lib/filesystem");
-        await writeJsonFile("files.json", remaining);
+        await modifyJsonFile<FileRecord>("files.json", (files) =>
+          files.filter((f) => f.bucketName !== bucket.s3BucketName)
+        );
         send("metadata", "done");
 
         send("complete", "done");
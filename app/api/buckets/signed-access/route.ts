@@ -0,0 +1,77 @@
+// API route issuing time-limited CloudFront signed URLs and cookies for
+// buckets deployed with private delivery
+import { NextRequest, NextResponse } from "next/server";
+import { findInJsonFile } from "@/lib/filesystem";
+import { buildCloudFrontUrl } from "@/lib/aws";
+import { readSigningKey, signCdnResource } from "@/lib/signing-keys";
+import { signedAccessRequestSchema } from "@/lib/validations";
+import type { Bucket, SignedCdnAccess } from "@/lib/types";
+
+/**
+ * Sign access to a private bucket:
+ *   { bucketId, type: "url", key, expiresInSeconds? }
+ *       — a signed URL for one object
+ *   { bucketId, type: "cookies", key | prefix, expiresInSeconds? }
+ *       — CloudFront-* cookies for one object or everything under a prefix
+ */
+export async function POST(request: NextRequest) {
+  let parsed;
+  try {
+    parsed = signedAccessRequestSchema.parse(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Validation failed" },
+      { status: 400 }
+    );
+  }
+
+  const bucket = await findInJsonFile<Bucket>("buckets.json", parsed.bucketId);
+  if (!bucket) {
+    return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+  }
+  // Signatures only mean something once the key group is on the distribution
+  if (!bucket.deployedConfig?.privateDelivery || !bucket.signingKeyPairId) {
+    return NextResponse.json(
+      { error: "Private delivery is not deployed for this bucket" },
+      { status: 400 }
+    );
+  }
+
+  const privateKey = await readSigningKey(bucket.s3BucketName);
+  if (!privateKey) {
+    return NextResponse.json(
+      {
+        error: `The signing key for ${bucket.s3BucketName} is missing from data/signing-keys — redeploy the bucket to rotate it`,
+      },
+      { status: 409 }
+    );
+  }
+
+  const resource =
+    parsed.key !== undefined
+      ? buildCloudFrontUrl(bucket, parsed.key)
+      : `${buildCloudFrontUrl(bucket, parsed.prefix ?? "")}*`;
+  const expiresAt = new Date(Date.now() + parsed.expiresInSeconds * 1000);
+
+  try {
+    const signed = signCdnResource(
+      parsed.type,
+      resource,
+      bucket.signingKeyPairId,
+      privateKey,
+      expiresAt
+    );
+    const access: SignedCdnAccess = {
+      type: parsed.type,
+      resource,
+      expiresAt: expiresAt.toISOString(),
+      ...signed,
+    };
+    return NextResponse.json(access);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to sign access" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 // API route for saving/loading custom commands
 import { NextRequest, NextResponse } from "next/server";
-import fs from "fs/promises";
-import path from "path";
+import {
+  readJsonFile,
+  appendToJsonFile,
+  deleteFromJsonFile,
+} from "@/lib/filesystem";
 
-const DATA_DIR = path.join(process.cwd(), "data");
-const COMMANDS_FILE = path.join(DATA_DIR, "custom-commands.json");
+const COMMANDS_FILE = "custom-commands.json";
 
 export interface SavedCommand {
   id: string;
@@ -15,31 +17,9 @@ export interface SavedCommand {
   createdAt: string;
 }
 
-async function ensureDir() {
-  try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  } catch {
-    // exists
-  }
-}
-
-async function readCommands(): Promise<SavedCommand[]> {
-  try {
-    const data = await fs.readFile(COMMANDS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    return [];
-  }
-}
-
-async function writeCommands(commands: SavedCommand[]) {
-  await ensureDir();
-  await fs.writeFile(COMMANDS_FILE, JSON.stringify(commands, null, 2));
-}
-
 // GET — list all saved commands
 export async function GET() {
-  const commands = await readCommands();
+  const commands = await readJsonFile<SavedCommand>(COMMANDS_FILE);
   return NextResponse.json(commands);
 }
 
@@ -65,9 +45,7 @@ export async function POST(request: NextRequest) {
       createdAt: new Date().toISOString(),
     };
 
-    const commands = await readCommands();
-    commands.push(newCmd);
-    await writeCommands(commands);
+    await appendToJsonFile(COMMANDS_FILE, newCmd);
 
     return NextResponse.json(newCmd, { status: 201 });
   } catch (error) {
@@ -87,14 +65,11 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: "id is required" }, { status: 400 });
     }
 
-    const commands = await readCommands();
-    const filtered = commands.filter((c) => c.id !== id);
-
-    if (filtered.length === commands.length) {
+    const deleted = await deleteFromJsonFile<SavedCommand>(COMMANDS_FILE, id);
+    if (!deleted) {
       return NextResponse.json({ error: "Command not found" }, { status: 404 });
     }
 
-    await writeCommands(filtered);
     return NextResponse.json({ success: true });
   } catch (error) {
     return NextResponse.json(
@@ -0,0 +1,74 @@
+// API route for reading and updating the editable settings of a CloudFront distribution
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDistributionSettings,
+  updateDistributionSettings,
+} from "@/lib/aws";
+import { distributionSettingsUpdateSchema } from "@/lib/validations";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const distributionId = searchParams.get("distributionId");
+
+  if (!distributionId) {
+    return NextResponse.json(
+      { error: "distributionId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await getDistributionSettings(distributionId));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch distribution settings",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  let parsed;
+  try {
+    parsed = distributionSettingsUpdateSchema.parse(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Validation failed" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await updateDistributionSettings(
+      parsed.distributionId,
+      parsed.etag,
+      parsed.settings
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    // The ETag is stale — someone else changed the distribution since it was read
+    if (error instanceof Error && error.name === "PreconditionFailed") {
+      return NextResponse.json(
+        {
+          error:
+            "The distribution was changed since its settings were loaded. Reload and try again.",
+        },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to update distribution",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// API route for creating, listing and inspecting CloudFront cache invalidations
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createInvalidation,
+  listInvalidations,
+  getInvalidation,
+} from "@/lib/aws";
+import { invalidationSchema } from "@/lib/validations";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const distributionId = searchParams.get("distributionId");
+  const id = searchParams.get("id");
+
+  if (!distributionId) {
+    return NextResponse.json(
+      { error: "distributionId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (id) {
+      return NextResponse.json(await getInvalidation(distributionId, id));
+    }
+    return NextResponse.json(await listInvalidations(distributionId));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch invalidations",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let parsed;
+  try {
+    parsed = invalidationSchema.parse(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Validation failed" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const invalidation = await createInvalidation(
+      parsed.distributionId,
+      parsed.paths
+    );
+    return NextResponse.json(invalidation, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to create invalidation",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -53,8 +53,9 @@ export async function GET(request: NextRequest) {
   // Build per-bucket expenses — use actual S3 data when available
   const bucketExpenses: BucketExpense[] = await Promise.all(
     filteredBuckets.map(async (bucket) => {
+      // Pending records only carry the size the client claimed
       const bucketFiles = files.filter(
-        (f) => f.bucketName === bucket.s3BucketName
+        (f) => f.bucketName === bucket.s3BucketName && f.status !== "pending"
       );
 
       // Try to get real size data from S3
@@ -0,0 +1,48 @@
+// Next.js API route for the second upload phase — verifies the object in S3 and marks its FileRecord uploaded
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonFile, findInJsonFile } from "@/lib/filesystem";
+import { confirmUpload } from "@/lib/uploads";
+import { closeUploadSessionsForFile } from "@/lib/upload-sessions";
+import { confirmUploadSchema } from "@/lib/validations";
+import type { Bucket, FileRecord } from "@/lib/types";
+
+/**
+ * POST body: { id } — the FileRecord returned by POST /api/files.
+ * Call after the PUT to S3 succeeds. Responds 409 while the object is missing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { id } = confirmUploadSchema.parse(await request.json());
+
+    const file = await findInJsonFile<FileRecord>("files.json", id);
+    if (!file) {
+      return NextResponse.json({ error: "File record not found" }, { status: 404 });
+    }
+    // Already confirmed (and inspected) — possibly quarantined
+    if (file.status !== "pending") {
+      return NextResponse.json({ file });
+    }
+
+    const buckets = await readJsonFile<Bucket>("buckets.json");
+    const bucket = buckets.find((b) => b.s3BucketName === file.bucketName);
+    if (!bucket) {
+      return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+    }
+
+    const confirmed = await confirmUpload(file, bucket.region);
+    if (!confirmed) {
+      return NextResponse.json(
+        { error: `Object ${file.objectKey} has not been uploaded to S3` },
+        { status: 409 }
+      );
+    }
+    await closeUploadSessionsForFile(file.id);
+
+    return NextResponse.json({ file: confirmed });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Confirmation failed" },
+      { status: 400 }
+    );
+  }
+}
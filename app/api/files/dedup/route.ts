@@ -0,0 +1,57 @@
+// Next.js API route for content-hash deduplication — links a new FileRecord to an identical object already in the bucket
+import { NextRequest, NextResponse } from "next/server";
+import {
+  prepareUpload,
+  findDuplicateObject,
+  linkDuplicateUpload,
+} from "@/lib/uploads";
+
+/**
+ * POST body: the same fields as POST /api/files, with contentHash required.
+ *
+ * If the bucket already holds an object with that SHA-256 (as verified at
+ * confirmation) and size, a new FileRecord pointing at it is stored as
+ * uploaded and returned ({ duplicate: true, file, objectKey, cloudFrontUrl }) —
+ * nothing needs to be uploaded. Otherwise responds { duplicate: false } and the caller uploads as usual.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.contentHash) {
+      return NextResponse.json({ error: "contentHash is required" }, { status: 400 });
+    }
+
+    // Same project and bucket limits as a real upload
+    const prepared = await prepareUpload(body);
+    if (!prepared.ok) {
+      const { status, error, details } = prepared.rejection;
+      return NextResponse.json(details ? { error, details } : { error }, { status });
+    }
+
+    const { bucket, fileRecord } = prepared.upload;
+    if (bucket.status !== "active") {
+      return NextResponse.json({ duplicate: false });
+    }
+
+    const original = await findDuplicateObject(bucket, body.contentHash, fileRecord.size);
+    if (!original) {
+      return NextResponse.json({ duplicate: false });
+    }
+
+    const file = await linkDuplicateUpload(prepared.upload, original);
+    return NextResponse.json(
+      {
+        duplicate: true,
+        file,
+        objectKey: file.objectKey,
+        cloudFrontUrl: file.cloudFrontUrl,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Duplicate check failed" },
+      { status: 400 }
+    );
+  }
+}
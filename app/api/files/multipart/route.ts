@@ -0,0 +1,178 @@
+// Next.js API route for S3 multipart uploads — initiate, sign parts, list parts, complete, abort
+import { NextRequest, NextResponse } from "next/server";
+import {
+  readJsonFile,
+  appendToJsonFile,
+  deleteFromJsonFile,
+  findInJsonFile,
+} from "@/lib/filesystem";
+import {
+  chooseMultipartPartSize,
+  createMultipartUpload,
+  generatePresignedPartUrls,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+} from "@/lib/aws";
+import { prepareUpload, confirmUpload } from "@/lib/uploads";
+import {
+  createUploadSession,
+  closeUploadSessionsFor,
+  findUploadSessionByUploadId,
+} from "@/lib/upload-sessions";
+import {
+  multipartUploadRefSchema,
+  multipartSignSchema,
+  multipartCompleteSchema,
+} from "@/lib/validations";
+import type { Bucket, FileRecord } from "@/lib/types";
+
+const FILE = "files.json";
+
+async function findBucket(s3BucketName: string): Promise<Bucket | undefined> {
+  const buckets = await readJsonFile<Bucket>("buckets.json");
+  return buckets.find((b) => b.s3BucketName === s3BucketName);
+}
+
+/**
+ * POST body: { action, ... }
+ *
+ *   initiate   — same fields as POST /api/files; creates the upload, the FileRecord and an upload session
+ *   sign-parts — { bucketName, objectKey, uploadId, partNumbers } → presigned part URLs
+ *   list-parts — { bucketName, objectKey, uploadId } → parts S3 already has (for resuming)
+ *   complete   — { bucketName, objectKey, uploadId, partCount } — also confirms the FileRecord
+ *   abort      — { bucketName, objectKey, uploadId } — also drops the upload session's FileRecord
+ *
+ * complete and abort close the upload session; part progress is recorded via
+ * /api/files/sessions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === "initiate") {
+      const prepared = await prepareUpload(body);
+      if (!prepared.ok) {
+        const { status, error, details } = prepared.rejection;
+        return NextResponse.json(details ? { error, details } : { error }, { status });
+      }
+
+      const { bucket, objectKey, mimeType, cloudFrontUrl, fileRecord } =
+        prepared.upload;
+      const uploadId = await createMultipartUpload(
+        bucket.s3BucketName,
+        objectKey,
+        mimeType,
+        bucket.region
+      );
+      const partSize = chooseMultipartPartSize(fileRecord.size);
+      const partCount = Math.max(1, Math.ceil(fileRecord.size / partSize));
+
+      await appendToJsonFile(FILE, fileRecord);
+      const session = await createUploadSession(prepared.upload, {
+        fileName: body.fileName,
+        fileLastModified: body.fileLastModified,
+        uploadId,
+        partSize,
+        partCount,
+      });
+
+      return NextResponse.json(
+        {
+          sessionId: session.id,
+          uploadId,
+          objectKey,
+          cloudFrontUrl,
+          partSize,
+          partCount,
+          file: fileRecord,
+        },
+        { status: 201 }
+      );
+    }
+
+    if (
+      action === "sign-parts" ||
+      action === "list-parts" ||
+      action === "complete" ||
+      action === "abort"
+    ) {
+      const ref = multipartUploadRefSchema.parse(body);
+      const bucket = await findBucket(ref.bucketName);
+      if (!bucket) {
+        return NextResponse.json({ error: "Bucket not found" }, { status: 404 });
+      }
+
+      if (action === "sign-parts") {
+        const { partNumbers } = multipartSignSchema.parse(body);
+        const urls = await generatePresignedPartUrls(
+          ref.bucketName,
+          ref.objectKey,
+          ref.uploadId,
+          partNumbers,
+          bucket.region
+        );
+        return NextResponse.json({ urls });
+      }
+
+      if (action === "list-parts") {
+        const parts = await listUploadedParts(
+          ref.bucketName,
+          ref.objectKey,
+          ref.uploadId,
+          bucket.region
+        );
+        return NextResponse.json({ parts });
+      }
+
+      if (action === "complete") {
+        const { partCount } = multipartCompleteSchema.parse(body);
+        const session = await findUploadSessionByUploadId(ref.uploadId);
+        const file = session
+          ? await findInJsonFile<FileRecord>(FILE, session.fileId)
+          : null;
+        const result = await completeMultipartUpload(
+          ref.bucketName,
+          ref.objectKey,
+          ref.uploadId,
+          partCount,
+          // The size the record was prepared (and checked against the limits) with
+          file?.size,
+          bucket.region
+        );
+        // The object exists now — confirm its record like POST /api/files/confirm does
+        const confirmed = file ? await confirmUpload(file, bucket.region) : null;
+        await closeUploadSessionsFor(ref.uploadId);
+        return NextResponse.json({ success: true, ...result, file: confirmed });
+      }
+
+      // abort — only the record created for this upload is dropped
+      const session = await findUploadSessionByUploadId(ref.uploadId);
+      await abortMultipartUpload(
+        ref.bucketName,
+        ref.objectKey,
+        ref.uploadId,
+        bucket.region
+      );
+      if (session) {
+        await deleteFromJsonFile<FileRecord>(FILE, session.fileId);
+      }
+      await closeUploadSessionsFor(ref.uploadId);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          "Invalid action. Use initiate, sign-parts, list-parts, complete, or abort.",
+      },
+      { status: 400 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Multipart upload failed" },
+      { status: 400 }
+    );
+  }
+}
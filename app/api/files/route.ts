@@ -1,42 +1,26 @@
 // Next.js API route for file metadata CRUD and presigned URL generation
 import { NextRequest, NextResponse } from "next/server";
-import { v4 as uuidv4 } from "uuid";
 import {
   readJsonFile,
   appendToJsonFile,
   deleteFromJsonFile,
   findInJsonFile,
 } from "@/lib/filesystem";
-import { generatePresignedUploadUrl, buildCloudFrontUrl } from "@/lib/aws";
-import { uploadSchema } from "@/lib/validations";
-import type { FileRecord, Bucket, Project } from "@/lib/types";
+import {
+  generatePresignedUploadUrl,
+  generatePresignedUploadPost,
+} from "@/lib/aws";
+import { prepareUpload } from "@/lib/uploads";
+import { createUploadSession } from "@/lib/upload-sessions";
+import type { FileRecord, Bucket } from "@/lib/types";
 
 const FILE = "files.json";
 
-// Infer MIME type from file extension as a fallback
-function inferMimeType(fileName: string): string {
-  const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
-  const mimeMap: Record<string, string> = {
-    jpg: "image/jpeg", jpeg: "image/jpeg", png: "image/png", gif: "image/gif",
-    webp: "image/webp", svg: "image/svg+xml", bmp: "image/bmp", ico: "image/x-icon",
-    pdf: "application/pdf", json: "application/json", xml: "application/xml",
-    csv: "text/csv", txt: "text/plain", html: "text/html", css: "text/css",
-    js: "application/javascript", ts: "application/typescript",
-    zip: "application/zip", gz: "application/gzip", tar: "application/x-tar",
-    mp4: "video/mp4", webm: "video/webm", avi: "video/x-msvideo",
-    mp3: "audio/mpeg", wav: "audio/wav", ogg: "audio/ogg",
-    doc: "application/msword",
-    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    xls: "application/vnd.ms-excel",
-    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  };
-  return mimeMap[ext] || "application/octet-stream";
-}
-
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const projectId = searchParams.get("projectId");
   const bucketName = searchParams.get("bucketName");
+  const status = searchParams.get("status");
 
   let files = await readJsonFile<FileRecord>(FILE);
   if (projectId) {
@@ -45,138 +29,62 @@ export async function GET(request: NextRequest) {
   if (bucketName) {
     files = files.filter((f) => f.bucketName === bucketName);
   }
+  if (status) {
+    files = files.filter((f) => f.status === status);
+  }
   return NextResponse.json(files);
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const parsed = uploadSchema.parse(body);
-
-    // Sanitize file name: trim whitespace, replace problematic characters
-    const sanitizedFileName = parsed.fileName
-      .trim()
-      .replace(/[^a-zA-Z0-9._-]/g, "_")
-      .replace(/_{2,}/g, "_");
-
-    if (!sanitizedFileName || sanitizedFileName === "_") {
-      return NextResponse.json(
-        { error: "Invalid file name" },
-        { status: 400 }
-      );
-    }
-
-    // Resolve MIME type: use extension-based inference as fallback
-    let resolvedMimeType = parsed.mimeType;
-    if (
-      resolvedMimeType === "application/octet-stream" ||
-      !resolvedMimeType
-    ) {
-      const inferred = inferMimeType(parsed.fileName);
-      if (inferred !== "application/octet-stream") {
-        resolvedMimeType = inferred;
-      }
-    }
-
-    // Validate project exists and check limits
-    const project = await findInJsonFile<Project>(
-      "projects.json",
-      parsed.projectId
-    );
-    if (!project) {
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
+    const prepared = await prepareUpload(body);
+    if (!prepared.ok) {
+      const { status, error, details } = prepared.rejection;
+      return NextResponse.json(details ? { error, details } : { error }, { status });
     }
 
-    // Check MIME type against allowed list
-    // If inferred type is still octet-stream, allow it as a wildcard fallback
-    if (
-      !project.allowedMimeTypes.includes(resolvedMimeType) &&
-      resolvedMimeType !== "application/octet-stream"
-    ) {
-      return NextResponse.json(
-        {
-          error: `MIME type ${resolvedMimeType} is not allowed for project "${project.name}". Allowed: ${project.allowedMimeTypes.join(", ")}`,
-        },
-        { status: 400 }
+    const { bucket, objectKey, mimeType, cloudFrontUrl, maxBytes, fileRecord } =
+      prepared.upload;
+
+    // "post" issues a POST policy so S3 enforces the size and type limits itself
+    let upload: { uploadUrl: string; fields?: Record<string, string> };
+    if (body.uploadMethod === "post") {
+      const post = await generatePresignedUploadPost(
+        bucket.s3BucketName,
+        objectKey,
+        mimeType,
+        maxBytes,
+        bucket.region
       );
+      upload = { uploadUrl: post.url, fields: post.fields };
+    } else {
+      upload = {
+        uploadUrl: await generatePresignedUploadUrl(
+          bucket.s3BucketName,
+          objectKey,
+          mimeType,
+          bucket.region
+        ),
+      };
     }
 
-    // Find the bucket
-    const buckets = await readJsonFile<Bucket>("buckets.json");
-    const bucket = buckets.find(
-      (b) =>
-        b.s3BucketName === parsed.bucketName &&
-        b.projectId === parsed.projectId
-    );
-    if (!bucket) {
-      return NextResponse.json(
-        { error: "Bucket not found for this project" },
-        { status: 404 }
-      );
-    }
-
-    // Check file size limit — bucket-level is authoritative, project-level is the default fallback
-    const bucketMaxMB = bucket.config?.maxFileSizeMB ?? project.maxFileSizeMB;
-    const effectiveMaxMB = Math.min(bucketMaxMB, project.maxFileSizeMB);
-    const maxBytes = effectiveMaxMB * 1024 * 1024;
-    const fileSizeMB = (parsed.fileSize / (1024 * 1024)).toFixed(2);
-
-    if (parsed.fileSize > maxBytes) {
-      const source = bucketMaxMB <= project.maxFileSizeMB ? "bucket" : "project";
-      return NextResponse.json(
-        {
-          error: `File size (${fileSizeMB} MB) exceeds the ${source}-level limit of ${effectiveMaxMB} MB.`,
-          details: {
-            fileSizeMB: Number(fileSizeMB),
-            bucketLimitMB: bucketMaxMB,
-            projectLimitMB: project.maxFileSizeMB,
-            effectiveLimitMB: effectiveMaxMB,
-            enforcedBy: source,
-          },
-        },
-        { status: 400 }
-      );
-    }
-
-    // Generate object key and presigned URL
-    // Support optional folderPrefix for organizing files into folders
-    const rawPrefix = body.folderPrefix
-      ? body.folderPrefix.replace(/^\/+|\/+$/g, "").replace(/\/\//g, "/")
-      : parsed.projectId;
-    const folderPrefix = rawPrefix || parsed.projectId; // ensure never empty
-    const objectKey = `${folderPrefix}/${uuidv4()}-${sanitizedFileName}`;
-    const uploadUrl = await generatePresignedUploadUrl(
-      bucket.s3BucketName,
-      objectKey,
-      resolvedMimeType,
-      bucket.region
-    );
-
-    const cloudFrontUrl = bucket.cloudFrontDomain
-      ? buildCloudFrontUrl(bucket.cloudFrontDomain, objectKey)
-      : "";
-
-    // Store file metadata
-    const fileRecord: FileRecord = {
-      id: uuidv4(),
-      projectId: parsed.projectId,
-      bucketName: bucket.s3BucketName,
-      objectKey,
-      cloudFrontUrl,
-      size: parsed.fileSize,
-      mimeType: resolvedMimeType,
-      linkedModel: parsed.linkedModel || "",
-      linkedModelId: parsed.linkedModelId || "",
-      createdAt: new Date().toISOString(),
-    };
-
+    // Store file metadata, tracked by a session until the object shows up in S3
     await appendToJsonFile(FILE, fileRecord);
+    const session = await createUploadSession(prepared.upload, {
+      fileName: body.fileName,
+      fileLastModified: body.fileLastModified,
+    });
 
     return NextResponse.json(
-      { uploadUrl, objectKey, cloudFrontUrl, file: fileRecord },
+      {
+        uploadMethod: body.uploadMethod === "post" ? "post" : "put",
+        ...upload,
+        objectKey,
+        cloudFrontUrl,
+        file: fileRecord,
+        sessionId: session.id,
+      },
       { status: 201 }
     );
   } catch (error) {
@@ -204,8 +112,13 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ error: "File not found" }, { status: 404 });
   }
 
+  // Deduplicated records share one object — keep it while another record uses it
+  const shared = (await readJsonFile<FileRecord>(FILE)).some(
+    (f) => f.id !== file.id && f.bucketName === file.bucketName && f.objectKey === file.objectKey
+  );
+
   // Attempt S3 deletion (skipped when caller only wants metadata removal)
-  if (!skipS3) {
+  if (!skipS3 && !shared) {
     try {
       const buckets = await readJsonFile<Bucket>("buckets.json");
       const bucket = buckets.find((b) => b.s3BucketName === file.bucketName);
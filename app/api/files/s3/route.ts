@@ -1,7 +1,13 @@
 // API route to list actual S3 objects, create folders, and move files
 import { NextRequest, NextResponse } from "next/server";
-import { listS3Objects, createS3Folder, moveS3Object, deleteS3Object } from "@/lib/aws";
-import { readJsonFile, writeJsonFile } from "@/lib/filesystem";
+import {
+  listS3Objects,
+  createS3Folder,
+  moveS3Object,
+  deleteS3Object,
+  buildCloudFrontUrl,
+} from "@/lib/aws";
+import { readJsonFile, modifyJsonFile } from "@/lib/filesystem";
 import type { FileRecord, Bucket } from "@/lib/types";
 
 export interface MergedS3File {
@@ -14,7 +20,7 @@ export interface MergedS3File {
   uploadedFromSystem: boolean;
   /** metadata record if it was uploaded from the system */
   metadata?: FileRecord;
-  /** CDN URL built from CloudFront domain */
+  /** CDN URL on the bucket's custom domain or CloudFront domain */
   cdnUrl?: string;
 }
 
@@ -51,10 +57,9 @@ export async function GET(request: NextRequest) {
       metadataByKey.set(record.objectKey, record);
     }
 
-    // Find the bucket to get CloudFront domain
+    // Find the bucket to get its CDN domain
     const buckets = await readJsonFile<Bucket>("buckets.json");
     const bucket = buckets.find((b) => b.s3BucketName === bucketName);
-    const cfDomain = bucket?.cloudFrontDomain;
 
     // Merge S3 objects with metadata
     const merged: MergedS3File[] = s3Objects.map((obj) => {
@@ -67,7 +72,7 @@ export async function GET(request: NextRequest) {
         storageClass: obj.storageClass,
         uploadedFromSystem: !!meta,
         metadata: meta || undefined,
-        cdnUrl: cfDomain ? `https://${cfDomain}/${obj.key}` : undefined,
+        cdnUrl: (bucket && buildCloudFrontUrl(bucket, obj.key)) || undefined,
       };
     });
 
@@ -133,22 +138,18 @@ export async function POST(request: NextRequest) {
       await moveS3Object(bucketName, sourceKey, destinationKey, region);
 
       // Update local metadata if the moved file has a matching record
-      const allFiles = await readJsonFile<FileRecord>("files.json");
-      let updated = false;
-      const updatedFiles = allFiles.map((f) => {
-        if (f.bucketName === bucketName && f.objectKey === sourceKey) {
-          updated = true;
-          // Find the bucket to rebuild CloudFront URL
-          const cfUrl = f.cloudFrontUrl
-            ? f.cloudFrontUrl.replace(sourceKey, destinationKey)
-            : "";
-          return { ...f, objectKey: destinationKey, cloudFrontUrl: cfUrl };
-        }
-        return f;
-      });
-      if (updated) {
-        await writeJsonFile("files.json", updatedFiles);
-      }
+      await modifyJsonFile<FileRecord>("files.json", (allFiles) =>
+        allFiles.map((f) => {
+          if (f.bucketName === bucketName && f.objectKey === sourceKey) {
+            // Find the bucket to rebuild CloudFront URL
+            const cfUrl = f.cloudFrontUrl
+              ? f.cloudFrontUrl.replace(sourceKey, destinationKey)
+              : "";
+            return { ...f, objectKey: destinationKey, cloudFrontUrl: cfUrl };
+          }
+          return f;
+        })
+      );
 
       return NextResponse.json({ success: true, sourceKey, destinationKey });
     }
@@ -164,13 +165,11 @@ export async function POST(request: NextRequest) {
       await deleteS3Object(bucketName, key, region);
 
       // Remove local metadata for this key
-      const allFiles = await readJsonFile<FileRecord>("files.json");
-      const filteredFiles = allFiles.filter(
-        (f) => !(f.bucketName === bucketName && f.objectKey === key)
+      await modifyJsonFile<FileRecord>("files.json", (allFiles) =>
+        allFiles.filter(
+          (f) => !(f.bucketName === bucketName && f.objectKey === key)
+        )
       );
-      if (filteredFiles.length !== allFiles.length) {
-        await writeJsonFile("files.json", filteredFiles);
-      }
 
       return NextResponse.json({ success: true });
     }
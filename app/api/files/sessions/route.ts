@@ -0,0 +1,96 @@
+// Next.js API route for upload sessions — list interrupted uploads, record part progress, discard, reconcile
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonFile } from "@/lib/filesystem";
+import {
+  UPLOAD_SESSIONS_FILE,
+  findUploadSession,
+  recordUploadProgress,
+  discardUploadSession,
+  reconcileUploadSessions,
+} from "@/lib/upload-sessions";
+import { uploadSessionProgressSchema } from "@/lib/validations";
+import type { Bucket, UploadSession } from "@/lib/types";
+
+async function bucketRegion(s3BucketName: string): Promise<string | undefined> {
+  const buckets = await readJsonFile<Bucket>("buckets.json");
+  return buckets.find((b) => b.s3BucketName === s3BucketName)?.region;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const projectId = searchParams.get("projectId");
+  const bucketName = searchParams.get("bucketName");
+
+  let sessions = await readJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE);
+  if (projectId) {
+    sessions = sessions.filter((s) => s.projectId === projectId);
+  }
+  if (bucketName) {
+    sessions = sessions.filter((s) => s.bucketName === bucketName);
+  }
+  return NextResponse.json(sessions);
+}
+
+/**
+ * POST body: { action, ... }
+ *
+ *   progress  — { id, completedParts } → stores the parts uploaded so far
+ *   reconcile — { maxAgeMinutes? } → runs the reconciler now
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action === "progress") {
+      const { id, completedParts } = uploadSessionProgressSchema.parse(body);
+      const session = await recordUploadProgress(id, completedParts);
+      if (!session) {
+        return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+      }
+      return NextResponse.json(session);
+    }
+
+    if (action === "reconcile") {
+      const minutes = Number(body.maxAgeMinutes);
+      const result = await reconcileUploadSessions(
+        Number.isFinite(minutes) && minutes >= 0 ? minutes * 60_000 : undefined
+      );
+      return NextResponse.json(result);
+    }
+
+    return NextResponse.json(
+      { error: "Invalid action. Use progress or reconcile." },
+      { status: 400 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Upload session update failed" },
+      { status: 400 }
+    );
+  }
+}
+
+/** Discard an interrupted upload — aborts it in S3 and removes its FileRecord. */
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  const session = await findUploadSession(id);
+  if (!session) {
+    return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+  }
+
+  try {
+    await discardUploadSession(session, await bucketRegion(session.bucketName));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to discard upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,57 @@
 import { NextRequest } from "next/server";
 import { spawn } from "child_process";
 import path from "path";
-import { updateInJsonFile, readJsonFile } from "@/lib/filesystem";
-import { describeStack, deleteStack, checkBucketExists } from "@/lib/aws";
-import type { Bucket, Project, BucketSyncStatus } from "@/lib/types";
+import {
+  updateInJsonFile,
+  readJsonFile,
+  findInJsonFile,
+  modifyJsonFile,
+  deleteFromJsonFile,
+} from "@/lib/filesystem";
+import {
+  describeStack,
+  deleteStack,
+  checkBucketExists,
+  verifyDeployedBucketConfig,
+  emptyBucket,
+  deleteS3Bucket,
+  detectStackDrift,
+  stackOriginAccess,
+  deleteWafStack,
+  type StackResource,
+} from "@/lib/aws";
+import {
+  validateBucketConfig,
+  hasDeployedStack,
+  getCdnDomain,
+  usesWaf,
+} from "@/lib/bucket-config";
+import { parseCdkDiff, countCdkChanges, formatCdkChange } from "@/lib/cdk-diff";
+import {
+  enqueueDeployJob,
+  deployQueuePosition,
+  finishDeployJob,
+  cancelDeployJob,
+  listDeployJobs,
+  deployConcurrency,
+} from "@/lib/deploy-queue";
+import { saveDeployRun, deployActor } from "@/lib/deploy-runs";
+import {
+  watchStackEvents,
+  findRootCauseEvent,
+  formatStackEvent,
+  stackEventLevel,
+} from "@/lib/stack-events";
+import { toStackDriftResult, reapplyStackDrift } from "@/lib/stack-drift";
+import { ensureSigningPublicKey, deleteSigningKey } from "@/lib/signing-keys";
+import type {
+  Bucket,
+  BucketDeployment,
+  FileRecord,
+  Project,
+  BucketSyncStatus,
+  StackEvent,
+} from "@/lib/types";
 
 const CDK_DIR = path.join(process.cwd(), "infrastructure", "cdk");
 
@@ -113,6 +161,155 @@ function matchErrorPatterns(
   return null;
 }
 
+// --- Deploy History ---
+const MAX_DEPLOY_HISTORY = 50;
+
+/** Apply the result of a deploy and append it to the bucket's deploy history. */
+async function recordDeployment(
+  bucketId: string,
+  updates: Partial<Bucket>,
+  deployment: BucketDeployment,
+): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  await modifyJsonFile<Bucket>("buckets.json", (buckets) =>
+    buckets.map((b) =>
+      b.id === bucketId
+        ? {
+            ...b,
+            ...updates,
+            deployHistory: [...(b.deployHistory ?? []), deployment].slice(-MAX_DEPLOY_HISTORY),
+            updatedAt,
+          }
+        : b,
+    ),
+  );
+}
+
+// --- Retained Bucket After Destroy ---
+type RetainedBucketMode = "delete" | "detach";
+
+/**
+ * The stack retains its bucket on destroy. "delete" empties and deletes it and
+ * drops the bucket and its file records; "detach" keeps it as an imported
+ * bucket without a distribution. Returns an error message if the bucket could
+ * not be deleted — it is detached instead, so nothing points at the old stack.
+ */
+async function releaseRetainedBucket(
+  bucket: Bucket,
+  mode: RetainedBucketMode,
+  deployment: BucketDeployment,
+  write: (data: Record<string, unknown>) => void,
+): Promise<string | null> {
+  if (mode === "delete") {
+    try {
+      if (await checkBucketExists(bucket.s3BucketName, bucket.region)) {
+        write({ type: "status", label: `Emptying ${bucket.s3BucketName}…`, level: "info" });
+        const deleted = await emptyBucket(bucket.s3BucketName, bucket.region);
+        write({ type: "status", label: `Deleted ${deleted} object(s)`, level: "info" });
+        await deleteS3Bucket(bucket.s3BucketName, bucket.region);
+      }
+      await deleteFromJsonFile<Bucket>("buckets.json", bucket.id);
+      await modifyJsonFile<FileRecord>("files.json", (files) =>
+        files.filter((f) => f.bucketName !== bucket.s3BucketName),
+      );
+      await deleteSigningKey(bucket.s3BucketName);
+      write({
+        type: "status",
+        label: `Deleted bucket ${bucket.s3BucketName} and its file records`,
+        level: "success",
+      });
+      return null;
+    } catch (e) {
+      const message = `Could not delete bucket ${bucket.s3BucketName}: ${e instanceof Error ? e.message : "unknown error"}`;
+      write({ type: "status", label: message, level: "error" });
+      write({ type: "status", label: "Detaching the bucket instead", level: "warn" });
+      await releaseRetainedBucket(bucket, "detach", { ...deployment, error: message }, write);
+      return message;
+    }
+  }
+
+  await recordDeployment(
+    bucket.id,
+    {
+      status: "active",
+      cloudFrontDomain: "",
+      cloudFrontDistributionId: "",
+      deployedConfig: undefined,
+      signingKeyPairId: undefined,
+    },
+    deployment,
+  );
+  // CloudFront URLs died with the distribution
+  await modifyJsonFile<FileRecord>("files.json", (files) =>
+    files.map((f) =>
+      f.bucketName === bucket.s3BucketName ? { ...f, cloudFrontUrl: "" } : f,
+    ),
+  );
+  write({
+    type: "status",
+    label: `Detached ${bucket.s3BucketName} — it is now tracked as an imported bucket`,
+    level: "success",
+  });
+  return null;
+}
+
+/** Point stored file URLs of the bucket at the domain it is now served from. */
+async function moveFileUrls(bucket: Bucket, fromDomain: string, toDomain: string): Promise<number> {
+  const fromPrefix = `https://${fromDomain}/`;
+  let moved = 0;
+  await modifyJsonFile<FileRecord>("files.json", (files) =>
+    files.map((f) => {
+      if (f.bucketName !== bucket.s3BucketName || !f.cloudFrontUrl.startsWith(fromPrefix)) {
+        return f;
+      }
+      moved++;
+      return { ...f, cloudFrontUrl: `https://${toDomain}/${f.cloudFrontUrl.slice(fromPrefix.length)}` };
+    }),
+  );
+  return moved;
+}
+
+/**
+ * Remove the us-east-1 WAF stack once nothing uses it. Best effort — a
+ * leftover web ACL costs money but does not affect the distribution.
+ */
+async function removeWafStack(
+  bucket: Bucket,
+  write: (data: Record<string, unknown>) => void,
+): Promise<void> {
+  try {
+    await deleteWafStack(bucket.s3BucketName);
+    write({
+      type: "check",
+      // DeleteStack returns once CloudFormation accepts the request
+      label: `Deletion started for the unused WAF stack SCR-${bucket.s3BucketName}-waf in us-east-1`,
+      level: "info",
+    });
+  } catch (e) {
+    write({
+      type: "check",
+      label: `Could not delete SCR-${bucket.s3BucketName}-waf in us-east-1 — delete it in the CloudFormation console: ${e instanceof Error ? e.message : "unknown error"}`,
+      level: "warn",
+    });
+  }
+}
+
+/**
+ * The origin access a live stack uses, and for legacy OAI stacks whether the
+ * switch to OAC is already staged in the bucket config.
+ */
+function originAccessStatus(
+  bucket: Bucket,
+  resources: StackResource[],
+): Pick<BucketSyncStatus, "originAccess" | "oacMigration"> {
+  const originAccess = stackOriginAccess(resources);
+  if (originAccess !== "oai") return { originAccess };
+  return {
+    originAccess,
+    oacMigration: bucket.config.originAccess === "oac" ? "staged" : "available",
+  };
+}
+
 // --- Pre-Deployment Checks ---
 async function runPreChecks(
   write: (data: Record<string, unknown>) => void,
@@ -202,20 +399,42 @@ async function runPreChecks(
 
 export async function POST(request: NextRequest) {
   try {
-    const { action, bucketId, s3BucketName, region } = await request.json();
+    const { action, bucketId, s3BucketName, region, retainedBucket } =
+      await request.json();
 
     if (!action) {
       return new Response(
-        JSON.stringify({ error: "Action is required (synth | deploy)" }),
+        JSON.stringify({ error: "Action is required (synth | diff | deploy | destroy)" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+    if (
+      action === "destroy" &&
+      (!bucketId || (retainedBucket !== "delete" && retainedBucket !== "detach"))
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: 'destroy requires bucketId and retainedBucket ("delete" | "detach")',
+        }),
         { status: 400, headers: { "Content-Type": "application/json" } },
       );
     }
 
     // Set up streaming response
     const encoder = new TextEncoder();
+    let jobId: string | undefined;
     const stream = new ReadableStream({
       async start(controller) {
+        // The last result line decides how the job is recorded in the queue
+        let lastResult: { status: string; message?: string } | undefined;
+        // Every streamed line, with its offset from the start, for the run archive
+        const streamStartedAt = Date.now();
+        const logLines: string[] = [];
         const write = (data: Record<string, unknown>) => {
+          if (data.type === "result") {
+            lastResult = { status: String(data.status), message: data.message as string | undefined };
+          }
+          logLines.push(JSON.stringify({ ...data, at: Date.now() - streamStartedAt }));
           try {
             controller.enqueue(encoder.encode(JSON.stringify(data) + "\n"));
           } catch {
@@ -223,305 +442,638 @@ export async function POST(request: NextRequest) {
           }
         };
 
-        // Pre-checks
-        const checksOk = await runPreChecks(write);
-        if (!checksOk) {
-          write({
-            type: "result",
-            status: "error",
-            message: "Pre-deployment checks failed",
-          });
-          controller.close();
-          return;
-        }
-
-        // Update bucket status
-        if (action === "deploy" && bucketId) {
-          await updateInJsonFile<Bucket>("buckets.json", bucketId, {
-            status: "deploying",
-          } as Partial<Bucket>);
+        // Wait for a slot in the deploy queue — each job gets its own
+        // cloud assembly and outputs file, so parallel deploys stay apart
+        const queuedBucket = bucketId
+          ? await findInJsonFile<Bucket>("buckets.json", bucketId)
+          : null;
+        const { job, started } = enqueueDeployJob({
+          action,
+          bucketId,
+          bucketName: queuedBucket?.name,
+          s3BucketName,
+          region,
+        });
+        jobId = job.id;
+        if (job.status === "queued") {
+          const ahead = deployQueuePosition(job.id);
           write({
-            type: "status",
-            label: `Bucket status set to "deploying"`,
+            type: "queue",
+            jobId: job.id,
+            status: "queued",
+            message:
+              ahead > 0
+                ? `Queued — ${ahead} job(s) ahead`
+                : "Queued — waiting for a running job on this stack to finish",
             level: "info",
           });
         }
+        if (!(await started)) return;
+        write({
+          type: "queue",
+          jobId: job.id,
+          status: "running",
+          message: `Job ${job.id.slice(0, 8)} started`,
+          level: "info",
+        });
+        const outputsFile = path.join(job.outputDir, "cdk-outputs.json");
+        const assemblyDir = path.join(job.outputDir, "cdk.out");
+        let runExitCode: number | null = null;
+        let runOutputs: Record<string, string> | undefined;
+        let stackWatch: ReturnType<typeof watchStackEvents> | null = null;
+
+        try {
+          // Pre-checks
+          const checksOk = await runPreChecks(write);
+          if (!checksOk) {
+            write({
+              type: "result",
+              status: "error",
+              message: "Pre-deployment checks failed",
+            });
+            return;
+          }
 
-        // Build command
-        const env = {
-          ...process.env,
-          SCR_BUCKET_NAME: s3BucketName || "",
-          SCR_REGION: region || "us-east-1",
-        };
-
-        let command: string;
-        let args: string[];
-        switch (action) {
-          case "synth":
-            command = "npx";
-            args = ["cdk", "synth"];
-            break;
-          case "deploy":
-            command = "npx";
-            args = [
-              "cdk",
-              "deploy",
-              "--require-approval",
-              "never",
-              "--outputs-file",
-              "cdk-outputs.json",
-            ];
-            break;
-          default:
+          // The stack is built from the bucket's saved config
+          const bucket = bucketId
+            ? await findInJsonFile<Bucket>("buckets.json", bucketId)
+            : null;
+          const configProblem = bucket ? validateBucketConfig(bucket.config) : null;
+          if (configProblem) {
+            write({ type: "check", label: configProblem, level: "error" });
             write({
               type: "result",
               status: "error",
-              message: "Invalid action. Use synth or deploy.",
+              message: "Bucket config is invalid",
             });
-            controller.close();
             return;
-        }
+          }
 
-        write({
-          type: "command",
-          label: `Running: ${command} ${args.join(" ")}`,
-          level: "command",
-        });
+          // A bucket that has been deployed before is updated in place —
+          // CloudFormation keeps the distribution, so the domain does not change
+          const isUpdate = !!bucket && hasDeployedStack(bucket);
+          const startedAt = new Date().toISOString();
 
-        // Spawn process with streaming
-        const child = spawn(command, args, {
-          cwd: CDK_DIR,
-          env,
-          shell: true,
-          timeout: 300000,
-        });
+          if (action === "destroy" && !bucket) {
+            write({ type: "result", status: "error", message: "Bucket not found" });
+            return;
+          }
 
-        // --- Helper: run a CDK command and collect output ---
-        async function runCdkProcess(
-          cmd: string,
-          cmdArgs: string[],
-          cmdEnv: NodeJS.ProcessEnv,
-        ): Promise<{ code: number | null; stdout: string; stderr: string }> {
-          return new Promise((res) => {
-            const proc = spawn(cmd, cmdArgs, {
-              cwd: CDK_DIR,
-              env: cmdEnv,
-              shell: true,
-              timeout: 300000,
-            });
-            let stdout = "";
-            let stderr = "";
-
-            proc.stdout?.on("data", (chunk: Buffer) => {
-              const text = chunk.toString();
-              stdout += text;
-              for (const line of text.split("\n")) {
-                if (line.trim()) write({ type: "stdout", message: line, level: "info" });
-              }
+          // Update bucket status
+          if ((action === "deploy" || action === "destroy") && bucketId) {
+            const status = action === "deploy" ? "deploying" : "deleting";
+            await updateInJsonFile<Bucket>("buckets.json", bucketId, {
+              status,
+            } as Partial<Bucket>);
+            write({
+              type: "status",
+              label: `Bucket status set to "${status}"`,
+              level: "info",
             });
+          }
+
+          // Build command
+          const env = {
+            ...process.env,
+            SCR_BUCKET_NAME: s3BucketName || "",
+            SCR_REGION: region || "us-east-1",
+            SCR_BUCKET_CONFIG: bucket ? JSON.stringify(bucket.config) : "",
+            // Generated on the first private deploy; the private key stays in data/signing-keys/
+            SCR_SIGNING_PUBLIC_KEY: bucket?.config.privateDelivery
+              ? await ensureSigningPublicKey(bucket.s3BucketName)
+              : "",
+          };
+
+          let command: string;
+          let args: string[];
+          switch (action) {
+            case "synth":
+              command = "npx";
+              args = ["cdk", "synth"];
+              break;
+            case "diff":
+              command = "npx";
+              args = ["cdk", "diff"];
+              break;
+            case "deploy":
+              command = "npx";
+              args = [
+                "cdk",
+                "deploy",
+                // The WAF stack in us-east-1 deploys alongside the bucket stack
+                "--all",
+                "--require-approval",
+                "never",
+                "--outputs-file",
+                outputsFile,
+              ];
+              break;
+            case "destroy":
+              command = "npx";
+              args = ["cdk", "destroy", "--all", "--force"];
+              break;
+            default:
+              write({
+                type: "result",
+                status: "error",
+                message: "Invalid action. Use synth, diff, deploy or destroy.",
+              });
+              return;
+          }
+          args.push("--output", assemblyDir);
+
+          write({
+            type: "command",
+            label: `Running: ${command} ${args.join(" ")}`,
+            level: "command",
+          });
 
-            proc.stderr?.on("data", (chunk: Buffer) => {
-              const text = chunk.toString();
-              stderr += text;
-              for (const line of text.split("\n")) {
-                if (line.trim()) {
-                  const isProgress =
-                    /\d+\/\d+|⏳|✅|✨|★|⚡/.test(line) ||
-                    line.includes("CDK") ||
-                    line.includes("Outputs:");
-                  write({ type: "stderr", message: line, level: isProgress ? "info" : "warn" });
+          // --- Helper: run a CDK command and collect output ---
+          async function runCdkProcess(
+            cmd: string,
+            cmdArgs: string[],
+            cmdEnv: NodeJS.ProcessEnv,
+          ): Promise<{ code: number | null; stdout: string; stderr: string }> {
+            return new Promise((res) => {
+              const proc = spawn(cmd, cmdArgs, {
+                cwd: CDK_DIR,
+                env: cmdEnv,
+                shell: true,
+                timeout: 300000,
+              });
+              let stdout = "";
+              let stderr = "";
+
+              proc.stdout?.on("data", (chunk: Buffer) => {
+                const text = chunk.toString();
+                stdout += text;
+                for (const line of text.split("\n")) {
+                  if (line.trim()) write({ type: "stdout", message: line, level: "info" });
                 }
-              }
+              });
+
+              proc.stderr?.on("data", (chunk: Buffer) => {
+                const text = chunk.toString();
+                stderr += text;
+                for (const line of text.split("\n")) {
+                  if (line.trim()) {
+                    const isProgress =
+                      /\d+\/\d+|⏳|✅|✨|★|⚡/.test(line) ||
+                      line.includes("CDK") ||
+                      line.includes("Outputs:");
+                    write({ type: "stderr", message: line, level: isProgress ? "info" : "warn" });
+                  }
+                }
+              });
+
+              proc.on("close", (code: number | null) => res({ code, stdout, stderr }));
+              proc.on("error", (err: Error) => res({ code: 1, stdout, stderr: stderr + err.message }));
             });
+          }
 
-            proc.on("close", (code: number | null) => res({ code, stdout, stderr }));
-            proc.on("error", (err: Error) => res({ code: 1, stdout, stderr: stderr + err.message }));
-          });
-        }
+          // --- Helper: check if deploy succeeded ---
+          async function checkDeploySuccess(
+            code: number | null,
+            stdout: string,
+            stderr: string,
+          ): Promise<boolean> {
+            if (code === 0) return true;
+            // Check CDK outputs file
+            if (action === "deploy" && bucketId) {
+              try {
+                const fs = await import("fs/promises");
+                const outputsPath = path.join(CDK_DIR, outputsFile);
+                const outputsRaw = await fs.readFile(outputsPath, "utf-8");
+                const outputs = JSON.parse(outputsRaw);
+                const stackName = Object.keys(outputs).find((k) =>
+                  k.includes(s3BucketName || ""),
+                );
+                if (stackName && outputs[stackName]) return true;
+              } catch { /* */ }
+            }
+            if (stdout.includes("✅") || stderr.includes("✅")) return true;
+            return false;
+          }
+
+          // --- Helper: detect bootstrap-needed error ---
+          function needsBootstrap(combined: string): boolean {
+            return /Is account \d+ bootstrapped|Has the environment been bootstrapped|No bucket named 'cdk-hnb659fds-assets|No bucket named cdk-hnb659fds-assets/i.test(combined);
+          }
 
-        // --- Helper: check if deploy succeeded ---
-        async function checkDeploySuccess(
-          code: number | null,
-          stdout: string,
-          stderr: string,
-        ): Promise<boolean> {
-          if (code === 0) return true;
-          // Check CDK outputs file
-          if (action === "deploy" && bucketId) {
+          // --- Helper: run auto-bootstrap ---
+          async function autoBootstrap(): Promise<boolean> {
+            // Resolve account ID from env, region, or STS
+            let accountId = "";
             try {
-              const fs = await import("fs/promises");
-              const outputsPath = path.join(CDK_DIR, "cdk-outputs.json");
-              const outputsRaw = await fs.readFile(outputsPath, "utf-8");
-              const outputs = JSON.parse(outputsRaw);
-              const stackName = Object.keys(outputs).find((k) =>
-                k.includes(s3BucketName || ""),
-              );
-              if (stackName && outputs[stackName]) return true;
+              const { getCallerIdentity } = await import("@/lib/aws");
+              const identity = await getCallerIdentity();
+              accountId = identity.account;
             } catch { /* */ }
+
+            if (!accountId) {
+              write({ type: "stderr", message: "Could not determine AWS account ID for auto-bootstrap", level: "error" });
+              return false;
+            }
+
+            // A WAF stack deploys to us-east-1 whatever the bucket's region
+            const bootstrapRegions = [region || "us-east-1"];
+            if (bucket && usesWaf(bucket.config) && !bootstrapRegions.includes("us-east-1")) {
+              bootstrapRegions.push("us-east-1");
+            }
+            for (const bootstrapRegion of bootstrapRegions) {
+              write({
+                type: "command",
+                label: `Auto-bootstrapping region ${bootstrapRegion} (account ${accountId})…`,
+                level: "command",
+              });
+
+              const bsResult = await runCdkProcess(
+                "npx",
+                ["cdk", "bootstrap", `aws://${accountId}/${bootstrapRegion}`, "--output", assemblyDir],
+                env,
+              );
+
+              if (bsResult.code === 0 || bsResult.stdout.includes("✅") || bsResult.stderr.includes("✅")) {
+                write({ type: "check", label: `Bootstrapped ${bootstrapRegion}`, level: "success" });
+
+                // Also persist the environment record so the UI stays in sync
+                try {
+                  const { readJsonFile: readJson } = await import("@/lib/filesystem");
+                  const { appendToJsonFile } = await import("@/lib/filesystem");
+                  const envs: { region: string }[] = await readJson("environments.json");
+                  if (!envs.some((e) => e.region === bootstrapRegion)) {
+                    await appendToJsonFile("environments.json", {
+                      id: crypto.randomUUID(),
+                      region: bootstrapRegion,
+                      accountId,
+                      alias: bootstrapRegion,
+                      status: "active",
+                      bootstrappedAt: new Date().toISOString(),
+                      createdAt: new Date().toISOString(),
+                    });
+                  }
+                } catch { /* best-effort */ }
+
+                continue;
+              }
+
+              write({ type: "result", status: "error", message: "Auto-bootstrap failed — deploy aborted", level: "error" });
+              return false;
+            }
+
+            write({ type: "result", status: "success", message: "Bootstrap completed — retrying deploy…", level: "success" });
+            return true;
           }
-          if (stdout.includes("✅") || stderr.includes("✅")) return true;
-          return false;
-        }
 
-        // --- Helper: detect bootstrap-needed error ---
-        function needsBootstrap(combined: string): boolean {
-          return /Is account \d+ bootstrapped|Has the environment been bootstrapped|No bucket named 'cdk-hnb659fds-assets|No bucket named cdk-hnb659fds-assets/i.test(combined);
-        }
+          // CloudFormation events give per-resource progress and the real
+          // reason a resource failed, which CDK's stderr often hides
+          if ((action === "deploy" || action === "destroy") && s3BucketName) {
+            stackWatch = watchStackEvents(s3BucketName, region, new Date(), (event) =>
+              write({
+                type: "stack-event",
+                event,
+                message: formatStackEvent(event),
+                level: stackEventLevel(event),
+              }),
+            );
+          }
 
-        // --- Helper: run auto-bootstrap ---
-        async function autoBootstrap(): Promise<boolean> {
-          // Resolve account ID from env, region, or STS
-          let accountId = "";
-          try {
-            const { getCallerIdentity } = await import("@/lib/aws");
-            const identity = await getCallerIdentity();
-            accountId = identity.account;
-          } catch { /* */ }
+          // === Run the main CDK command ===
+          const { code: exitCode, stdout: stdoutBuffer, stderr: stderrBuffer } =
+            await runCdkProcess(command, args, env);
+
+          runExitCode = exitCode;
+          let actuallySucceeded = await checkDeploySuccess(exitCode, stdoutBuffer, stderrBuffer);
+
+          // --- Auto-bootstrap & retry if needed ---
+          if (!actuallySucceeded && action === "deploy") {
+            const combined = stdoutBuffer + stderrBuffer;
+            if (needsBootstrap(combined)) {
+              write({
+                type: "error-intelligence",
+                title: "CDK Bootstrap Required — auto-recovering",
+                suggestion: "Detected that this region is not bootstrapped. Running bootstrap automatically before retrying deploy.",
+                level: "warn",
+              });
+
+              const bootstrapped = await autoBootstrap();
+              if (bootstrapped) {
+                // Retry the deploy
+                write({ type: "command", label: `Retrying: ${command} ${args.join(" ")}`, level: "command" });
+                const retry = await runCdkProcess(command, args, env);
+                runExitCode = retry.code;
+                actuallySucceeded = await checkDeploySuccess(retry.code, retry.stdout, retry.stderr);
+              }
+            }
+          }
 
-          if (!accountId) {
-            write({ type: "stderr", message: "Could not determine AWS account ID for auto-bootstrap", level: "error" });
-            return false;
+          let stackEvents: StackEvent[] = [];
+          if (stackWatch) {
+            stackEvents = await stackWatch.stop();
+            stackWatch = null;
           }
 
-          const bootstrapRegion = region || "us-east-1";
-          write({
-            type: "command",
-            label: `Auto-bootstrapping region ${bootstrapRegion} (account ${accountId})…`,
-            level: "command",
+          // === Handle final result ===
+          const deployment = (
+            deployed: Bucket,
+            status: BucketDeployment["status"],
+            cloudFrontDomain: string,
+            error?: string,
+          ): BucketDeployment => ({
+            id: crypto.randomUUID(),
+            kind: action === "destroy" ? "destroy" : isUpdate ? "update" : "create",
+            status,
+            fromConfig: deployed.deployedConfig,
+            config: deployed.config,
+            cloudFrontDomain,
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            error,
+            runId: job.id,
           });
 
-          const bsResult = await runCdkProcess(
-            "npx",
-            ["cdk", "bootstrap", `aws://${accountId}/${bootstrapRegion}`],
-            env,
-          );
-
-          if (bsResult.code === 0 || bsResult.stdout.includes("✅") || bsResult.stderr.includes("✅")) {
-            write({ type: "result", status: "success", message: "Bootstrap completed — retrying deploy…", level: "success" });
+          if (actuallySucceeded && action === "deploy" && bucket) {
+            // Capture outputs, then check the deployed bucket against its config
+            let stackOutputs: Record<string, string> | undefined;
+            try {
+              const fs = await import("fs/promises");
+              const outputsPath = path.join(CDK_DIR, outputsFile);
+              const outputsRaw = await fs.readFile(outputsPath, "utf-8");
+              const outputs = JSON.parse(outputsRaw);
+              stackOutputs = (outputs[`SCR-${bucket.s3BucketName}`] ??
+                Object.values(outputs)[0]) as Record<string, string> | undefined;
+              runOutputs = stackOutputs;
+            } catch { /* outputs file missing — keep existing values */ }
+
+            const cloudFrontDomain =
+              stackOutputs?.["CloudFrontDomain"] || bucket.cloudFrontDomain;
+            if (stackOutputs) {
+              write({
+                type: "outputs",
+                data: stackOutputs,
+                level: "success",
+                message: "Stack outputs captured",
+              });
+            }
+            if (isUpdate && bucket.cloudFrontDomain && cloudFrontDomain !== bucket.cloudFrontDomain) {
+              write({
+                type: "check",
+                label: `CloudFront domain changed from ${bucket.cloudFrontDomain} to ${cloudFrontDomain}`,
+                level: "warn",
+              });
+            }
 
-            // Also persist the environment record so the UI stays in sync
+            write({
+              type: "check",
+              label: "Verifying deployed bucket against its config…",
+              level: "info",
+            });
+            let mismatches: string[];
             try {
-              const { readJsonFile: readJson } = await import("@/lib/filesystem");
-              const { appendToJsonFile } = await import("@/lib/filesystem");
-              const envs: { region: string }[] = await readJson("environments.json");
-              if (!envs.some((e) => e.region === bootstrapRegion)) {
-                await appendToJsonFile("environments.json", {
-                  id: crypto.randomUUID(),
-                  region: bootstrapRegion,
-                  accountId,
-                  alias: bootstrapRegion,
-                  status: "active",
-                  bootstrappedAt: new Date().toISOString(),
-                  createdAt: new Date().toISOString(),
+              mismatches = await verifyDeployedBucketConfig(
+                bucket.s3BucketName,
+                bucket.config,
+                bucket.region,
+              );
+            } catch (e) {
+              mismatches = [
+                `Could not verify the deployed bucket: ${e instanceof Error ? e.message : "unknown error"}`,
+              ];
+            }
+
+            const outputUpdates: Partial<Bucket> = {
+              s3BucketArn: stackOutputs?.["BucketArn"] || bucket.s3BucketArn,
+              cloudFrontDomain,
+              cloudFrontDistributionId:
+                stackOutputs?.["DistributionId"] || bucket.cloudFrontDistributionId,
+              // Absent from the outputs once private delivery is turned off
+              signingKeyPairId: stackOutputs
+                ? stackOutputs["SigningKeyPairId"] || undefined
+                : bucket.signingKeyPairId,
+            };
+
+            if (mismatches.length > 0) {
+              for (const mismatch of mismatches) {
+                write({ type: "check", label: mismatch, level: "error" });
+              }
+              write({
+                type: "result",
+                status: "error",
+                message: "Deployed bucket does not match its saved config",
+                level: "error",
+              });
+              await recordDeployment(
+                bucket.id,
+                { ...outputUpdates, status: "failed" },
+                deployment(bucket, "failed", cloudFrontDomain, mismatches.join("; ")),
+              );
+            } else {
+              write({ type: "check", label: "Bucket config verified", level: "success" });
+              await recordDeployment(
+                bucket.id,
+                { ...outputUpdates, status: "active", deployedConfig: bucket.config },
+                deployment(bucket, "success", cloudFrontDomain),
+              );
+              // The distribution no longer references the web ACL
+              if (bucket.deployedConfig && usesWaf(bucket.deployedConfig) && !usesWaf(bucket.config)) {
+                await removeWafStack(bucket, write);
+              }
+              // A custom domain was added, changed or removed
+              const servedFrom = getCdnDomain(bucket);
+              const servedTo = getCdnDomain({ cloudFrontDomain, deployedConfig: bucket.config });
+              if (servedFrom && servedFrom !== servedTo) {
+                const moved = await moveFileUrls(bucket, servedFrom, servedTo);
+                write({
+                  type: "check",
+                  label: `Files are now served from ${servedTo} — updated ${moved} stored file URL(s)`,
+                  level: "info",
                 });
               }
-            } catch { /* best-effort */ }
-
-            return true;
-          }
+              write({
+                type: "result",
+                status: "success",
+                message: `${action} completed successfully`,
+                level: "success",
+              });
+            }
+          } else if (actuallySucceeded && action === "destroy" && bucket) {
+            // Resources with a RETAIN policy outlive the stack
+            if (bucket.config.encryption === "kms") {
+              write({
+                type: "check",
+                label: `KMS key alias/${bucket.s3BucketName} is retained — schedule its deletion in the KMS console if no longer needed`,
+                level: "warn",
+              });
+            }
+            if (bucket.config.backupEnabled) {
+              write({
+                type: "check",
+                label: `Backup vault ${bucket.s3BucketName}-vault and its recovery points are retained`,
+                level: "warn",
+              });
+            }
 
-          write({ type: "result", status: "error", message: "Auto-bootstrap failed — deploy aborted", level: "error" });
-          return false;
-        }
+            // cdk destroy --all only covers the WAF stack when the saved config still uses it
+            const liveConfig = bucket.deployedConfig ?? bucket.config;
+            if (usesWaf(liveConfig) && !usesWaf(bucket.config)) {
+              await removeWafStack(bucket, write);
+            }
 
-        // === Run the main CDK command ===
-        const { code: exitCode, stdout: stdoutBuffer, stderr: stderrBuffer } =
-          await runCdkProcess(command, args, env);
+            const releaseError = await releaseRetainedBucket(
+              bucket,
+              retainedBucket,
+              deployment(bucket, "success", ""),
+              write,
+            );
+            write({
+              type: "result",
+              status: releaseError ? "error" : "success",
+              message: releaseError
+                ? `Stack destroyed, but the bucket was detached: ${releaseError}`
+                : "destroy completed successfully",
+              level: releaseError ? "error" : "success",
+            });
+          } else if (actuallySucceeded) {
+            if (action === "diff") {
+              // Structured change list for the deploy preview
+              const changes = parseCdkDiff(stdoutBuffer + stderrBuffer);
+              for (const change of changes) {
+                write({
+                  type: "change",
+                  change,
+                  message: change.danger
+                    ? `${formatCdkChange(change)} — ${change.danger}`
+                    : formatCdkChange(change),
+                  level: change.danger ? "error" : change.kind === "added" ? "success" : "info",
+                });
+              }
+              const counts = countCdkChanges(changes);
+              const dangerous = changes.filter((c) => c.danger).length;
+              write({
+                type: "diff-summary",
+                counts,
+                dangerous,
+                message:
+                  changes.length === 0
+                    ? "No resource changes — the stack is up to date"
+                    : `${counts.added} added, ${counts.modified} modified, ${counts.replaced} replaced, ${counts.destroyed} destroyed` +
+                      (dangerous ? ` — ${dangerous} dangerous` : ""),
+                level: dangerous ? "warn" : "info",
+              });
+            }
+            write({
+              type: "result",
+              status: "success",
+              message: `${action} completed successfully`,
+              level: "success",
+            });
+          } else {
+            // The first failing resource explains the failure better than
+            // the generic patterns below
+            const rootCause = findRootCauseEvent(stackEvents);
+            if (rootCause) {
+              write({
+                type: "stack-failure",
+                event: rootCause,
+                message: `First failure: ${formatStackEvent(rootCause)}`,
+                level: "error",
+              });
+            }
+            const failure = rootCause
+              ? `${action} failed — ${rootCause.logicalId}: ${rootCause.statusReason ?? rootCause.status}`
+              : `${action} failed with exit code ${exitCode}`;
 
-        let actuallySucceeded = await checkDeploySuccess(exitCode, stdoutBuffer, stderrBuffer);
+            // Check error patterns for user-friendly messaging
+            const combined = stdoutBuffer + stderrBuffer;
+            const errorHint = matchErrorPatterns(combined);
 
-        // --- Auto-bootstrap & retry if needed ---
-        if (!actuallySucceeded && action === "deploy") {
-          const combined = stdoutBuffer + stderrBuffer;
-          if (needsBootstrap(combined)) {
             write({
-              type: "error-intelligence",
-              title: "CDK Bootstrap Required — auto-recovering",
-              suggestion: "Detected that this region is not bootstrapped. Running bootstrap automatically before retrying deploy.",
-              level: "warn",
+              type: "result",
+              status: "error",
+              message: failure,
+              level: "error",
             });
 
-            const bootstrapped = await autoBootstrap();
-            if (bootstrapped) {
-              // Retry the deploy
-              write({ type: "command", label: `Retrying: ${command} ${args.join(" ")}`, level: "command" });
-              const retry = await runCdkProcess(command, args, env);
-              actuallySucceeded = await checkDeploySuccess(retry.code, retry.stdout, retry.stderr);
+            if (errorHint && !(rootCause && errorHint.title === "CloudFormation Stack Failure")) {
+              write({
+                type: "error-intelligence",
+                title: errorHint.title,
+                suggestion: errorHint.suggestion,
+                command: errorHint.command || null,
+                level: "warn",
+              });
             }
-          }
-        }
-
-        // === Handle final result ===
-        if (actuallySucceeded) {
-          write({
-            type: "result",
-            status: "success",
-            message: `${action} completed successfully`,
-            level: "success",
-          });
 
-          // Parse CDK outputs on successful deploy
-          if (action === "deploy" && bucketId) {
-            try {
-              const fs = await import("fs/promises");
-              const outputsPath = path.join(CDK_DIR, "cdk-outputs.json");
-              const outputsRaw = await fs.readFile(outputsPath, "utf-8");
-              const outputs = JSON.parse(outputsRaw);
-              const stackOutputs = Object.values(outputs)[0] as
-                | Record<string, string>
-                | undefined;
-              if (stackOutputs) {
-                await updateInJsonFile<Bucket>("buckets.json", bucketId, {
-                  status: "active",
-                  s3BucketArn: stackOutputs["BucketArn"] || "",
-                  cloudFrontDomain: stackOutputs["CloudFrontDomain"] || "",
-                  cloudFrontDistributionId:
-                    stackOutputs["DistributionId"] || "",
-                } as Partial<Bucket>);
+            // Update bucket status — a failed update is rolled back by
+            // CloudFormation, so the bucket keeps serving its deployed config
+            if (action === "deploy" && bucket) {
+              if (isUpdate) {
                 write({
-                  type: "outputs",
-                  data: stackOutputs,
-                  level: "success",
-                  message: "Stack outputs captured",
+                  type: "status",
+                  label: "Stack update rolled back — the bucket keeps its deployed config and the changes stay pending",
+                  level: "warn",
                 });
               }
-            } catch {
-              await updateInJsonFile<Bucket>("buckets.json", bucketId, {
-                status: "active",
-              } as Partial<Bucket>);
+              await recordDeployment(
+                bucket.id,
+                { status: isUpdate ? "active" : "failed" },
+                deployment(bucket, "failed", bucket.cloudFrontDomain, failure),
+              );
+            } else if (action === "destroy" && bucket) {
+              // The stack may be partly deleted — sync status shows what is left
+              await recordDeployment(
+                bucket.id,
+                { status: bucket.status },
+                deployment(bucket, "failed", bucket.cloudFrontDomain, failure),
+              );
             }
           }
-        } else {
-          // Check error patterns for user-friendly messaging
-          const combined = stdoutBuffer + stderrBuffer;
-          const errorHint = matchErrorPatterns(combined);
-
+        } catch (e) {
           write({
             type: "result",
             status: "error",
-            message: `${action} failed with exit code ${exitCode}`,
+            message: e instanceof Error ? e.message : `${action} failed`,
             level: "error",
           });
-
-          if (errorHint) {
-            write({
-              type: "error-intelligence",
-              title: errorHint.title,
-              suggestion: errorHint.suggestion,
-              command: errorHint.command || null,
-              level: "warn",
-            });
-          }
-
-          // Update bucket status
-          if (action === "deploy" && bucketId) {
-            await updateInJsonFile<Bucket>("buckets.json", bucketId, {
-              status: "failed",
-            } as Partial<Bucket>);
+        } finally {
+          await stackWatch?.stop();
+          const succeeded = lastResult?.status === "success";
+          const finishedAt = new Date();
+          const runStartedAt = job.startedAt ?? job.queuedAt;
+          try {
+            await saveDeployRun(
+              {
+                id: job.id,
+                action: job.action,
+                bucketId: job.bucketId,
+                bucketName: job.bucketName,
+                s3BucketName: job.s3BucketName,
+                region: job.region,
+                actor: deployActor(),
+                status: succeeded ? "success" : "failed",
+                exitCode: runExitCode,
+                startedAt: runStartedAt,
+                finishedAt: finishedAt.toISOString(),
+                durationMs: finishedAt.getTime() - new Date(runStartedAt).getTime(),
+                outputs: runOutputs,
+                lineCount: logLines.length,
+              },
+              logLines,
+            );
+          } catch (e) {
+            console.error("[deploy-runs] Failed to archive run", job.id, e);
           }
+          await finishDeployJob(
+            job.id,
+            succeeded ? "succeeded" : "failed",
+            succeeded ? undefined : lastResult?.message,
+          );
+          controller.close();
         }
-
-        controller.close();
+      },
+      cancel() {
+        // A client that leaves while queued gives up its place
+        if (jobId) cancelDeployJob(jobId);
       },
     });
 
@@ -549,6 +1101,14 @@ export async function GET(request: NextRequest) {
   const action = searchParams.get("action");
   const bucketId = searchParams.get("bucketId");
 
+  if (action === "jobs") {
+    // Deploy queue for the infrastructure page
+    return Response.json({
+      jobs: listDeployJobs(),
+      concurrency: deployConcurrency(),
+    });
+  }
+
   if (action === "check-status") {
     // Check a single bucket's AWS status
     if (!bucketId) {
@@ -610,6 +1170,7 @@ export async function GET(request: NextRequest) {
         cloudFrontDomain: stackStatus?.outputs["CloudFrontDomain"],
         cloudFrontDistributionId: stackStatus?.outputs["DistributionId"],
         resources: stackStatus?.resources ?? [],
+        ...originAccessStatus(bucket, stackStatus?.resources ?? []),
         needsSync,
         recommendedAction,
       };
@@ -697,6 +1258,7 @@ export async function GET(request: NextRequest) {
           cloudFrontDomain: stackStatus?.outputs["CloudFrontDomain"],
           cloudFrontDistributionId: stackStatus?.outputs["DistributionId"],
           resources: stackStatus?.resources ?? [],
+          ...originAccessStatus(bucket, stackStatus?.resources ?? []),
           needsSync,
           recommendedAction,
         });
@@ -717,6 +1279,39 @@ export async function GET(request: NextRequest) {
     return Response.json({ results });
   }
 
+  if (action === "detect-drift") {
+    // CloudFormation drift detection — takes from a few seconds to minutes
+    if (!bucketId) {
+      return Response.json({ error: "bucketId is required" }, { status: 400 });
+    }
+    const bucket = await findInJsonFile<Bucket>("buckets.json", bucketId);
+    if (!bucket) {
+      return Response.json({ error: "Bucket not found" }, { status: 404 });
+    }
+    if (!hasDeployedStack(bucket)) {
+      return Response.json(
+        { error: "Drift detection needs a deployed stack" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const drift = await detectStackDrift(bucket.s3BucketName, bucket.region);
+      if (!drift) {
+        return Response.json(
+          { error: `Stack SCR-${bucket.s3BucketName} not found` },
+          { status: 404 },
+        );
+      }
+      return Response.json(toStackDriftResult(bucket, drift));
+    } catch (e) {
+      return Response.json(
+        { error: e instanceof Error ? e.message : "Drift detection failed" },
+        { status: 500 },
+      );
+    }
+  }
+
   if (action === "apply-sync") {
     // Apply a recommended sync action
     if (!bucketId) {
@@ -758,6 +1353,61 @@ export async function GET(request: NextRequest) {
           cloudFrontDistributionId: "",
           updatedAt: new Date().toISOString(),
         } as Partial<Bucket>);
+      } else if (syncAction === "reapply-drift" || syncAction === "accept-drift") {
+        // Detect again so the action works on the stack as it is now
+        const drift = await detectStackDrift(bucket.s3BucketName, bucket.region);
+        if (!drift) {
+          return Response.json(
+            { error: `Stack SCR-${bucket.s3BucketName} not found` },
+            { status: 404 },
+          );
+        }
+
+        if (syncAction === "reapply-drift") {
+          const { restored, skipped } = await reapplyStackDrift(bucket, drift);
+          return Response.json({ success: true, restored, skipped });
+        }
+
+        const { acceptedConfig } = toStackDriftResult(bucket, drift);
+        if (Object.keys(acceptedConfig).length === 0) {
+          return Response.json(
+            { error: "No drifted stack setting maps onto the bucket config" },
+            { status: 400 },
+          );
+        }
+        const config = { ...bucket.config, ...acceptedConfig };
+        const invalid = validateBucketConfig(config);
+        if (invalid) {
+          return Response.json({ error: invalid }, { status: 400 });
+        }
+        // deployedConfig keeps the template's settings, so the bucket shows
+        // pending changes until a deploy writes the accepted ones into the stack
+        await updateInJsonFile<Bucket>("buckets.json", bucketId, {
+          config,
+          deployedConfig: bucket.deployedConfig ?? bucket.config,
+          updatedAt: new Date().toISOString(),
+        } as Partial<Bucket>);
+        return Response.json({ success: true, config });
+      } else if (syncAction === "migrate-oac") {
+        // Only stages the switch — the stack changes through the usual
+        // review-and-deploy flow, so the diff shows the OAI being replaced
+        if (!hasDeployedStack(bucket)) {
+          return Response.json(
+            { error: "Only deployed stacks need migrating — new stacks use OAC" },
+            { status: 400 },
+          );
+        }
+        const config = { ...bucket.config, originAccess: "oac" as const };
+        const invalid = validateBucketConfig(config);
+        if (invalid) {
+          return Response.json({ error: invalid }, { status: 400 });
+        }
+        await updateInJsonFile<Bucket>("buckets.json", bucketId, {
+          config,
+          deployedConfig: bucket.deployedConfig ?? bucket.config,
+          updatedAt: new Date().toISOString(),
+        } as Partial<Bucket>);
+        return Response.json({ success: true, config });
       } else if (syncAction === "rollback") {
         await deleteStack(bucket.s3BucketName, bucket.region);
         await updateInJsonFile<Bucket>("buckets.json", bucketId, {
@@ -779,7 +1429,7 @@ export async function GET(request: NextRequest) {
   }
 
   return Response.json(
-    { error: "Invalid action. Use check-status, sync-all, or apply-sync." },
+    { error: "Invalid action. Use check-status, sync-all, detect-drift, or apply-sync." },
     { status: 400 },
   );
 }
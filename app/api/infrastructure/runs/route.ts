@@ -0,0 +1,53 @@
+// Next.js API route for archived CDK runs — list a bucket's runs, fetch or download a run's log
+import { NextRequest, NextResponse } from "next/server";
+import { listDeployRuns, readDeployRunLog } from "@/lib/deploy-runs";
+
+/**
+ * GET ?bucketId=<id>            → the bucket's runs, newest first (all runs without bucketId)
+ * GET ?id=<runId>               → { run, lines } with the parsed log
+ * GET ?id=<runId>&download=true → the raw NDJSON log as an attachment
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  try {
+    if (!id) {
+      const runs = await listDeployRuns(searchParams.get("bucketId") ?? undefined);
+      return NextResponse.json(runs);
+    }
+
+    const archived = await readDeployRunLog(id);
+    if (!archived) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    if (searchParams.get("download") === "true") {
+      const { run, log } = archived;
+      const fileName = `${run.s3BucketName || "cdk"}-${run.action}-${run.startedAt.replace(/[:.]/g, "-")}.ndjson`;
+      return new Response(log, {
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const lines = archived.log
+      .split("\n")
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          return [];
+        }
+      });
+    return NextResponse.json({ run: archived.run, lines });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read deploy runs" },
+      { status: 500 },
+    );
+  }
+}
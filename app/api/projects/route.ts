@@ -6,13 +6,65 @@ import {
   appendToJsonFile,
   updateInJsonFile,
   deleteFromJsonFile,
+  findInJsonFile,
+  modifyJsonFile,
 } from "@/lib/filesystem";
 import { projectSchema } from "@/lib/validations";
-import type { Project } from "@/lib/types";
+import { DEFAULT_OBJECT_KEY_TEMPLATE } from "@/lib/object-keys";
+import { hasDeployedStack } from "@/lib/bucket-config";
+import type {
+  Bucket,
+  FileRecord,
+  Project,
+  ProjectDeletionImpact,
+} from "@/lib/types";
 
 const FILE = "projects.json";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (id && searchParams.get("impact") === "true") {
+    // What deleting this project affects
+    const project = await findInJsonFile<Project>(FILE, id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    const [buckets, files] = await Promise.all([
+      readJsonFile<Bucket>("buckets.json"),
+      readJsonFile<FileRecord>("files.json"),
+    ]);
+    const impact: ProjectDeletionImpact = {
+      projectId: project.id,
+      projectName: project.name,
+      buckets: buckets
+        .filter((b) => b.projectId === id)
+        .map((b) => {
+          const bucketFiles = files.filter((f) => f.bucketName === b.s3BucketName);
+          return {
+            id: b.id,
+            name: b.name,
+            s3BucketName: b.s3BucketName,
+            region: b.region,
+            status: b.status,
+            hasStack: hasDeployedStack(b),
+            fileCount: bucketFiles.length,
+            totalBytes: bucketFiles.reduce((sum, f) => sum + f.size, 0),
+          };
+        }),
+      stackCount: 0,
+      fileCount: 0,
+      totalBytes: 0,
+    };
+    for (const b of impact.buckets) {
+      if (b.hasStack) impact.stackCount++;
+      impact.fileCount += b.fileCount;
+      impact.totalBytes += b.totalBytes;
+    }
+    return NextResponse.json(impact);
+  }
+
   const projects = await readJsonFile<Project>(FILE);
   return NextResponse.json(projects);
 }
@@ -24,6 +76,7 @@ export async function POST(request: NextRequest) {
     const project: Project = {
       id: uuidv4(),
       ...parsed,
+      objectKeyTemplate: parsed.objectKeyTemplate || DEFAULT_OBJECT_KEY_TEMPLATE,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -44,6 +97,18 @@ export async function PUT(request: NextRequest) {
     if (!id) {
       return NextResponse.json({ error: "ID is required" }, { status: 400 });
     }
+    if ("objectKeyTemplate" in updates) {
+      const parsed = projectSchema
+        .pick({ objectKeyTemplate: true })
+        .required()
+        .safeParse(updates);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0]?.message ?? "Invalid object key template" },
+          { status: 400 }
+        );
+      }
+    }
     const updated = await updateInJsonFile<Project>(FILE, id, {
       ...updates,
       updatedAt: new Date().toISOString(),
@@ -66,6 +131,49 @@ export async function DELETE(request: NextRequest) {
   if (!id) {
     return NextResponse.json({ error: "ID is required" }, { status: 400 });
   }
+  const project = await findInJsonFile<Project>(FILE, id);
+  if (!project) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  // Buckets must not be left pointing at a deleted project. Torn-down buckets
+  // are deleted one by one through DELETE /api/buckets?full=true beforehand.
+  const disposition = searchParams.get("buckets");
+  const buckets = (await readJsonFile<Bucket>("buckets.json")).filter(
+    (b) => b.projectId === id
+  );
+  if (buckets.length > 0) {
+    let projectId = "";
+    if (disposition === "reassign") {
+      projectId = searchParams.get("targetProjectId") ?? "";
+      if (projectId === id || !(await findInJsonFile<Project>(FILE, projectId))) {
+        return NextResponse.json(
+          { error: "targetProjectId must be another existing project" },
+          { status: 400 }
+        );
+      }
+    } else if (disposition !== "detach") {
+      return NextResponse.json(
+        {
+          error: `Project has ${buckets.length} bucket(s) — reassign, detach or tear them down first`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Detached buckets have no project, like imported ones — their file
+    // records keep their objects but get an empty projectId too
+    const bucketIds = new Set(buckets.map((b) => b.id));
+    const bucketNames = new Set(buckets.map((b) => b.s3BucketName));
+    const now = new Date().toISOString();
+    await modifyJsonFile<Bucket>("buckets.json", (all) =>
+      all.map((b) => (bucketIds.has(b.id) ? { ...b, projectId, updatedAt: now } : b))
+    );
+    await modifyJsonFile<FileRecord>("files.json", (files) =>
+      files.map((f) => (bucketNames.has(f.bucketName) ? { ...f, projectId } : f))
+    );
+  }
+
   const deleted = await deleteFromJsonFile<Project>(FILE, id);
   if (!deleted) {
     return NextResponse.json({ error: "Project not found" }, { status: 404 });
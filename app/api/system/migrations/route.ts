@@ -0,0 +1,17 @@
+// API route reporting the data schema migration run (versions, upgrades, invalid records)
+import { NextResponse } from "next/server";
+import { getStorageDriver } from "@/lib/storage";
+import { getLastMigrationReport } from "@/lib/storage/migrations";
+
+// GET — report from the startup migration run
+export async function GET() {
+  try {
+    await getStorageDriver();
+    return NextResponse.json(getLastMigrationReport());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to open data store" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@
 import { NextResponse } from "next/server";
 import fs from "fs/promises";
 import path from "path";
+import { writeJsonFile } from "@/lib/filesystem";
+import { DEPLOY_LOG_DIR } from "@/lib/deploy-runs";
 
 const DATA_DIR = path.join(process.cwd(), "data");
 
@@ -16,12 +18,12 @@ const DEFAULT_SYSTEM = {
 
 export async function POST() {
   try {
-    // Reset all JSON data files to empty arrays
-    const jsonFiles = ["buckets.json", "files.json", "projects.json", "environments.json"];
+    // Reset all data collections to empty arrays (through the active storage driver)
+    const jsonFiles = ["buckets.json", "files.json", "projects.json", "environments.json", "upload-sessions.json", "deploy-runs.json"];
     for (const file of jsonFiles) {
-      const filePath = path.join(DATA_DIR, file);
-      await fs.writeFile(filePath, "[]", "utf-8");
+      await writeJsonFile(file, []);
     }
+    await fs.rm(DEPLOY_LOG_DIR, { recursive: true, force: true });
 
     // Reset system state to defaults
     const systemPath = path.join(DATA_DIR, "system.json");
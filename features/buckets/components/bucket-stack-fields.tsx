@@ -0,0 +1,263 @@
+// Versioning, encryption, backup and delivery controls shared by the create and edit bucket dialogs
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usesWaf } from "@/lib/bucket-config";
+import { bucketSchema } from "@/lib/validations";
+import type { BucketConfig } from "@/lib/types";
+
+type StackFields = Pick<
+  BucketConfig,
+  | "versioning"
+  | "encryption"
+  | "backupEnabled"
+  | "privateDelivery"
+  | "securityHeaders"
+  | "wafRateLimit"
+  | "wafBlockedCountries"
+  | "hotlinkDomains"
+>;
+
+/** Starting point when the WAF is switched on — about 7 requests a second */
+const DEFAULT_WAF_RATE_LIMIT = 2000;
+
+/** First validation message for one field, checked with the bucket form's schema */
+function fieldError<K extends keyof typeof bucketSchema.shape>(
+  key: K,
+  value: unknown,
+): string | undefined {
+  return bucketSchema.shape[key].safeParse(value).error?.issues[0]?.message;
+}
+
+interface ListInputProps {
+  id: string;
+  value: string[] | undefined;
+  placeholder: string;
+  normalize: (item: string) => string;
+  onChange: (list: string[] | undefined) => void;
+}
+
+/** Comma- or space-separated list, kept as typed until the list itself changes */
+function ListInput({ id, value = [], placeholder, normalize, onChange }: ListInputProps) {
+  const [draft, setDraft] = useState(value.join(", "));
+  const parse = (text: string) => text.split(/[\s,]+/).filter(Boolean).map(normalize);
+  // Show the saved list when it changed from outside, e.g. edits were discarded
+  const text = parse(draft).join(",") === value.join(",") ? draft : value.join(", ");
+  return (
+    <Input
+      id={id}
+      className="font-mono"
+      placeholder={placeholder}
+      value={text}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const list = parse(e.target.value);
+        onChange(list.length > 0 ? list : undefined);
+      }}
+    />
+  );
+}
+
+interface BucketStackFieldsProps {
+  value: StackFields;
+  onChange: (patch: Partial<StackFields>) => void;
+}
+
+export function BucketStackFields({ value, onChange }: BucketStackFieldsProps) {
+  // Switched on but not filled in yet — the config only records actual rules
+  const [wafOpen, setWafOpen] = useState(false);
+  const [hotlinkOpen, setHotlinkOpen] = useState(false);
+  const wafOn = wafOpen || usesWaf(value);
+  const hotlinkOn = hotlinkOpen || (value.hotlinkDomains?.length ?? 0) > 0;
+
+  const rateLimitError = fieldError("wafRateLimit", value.wafRateLimit);
+  const countriesError = fieldError("wafBlockedCountries", value.wafBlockedCountries);
+  const hotlinkError = fieldError("hotlinkDomains", value.hotlinkDomains);
+
+  return (
+    <>
+      {/* Versioning */}
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="versioning">Versioning</Label>
+          <p className="text-xs text-muted-foreground">
+            Keep multiple versions of objects
+          </p>
+        </div>
+        <Switch
+          id="versioning"
+          checked={value.versioning}
+          onCheckedChange={(v) =>
+            // AWS Backup of S3 requires versioning
+            onChange(v ? { versioning: true } : { versioning: false, backupEnabled: false })
+          }
+        />
+      </div>
+
+      {/* Encryption */}
+      <div className="space-y-2">
+        <Label>Encryption</Label>
+        <Select
+          value={value.encryption}
+          onValueChange={(v) => onChange({ encryption: v as BucketConfig["encryption"] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="s3">S3-Managed (SSE-S3)</SelectItem>
+            <SelectItem value="kms">Customer-Managed KMS Key (SSE-KMS)</SelectItem>
+            <SelectItem value="none">None</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Backup */}
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="backup">AWS Backup</Label>
+          <p className="text-xs text-muted-foreground">
+            Daily backups to an AWS Backup vault, kept 35 days (requires versioning)
+          </p>
+        </div>
+        <Switch
+          id="backup"
+          checked={value.backupEnabled}
+          onCheckedChange={(v) =>
+            onChange(v ? { backupEnabled: true, versioning: true } : { backupEnabled: false })
+          }
+        />
+      </div>
+
+      {/* Private delivery */}
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="privateDelivery">Private Delivery</Label>
+          <p className="text-xs text-muted-foreground">
+            CloudFront only serves files through signed URLs or cookies
+          </p>
+        </div>
+        <Switch
+          id="privateDelivery"
+          checked={value.privateDelivery}
+          onCheckedChange={(v) => onChange({ privateDelivery: v })}
+        />
+      </div>
+
+      {/* Delivery hardening */}
+      <p className="pt-2 text-sm font-medium text-muted-foreground">Delivery Hardening</p>
+
+      <div className="flex items-center justify-between rounded-lg border p-3">
+        <div className="space-y-0.5">
+          <Label htmlFor="securityHeaders">Security Headers</Label>
+          <p className="text-xs text-muted-foreground">
+            HSTS, a sandboxing Content-Security-Policy and nosniff on every file
+          </p>
+        </div>
+        <Switch
+          id="securityHeaders"
+          checked={value.securityHeaders}
+          onCheckedChange={(v) => onChange({ securityHeaders: v })}
+        />
+      </div>
+
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="waf">AWS WAF</Label>
+            <p className="text-xs text-muted-foreground">
+              Rate limiting and country blocking at the edge (web ACL in us-east-1)
+            </p>
+          </div>
+          <Switch
+            id="waf"
+            checked={wafOn}
+            onCheckedChange={(v) => {
+              setWafOpen(v);
+              onChange(
+                v
+                  ? { wafRateLimit: DEFAULT_WAF_RATE_LIMIT }
+                  : { wafRateLimit: undefined, wafBlockedCountries: undefined }
+              );
+            }}
+          />
+        </div>
+        {wafOn && (
+          <>
+            <div className="space-y-1.5">
+              <Label htmlFor="wafRateLimit">Requests per IP per 5 minutes</Label>
+              <Input
+                id="wafRateLimit"
+                type="number"
+                min={100}
+                placeholder="No rate limit"
+                value={value.wafRateLimit ?? ""}
+                onChange={(e) =>
+                  onChange({
+                    wafRateLimit: Number.isNaN(e.target.valueAsNumber)
+                      ? undefined
+                      : e.target.valueAsNumber,
+                  })
+                }
+              />
+              {rateLimitError && <p className="text-sm text-destructive">{rateLimitError}</p>}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="wafBlockedCountries">Blocked countries</Label>
+              <ListInput
+                id="wafBlockedCountries"
+                placeholder="CN, RU"
+                value={value.wafBlockedCountries}
+                normalize={(code) => code.toUpperCase()}
+                onChange={(wafBlockedCountries) => onChange({ wafBlockedCountries })}
+              />
+              {countriesError && <p className="text-sm text-destructive">{countriesError}</p>}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="hotlink">Hotlink Protection</Label>
+            <p className="text-xs text-muted-foreground">
+              Refuse requests referred by other sites — direct visits still work
+            </p>
+          </div>
+          <Switch
+            id="hotlink"
+            checked={hotlinkOn}
+            onCheckedChange={(v) => {
+              setHotlinkOpen(v);
+              if (!v) onChange({ hotlinkDomains: undefined });
+            }}
+          />
+        </div>
+        {hotlinkOn && (
+          <div className="space-y-1.5">
+            <Label htmlFor="hotlinkDomains">Allowed sites (subdomains included)</Label>
+            <ListInput
+              id="hotlinkDomains"
+              placeholder="example.com, partner.org"
+              value={value.hotlinkDomains}
+              normalize={(domain) => domain.toLowerCase()}
+              onChange={(hotlinkDomains) => onChange({ hotlinkDomains })}
+            />
+            {hotlinkError && <p className="text-sm text-destructive">{hotlinkError}</p>}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -31,7 +31,9 @@ import {
   Eye,
   Copy,
   Check,
+  Layers,
 } from "lucide-react";
+import { hasDeployedStack, hasPendingChanges } from "@/lib/bucket-config";
 import type { Bucket } from "@/lib/types";
 import { useState } from "react";
 import { toast } from "sonner";
@@ -41,6 +43,7 @@ interface BucketsTableProps {
   onDelete: (id: string) => void;
   onFullDelete?: (bucket: Bucket) => void;
   onDeploy: (bucket: Bucket) => void;
+  onDestroy?: (bucket: Bucket) => void;
 }
 
 const statusColors: Record<Bucket["status"], string> = {
@@ -55,7 +58,13 @@ const statusIcons: Partial<Record<Bucket["status"], React.ReactNode>> = {
   deleting: <Loader2 className="mr-1 size-3 animate-spin" />,
 };
 
-export function BucketsTable({ buckets, onDelete, onFullDelete, onDeploy }: BucketsTableProps) {
+export function BucketsTable({
+  buckets,
+  onDelete,
+  onFullDelete,
+  onDeploy,
+  onDestroy,
+}: BucketsTableProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
   const handleCopy = (text: string, id: string) => {
@@ -162,6 +171,11 @@ export function BucketsTable({ buckets, onDelete, onFullDelete, onDeploy }: Buck
                 {statusIcons[bucket.status]}
                 {bucket.status}
               </Badge>
+              {hasPendingChanges(bucket) && (
+                <Badge variant="outline" className="ml-1 text-xs text-amber-600 dark:text-amber-400">
+                  changes pending
+                </Badge>
+              )}
             </TableCell>
             <TableCell className="text-muted-foreground text-sm">
               {new Date(bucket.createdAt).toLocaleDateString()}
@@ -192,6 +206,12 @@ export function BucketsTable({ buckets, onDelete, onFullDelete, onDeploy }: Buck
                       Retry Deploy
                     </DropdownMenuItem>
                   )}
+                  {bucket.status === "active" && hasPendingChanges(bucket) && (
+                    <DropdownMenuItem onClick={() => onDeploy(bucket)}>
+                      <Rocket className="mr-2 size-4" />
+                      Apply Pending Changes
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     variant="destructive"
@@ -200,6 +220,17 @@ export function BucketsTable({ buckets, onDelete, onFullDelete, onDeploy }: Buck
                     <Trash2 className="mr-2 size-4" />
                     Remove Metadata
                   </DropdownMenuItem>
+                  {onDestroy &&
+                    (hasDeployedStack(bucket) || bucket.status === "failed") &&
+                    bucket.status !== "deploying" && (
+                      <DropdownMenuItem
+                        variant="destructive"
+                        onClick={() => onDestroy(bucket)}
+                      >
+                        <Layers className="mr-2 size-4" />
+                        Destroy Stack
+                      </DropdownMenuItem>
+                    )}
                   {onFullDelete && bucket.status === "active" && (
                     <DropdownMenuItem
                       variant="destructive"
@@ -14,7 +14,6 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -30,6 +29,7 @@ import {
 } from "@/lib/validations";
 import type { Project, BootstrappedEnvironment } from "@/lib/types";
 import { AnimatedDialog } from "@/components/animated-dialog";
+import { BucketStackFields } from "./bucket-stack-fields";
 
 interface CreateBucketDialogProps {
   open: boolean;
@@ -64,12 +64,20 @@ export function CreateBucketDialog({
       versioning: false,
       encryption: "s3",
       backupEnabled: false,
+      privateDelivery: false,
+      securityHeaders: false,
       maxFileSizeMB: 100,
     },
   });
 
   const versioning = watch("versioning");
+  const encryption = watch("encryption");
   const backupEnabled = watch("backupEnabled");
+  const privateDelivery = watch("privateDelivery");
+  const securityHeaders = watch("securityHeaders");
+  const wafRateLimit = watch("wafRateLimit");
+  const wafBlockedCountries = watch("wafBlockedCountries");
+  const hotlinkDomains = watch("hotlinkDomains");
 
   const handleFormSubmit = async (data: BucketFormValues) => {
     await onSubmit(data);
@@ -186,57 +194,29 @@ export function CreateBucketDialog({
                 Bucket Configuration
               </p>
 
-              {/* Versioning */}
-              <div className="flex items-center justify-between rounded-lg border p-3">
-                <div className="space-y-0.5">
-                  <Label htmlFor="versioning">Versioning</Label>
-                  <p className="text-xs text-muted-foreground">
-                    Keep multiple versions of objects
-                  </p>
-                </div>
-                <Switch
-                  id="versioning"
-                  checked={versioning}
-                  onCheckedChange={(v) => setValue("versioning", v)}
-                />
-              </div>
-
-              {/* Encryption */}
-              <div className="space-y-2">
-                <Label>Encryption</Label>
-                <Select
-                  defaultValue="s3"
-                  onValueChange={(v) =>
-                    setValue("encryption", v as "s3" | "kms" | "none", {
-                      shouldValidate: true,
-                    })
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="s3">S3-Managed (SSE-S3)</SelectItem>
-                    <SelectItem value="kms">KMS-Managed (SSE-KMS)</SelectItem>
-                    <SelectItem value="none">None</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Backup */}
-              <div className="flex items-center justify-between rounded-lg border p-3">
-                <div className="space-y-0.5">
-                  <Label htmlFor="backup">Backup Replication</Label>
-                  <p className="text-xs text-muted-foreground">
-                    Cross-region replication for disaster recovery
-                  </p>
-                </div>
-                <Switch
-                  id="backup"
-                  checked={backupEnabled}
-                  onCheckedChange={(v) => setValue("backupEnabled", v)}
-                />
-              </div>
+              <BucketStackFields
+                value={{
+                  versioning,
+                  encryption,
+                  backupEnabled,
+                  privateDelivery,
+                  securityHeaders,
+                  wafRateLimit,
+                  wafBlockedCountries,
+                  hotlinkDomains,
+                }}
+                onChange={(patch) => {
+                  if (patch.versioning !== undefined) setValue("versioning", patch.versioning);
+                  if (patch.encryption !== undefined) setValue("encryption", patch.encryption);
+                  if (patch.backupEnabled !== undefined) setValue("backupEnabled", patch.backupEnabled);
+                  if (patch.privateDelivery !== undefined) setValue("privateDelivery", patch.privateDelivery);
+                  if (patch.securityHeaders !== undefined) setValue("securityHeaders", patch.securityHeaders);
+                  // The WAF and hotlink settings are cleared with undefined
+                  if ("wafRateLimit" in patch) setValue("wafRateLimit", patch.wafRateLimit);
+                  if ("wafBlockedCountries" in patch) setValue("wafBlockedCountries", patch.wafBlockedCountries);
+                  if ("hotlinkDomains" in patch) setValue("hotlinkDomains", patch.hotlinkDomains);
+                }}
+              />
 
               {/* Max File Size */}
               <div className="space-y-2">
@@ -25,6 +25,7 @@ import {
   FileX,
   HardDrive,
 } from "lucide-react";
+import { streamFullBucketDelete } from "@/features/buckets/hooks/use-buckets";
 import type { Bucket, DeletionStep } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
@@ -76,49 +77,20 @@ export function DeleteBucketDialog({
     setSteps(initial);
 
     try {
-      const res = await fetch(`/api/buckets?id=${bucket.id}&full=true`, {
-        method: "DELETE",
+      const result = await streamFullBucketDelete(bucket.id, (msg) => {
+        if (msg.step === "complete") return;
+        setSteps((prev) => ({
+          ...prev,
+          [msg.step]: {
+            id: msg.step,
+            label: prev[msg.step]?.label || msg.step,
+            status: msg.status,
+            error: msg.error,
+          },
+        }));
       });
-
-      if (!res.body) {
-        throw new Error("No response stream");
-      }
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const msg = JSON.parse(line);
-            if (msg.step === "complete") {
-              if (msg.status === "done") setComplete(true);
-              else setError(msg.error || "Deletion failed");
-            } else {
-              setSteps((prev) => ({
-                ...prev,
-                [msg.step]: {
-                  id: msg.step,
-                  label: prev[msg.step]?.label || msg.step,
-                  status: msg.status,
-                  error: msg.error,
-                },
-              }));
-            }
-          } catch {
-            // skip malformed lines
-          }
-        }
-      }
+      if (result.success) setComplete(true);
+      else setError(result.error || "Deletion failed");
     } catch (e) {
       setError(e instanceof Error ? e.message : "Deletion failed");
     } finally {
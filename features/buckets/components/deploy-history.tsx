@@ -0,0 +1,98 @@
+// Presentational list of a bucket's stack deploys, newest first, with the config changes each applied
+"use client";
+
+import { ArrowRight, CheckCircle2, FileText, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  STACK_CONFIG_LABELS,
+  formatConfigValue,
+  stackConfigChanges,
+} from "@/lib/bucket-config";
+import type { BucketDeployment } from "@/lib/types";
+
+const KIND_LABELS: Record<BucketDeployment["kind"], string> = {
+  create: "Initial deploy",
+  update: "Stack update",
+  destroy: "Stack destroyed",
+};
+
+function formatDuration(startedAt: string, finishedAt: string): string {
+  const seconds = Math.round(
+    (new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000
+  );
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+interface DeployHistoryProps {
+  deployments: BucketDeployment[];
+  /** Opens the archived log of a deploy that has one */
+  onViewLog?: (runId: string) => void;
+}
+
+export function DeployHistory({ deployments, onViewLog }: DeployHistoryProps) {
+  if (deployments.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No deploys recorded for this bucket yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...deployments].reverse().map((d) => {
+        const changes =
+          d.fromConfig && d.kind !== "destroy" ? stackConfigChanges(d.fromConfig, d.config) : [];
+        return (
+          <div key={d.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {d.status === "success" ? (
+                  <CheckCircle2 className="size-4 text-green-500" />
+                ) : (
+                  <XCircle className="size-4 text-destructive" />
+                )}
+                <span className="text-sm font-medium">
+                  {KIND_LABELS[d.kind]}
+                </span>
+                <Badge variant={d.status === "success" ? "outline" : "destructive"}>
+                  {d.status}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground">
+                  {new Date(d.startedAt).toLocaleString()} ·{" "}
+                  {formatDuration(d.startedAt, d.finishedAt)}
+                </span>
+                {d.runId && onViewLog && (
+                  <Button variant="ghost" size="icon-xs" title="View log" onClick={() => onViewLog(d.runId!)}>
+                    <FileText className="size-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {changes.length > 0 && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                {changes.map((c) => (
+                  <span key={c.key} className="flex items-center gap-1">
+                    <span className="text-muted-foreground">{STACK_CONFIG_LABELS[c.key]}:</span>
+                    <span className="font-mono">{formatConfigValue(c.key, c.from)}</span>
+                    <ArrowRight className="size-3 text-muted-foreground" />
+                    <span className="font-mono">{formatConfigValue(c.key, c.to)}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {d.cloudFrontDomain && (
+              <p className="font-mono text-xs text-muted-foreground">{d.cloudFrontDomain}</p>
+            )}
+            {d.error && <p className="text-xs text-destructive">{d.error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// Dialog for editing a bucket's config — deployed buckets get the edit as a pending change
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { useUpdateBucketConfig } from "@/features/buckets/hooks/use-buckets";
+import { hasDeployedStack, stackConfigChanges } from "@/lib/bucket-config";
+import { bucketConfigSchema } from "@/lib/validations";
+import type { Bucket, BucketConfig } from "@/lib/types";
+import { BucketStackFields } from "./bucket-stack-fields";
+
+interface EditBucketConfigDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bucket: Bucket;
+  onSaved: (bucket: Bucket) => void;
+}
+
+export function EditBucketConfigDialog({
+  open,
+  onOpenChange,
+  bucket,
+  onSaved,
+}: EditBucketConfigDialogProps) {
+  const [config, setConfig] = useState<BucketConfig>(bucket.config);
+  const { updateConfig, loading } = useUpdateBucketConfig();
+
+  const deployed = hasDeployedStack(bucket);
+  const liveConfig = bucket.deployedConfig ?? bucket.config;
+  const encryptionChanged = deployed && config.encryption !== liveConfig.encryption;
+  const maxSizeValid = config.maxFileSizeMB >= 1 && config.maxFileSizeMB <= 5000;
+  // The stack fields show the per-field messages
+  const configValid = bucketConfigSchema.safeParse(config).success;
+  const dirty =
+    stackConfigChanges(bucket.config, config).length > 0 ||
+    config.maxFileSizeMB !== bucket.config.maxFileSizeMB;
+
+  // Discard unsaved edits on close
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setConfig(bucket.config);
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    const updated = await updateConfig(bucket.id, config);
+    if (!updated) {
+      toast.error("Failed to save bucket config");
+      return;
+    }
+    toast.success(
+      deployed && stackConfigChanges(liveConfig, updated.config).length > 0
+        ? "Config saved — review and apply the pending changes to update the stack"
+        : "Config saved"
+    );
+    onSaved(updated);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[540px]">
+          <DialogHeader>
+            <DialogTitle>Edit Bucket Config</DialogTitle>
+            <DialogDescription>
+              {deployed
+                ? "Versioning, encryption, backup and delivery changes are applied by updating the stack in place. You can review a diff before applying."
+                : "The stack will be built with this config on its first deploy."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <BucketStackFields
+              value={config}
+              onChange={(patch) =>
+                // An OAI can't read SSE-KMS objects, so KMS moves the stack to OAC
+                setConfig((c) => ({
+                  ...c,
+                  ...patch,
+                  ...(patch.encryption === "kms" ? { originAccess: "oac" as const } : {}),
+                }))
+              }
+            />
+            {config.originAccess === "oai" && (
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-3">
+                <div className="space-y-0.5">
+                  <Label>Legacy Origin Access Identity</Label>
+                  <p className="text-xs text-muted-foreground">
+                    This stack predates Origin Access Control. Switching replaces the OAI with
+                    an OAC scoped to this distribution.
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="shrink-0"
+                  onClick={() => setConfig((c) => ({ ...c, originAccess: "oac" }))}
+                >
+                  Switch to OAC
+                </Button>
+              </div>
+            )}
+            {encryptionChanged && (
+              <p className="text-xs text-muted-foreground">
+                Existing objects keep their current encryption — only new uploads use the new setting.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="editMaxFileSizeMB">Max File Size (MB)</Label>
+              <Input
+                id="editMaxFileSizeMB"
+                type="number"
+                min={1}
+                max={5000}
+                value={Number.isNaN(config.maxFileSizeMB) ? "" : config.maxFileSizeMB}
+                onChange={(e) =>
+                  setConfig((c) => ({ ...c, maxFileSizeMB: e.target.valueAsNumber }))
+                }
+              />
+              {!maxSizeValid && (
+                <p className="text-sm text-destructive">Between 1 and 5000 MB</p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!dirty || !maxSizeValid || !configValid || loading} onClick={handleSave}>
+              {loading && <Loader2 className="mr-1.5 size-3.5 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
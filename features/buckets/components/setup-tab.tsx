@@ -1,6 +1,7 @@
 // Setup & Integration tab — syntax-highlighted framework-aware code snippets
 "use client";
 
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
@@ -12,7 +13,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import type { Bucket } from "@/lib/types";
+import type { Bucket, UploadMethod } from "@/lib/types";
 import {
   generateEnvSnippet,
   generateNextjsUploadApi,
@@ -20,15 +21,29 @@ import {
   generatePythonUploadApi,
   generateJavaUploadApi,
   generateFrontendUploadSnippet,
+  generateNextjsPostPolicyApi,
+  generateNodeExpressPostPolicyApi,
+  generatePythonPostPolicyApi,
+  generateFrontendPostUploadSnippet,
   generateDeleteSnippet,
+  generateNextjsSignedUrlApi,
+  generateNextjsSignedCookiesApi,
+  generateNodeExpressSignedUrlApi,
+  generatePythonSignedUrlApi,
 } from "@/features/infrastructure/utils/snippet-generator";
 
 interface SetupTabProps {
   bucket: Bucket;
+  /** Project object key template — snippets build keys the same way */
+  keyTemplate?: string;
+  /** Project's allowed MIME types — POST policy snippets check against them */
+  allowedMimeTypes?: string[];
 }
 
-export function SetupTab({ bucket }: SetupTabProps) {
+export function SetupTab({ bucket, keyTemplate, allowedMimeTypes }: SetupTabProps) {
   const maxMB = bucket.config?.maxFileSizeMB ?? 100;
+  const [uploadMethod, setUploadMethod] = useState<UploadMethod>("put");
+  const isPost = uploadMethod === "post";
 
   return (
     <div className="space-y-6">
@@ -92,10 +107,22 @@ export function SetupTab({ bucket }: SetupTabProps) {
       {/* Upload API — Framework Tabs */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-sm">Upload API Endpoint</CardTitle>
-          <CardDescription>
-            Server-side presigned URL generation — pick your framework
-          </CardDescription>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="text-sm">Upload API Endpoint</CardTitle>
+              <CardDescription>
+                {isPost
+                  ? "Presigned POST policy — S3 itself rejects files over the limit or of another type"
+                  : "Server-side presigned URL generation — pick your framework"}
+              </CardDescription>
+            </div>
+            <Tabs value={uploadMethod} onValueChange={(v) => setUploadMethod(v as UploadMethod)}>
+              <TabsList>
+                <TabsTrigger value="put" className="text-xs">Presigned PUT</TabsTrigger>
+                <TabsTrigger value="post" className="text-xs">POST policy</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="nextjs">
@@ -109,7 +136,7 @@ export function SetupTab({ bucket }: SetupTabProps) {
               <CodeBlock
                 title="app/api/upload/route.ts"
                 language="typescript"
-                code={generateNextjsUploadApi(bucket)}
+                code={isPost ? generateNextjsPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generateNextjsUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
@@ -117,7 +144,7 @@ export function SetupTab({ bucket }: SetupTabProps) {
               <CodeBlock
                 title="routes/upload.js"
                 language="javascript"
-                code={generateNodeExpressUploadApi(bucket)}
+                code={isPost ? generateNodeExpressPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generateNodeExpressUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
@@ -125,21 +152,80 @@ export function SetupTab({ bucket }: SetupTabProps) {
               <CodeBlock
                 title="upload.py"
                 language="python"
-                code={generatePythonUploadApi(bucket)}
+                code={isPost ? generatePythonPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generatePythonUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
             <TabsContent value="java">
+              {isPost && (
+                <p className="mb-2 text-xs text-muted-foreground">
+                  The AWS SDK for Java has no POST policy builder — this is the presigned PUT version.
+                </p>
+              )}
               <CodeBlock
                 title="UploadController.java"
                 language="java"
-                code={generateJavaUploadApi(bucket)}
+                code={generateJavaUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
+
+      {/* Signed URLs — private delivery */}
+      {bucket.config?.privateDelivery && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Signed URLs</CardTitle>
+            <CardDescription>
+              Private delivery is on — sign CDN URLs or cookies server-side with the bucket&apos;s key
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="nextjs">
+              <TabsList className="grid w-full max-w-md grid-cols-4">
+                <TabsTrigger value="nextjs">Next.js</TabsTrigger>
+                <TabsTrigger value="cookies">Cookies</TabsTrigger>
+                <TabsTrigger value="node">Node.js</TabsTrigger>
+                <TabsTrigger value="python">Python</TabsTrigger>
+              </TabsList>
+              <TabsContent value="nextjs">
+                <CodeBlock
+                  title="app/api/files/signed-url/route.ts"
+                  language="typescript"
+                  code={generateNextjsSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="cookies">
+                <CodeBlock
+                  title="app/api/files/signed-cookies/route.ts"
+                  language="typescript"
+                  code={generateNextjsSignedCookiesApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="node">
+                <CodeBlock
+                  title="routes/signed-url.js"
+                  language="javascript"
+                  code={generateNodeExpressSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="python">
+                <CodeBlock
+                  title="signed_url.py"
+                  language="python"
+                  code={generatePythonSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
 <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-sm">Delete API Route</CardTitle>
@@ -169,7 +255,7 @@ export function SetupTab({ bucket }: SetupTabProps) {
           <CodeBlock
             title="components/file-upload.tsx"
             language="typescript"
-            code={generateFrontendUploadSnippet(bucket)}
+            code={isPost ? generateFrontendPostUploadSnippet(bucket) : generateFrontendUploadSnippet(bucket)}
             collapsible
           />
         </CardContent>
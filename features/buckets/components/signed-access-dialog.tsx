@@ -0,0 +1,189 @@
+// Dialog for issuing CloudFront signed URLs and cookies for a private bucket
+"use client";
+
+import { useState } from "react";
+import { Check, Copy, KeyRound, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { useSignedAccess } from "@/features/buckets/hooks/use-signed-access";
+import type { Bucket, SignedCdnAccess } from "@/lib/types";
+
+const EXPIRY_OPTIONS = [
+  { label: "15 minutes", seconds: 15 * 60 },
+  { label: "1 hour", seconds: 3600 },
+  { label: "1 day", seconds: 24 * 3600 },
+  { label: "7 days", seconds: 7 * 24 * 3600 },
+];
+
+function CopyValue({ label, value }: { label: string; value: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <div className="flex items-start gap-2 rounded-md border bg-muted/40 px-3 py-2">
+        <span className="min-w-0 flex-1 break-all font-mono text-xs">{value}</span>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={() => {
+            navigator.clipboard.writeText(value);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+          }}
+        >
+          {copied ? <Check className="size-3 text-green-500" /> : <Copy className="size-3" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface SignedAccessDialogProps {
+  bucket: Bucket;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SignedAccessDialog({ bucket, open, onOpenChange }: SignedAccessDialogProps) {
+  const { signAccess, loading, error } = useSignedAccess();
+  const [type, setType] = useState<"url" | "cookies">("url");
+  const [target, setTarget] = useState("");
+  const [expiresInSeconds, setExpiresInSeconds] = useState(3600);
+  const [access, setAccess] = useState<SignedCdnAccess | null>(null);
+
+  const handleSign = async () => {
+    const signed = await signAccess(bucket.id, {
+      type,
+      expiresInSeconds,
+      ...(type === "url" ? { key: target.trim() } : { prefix: target.trim() }),
+    });
+    if (signed) setAccess(signed);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setAccess(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="size-4" /> Signed access
+            </DialogTitle>
+            <DialogDescription>
+              {bucket.name} only serves files to viewers with a CloudFront signature. Issue a
+              time-limited URL for one file, or cookies for everything under a prefix.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Grant</Label>
+                <Select
+                  value={type}
+                  onValueChange={(v: "url" | "cookies") => {
+                    setType(v);
+                    setAccess(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="url">Signed URL (one file)</SelectItem>
+                    <SelectItem value="cookies">Signed cookies (prefix)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Expires after</Label>
+                <Select
+                  value={String(expiresInSeconds)}
+                  onValueChange={(v) => setExpiresInSeconds(Number(v))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.seconds} value={String(option.seconds)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="signed-access-target">
+                {type === "url" ? "Object key" : "Prefix"}
+              </Label>
+              <Input
+                id="signed-access-target"
+                className="font-mono"
+                placeholder={type === "url" ? "uploads/report.pdf" : "uploads/user-42/"}
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+              {type === "cookies" && (
+                <p className="text-xs text-muted-foreground">
+                  Leave empty to cover the whole bucket.
+                </p>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {access && (
+              <div className="space-y-3 rounded-md border p-3">
+                {access.url && <CopyValue label="Signed URL" value={access.url} />}
+                {access.cookies &&
+                  Object.entries(access.cookies).map(([name, value]) => (
+                    <CopyValue key={name} label={name} value={value} />
+                  ))}
+                <p className="text-xs text-muted-foreground">
+                  Covers <span className="font-mono">{access.resource}</span> until{" "}
+                  {new Date(access.expiresAt).toLocaleString()}.
+                  {access.cookies &&
+                    " Set the cookies on a domain the CDN shares with your site — in practice a custom domain."}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+            <Button disabled={loading || (type === "url" && !target.trim())} onClick={handleSign}>
+              {loading && <Loader2 className="mr-1.5 size-3.5 animate-spin" />}
+              {type === "url" ? "Sign URL" : "Sign Cookies"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
@@ -1,8 +1,8 @@
-// Hook for fetching, creating, and deleting buckets
+// Hook for fetching, creating, updating, and deleting buckets
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { Bucket } from "@/lib/types";
+import type { Bucket, BucketConfig } from "@/lib/types";
 import type { BucketFormValues } from "@/lib/validations";
 
 export function useBuckets(projectId?: string) {
@@ -64,6 +64,40 @@ export function useCreateBucket() {
   return { createBucket, loading, error };
 }
 
+export function useUpdateBucketConfig() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Save a config edit — deployed buckets get it as a pending change. */
+  const updateConfig = async (
+    id: string,
+    config: Partial<BucketConfig>
+  ): Promise<Bucket | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch("/api/buckets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        // Settings cleared to undefined go out as null so the route unsets them
+        body: JSON.stringify({ id, config }, (_, value) => (value === undefined ? null : value)),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to update bucket");
+      }
+      return await res.json();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { updateConfig, loading, error };
+}
+
 export function useDeleteBucket() {
   const [loading, setLoading] = useState(false);
 
@@ -81,3 +115,63 @@ export function useDeleteBucket() {
 
   return { deleteBucket, loading };
 }
+
+/** One NDJSON line of DELETE /api/buckets?full=true — `step: "complete"` ends the run */
+export interface FullDeleteProgress {
+  step: string;
+  status: "running" | "done" | "error";
+  error?: string;
+}
+
+/**
+ * Fully delete a bucket — its objects, CloudFront distribution, S3 bucket and
+ * records — handing each streamed step to `onProgress`.
+ */
+export async function streamFullBucketDelete(
+  id: string,
+  onProgress: (progress: FullDeleteProgress) => void
+): Promise<{ success: boolean; error?: string }> {
+  const res = await fetch(`/api/buckets?id=${id}&full=true`, {
+    method: "DELETE",
+  });
+
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || "No response stream");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: { success: boolean; error?: string } = {
+    success: false,
+    error: "Deletion ended without a result",
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const msg: FullDeleteProgress = JSON.parse(line);
+        if (msg.step === "complete") {
+          result =
+            msg.status === "done"
+              ? { success: true }
+              : { success: false, error: msg.error || "Deletion failed" };
+        }
+        onProgress(msg);
+      } catch {
+        // skip malformed lines
+      }
+    }
+  }
+
+  return result;
+}
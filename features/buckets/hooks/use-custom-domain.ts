@@ -0,0 +1,66 @@
+// Hook for a bucket's custom domain — certificate setup, status refresh and removal
+"use client";
+
+import { useState } from "react";
+import type { Bucket } from "@/lib/types";
+
+export type CustomDomainRequest =
+  | { domainName: string; certificateSource: "requested" }
+  | {
+      domainName: string;
+      certificateSource: "imported";
+      certificate: string;
+      privateKey: string;
+      certificateChain?: string;
+    };
+
+export function useCustomDomain() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Each call resolves to the updated bucket, or null with `error` set. */
+  const send = async (
+    url: string,
+    init: RequestInit | undefined,
+    fallbackError: string
+  ): Promise<Bucket | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || fallbackError);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Request or import the certificate for a new domain. */
+  const setupDomain = (bucketId: string, request: CustomDomainRequest) =>
+    send(
+      "/api/buckets/domain",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bucketId, ...request }),
+      },
+      "Failed to set up the custom domain"
+    );
+
+  /** Re-check the certificate — once issued the domain is staged for deploy. */
+  const refreshDomain = (bucketId: string) =>
+    send(`/api/buckets/domain?bucketId=${bucketId}`, undefined, "Failed to check the certificate");
+
+  const removeDomain = (bucketId: string) =>
+    send(
+      `/api/buckets/domain?bucketId=${bucketId}`,
+      { method: "DELETE" },
+      "Failed to remove the custom domain"
+    );
+
+  return { setupDomain, refreshDomain, removeDomain, loading, error };
+}
@@ -0,0 +1,43 @@
+// Hook for issuing CloudFront signed URLs and cookies for a private bucket
+"use client";
+
+import { useState } from "react";
+import type { SignedCdnAccess } from "@/lib/types";
+
+export interface SignedAccessRequest {
+  type: "url" | "cookies";
+  key?: string;
+  prefix?: string;
+  expiresInSeconds: number;
+}
+
+export function useSignedAccess() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Resolves to the signed grant, or null with `error` set. */
+  const signAccess = async (
+    bucketId: string,
+    request: SignedAccessRequest
+  ): Promise<SignedCdnAccess | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch("/api/buckets/signed-access", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bucketId, ...request }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to sign access");
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { signAccess, loading, error };
+}
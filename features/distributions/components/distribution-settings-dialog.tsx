@@ -0,0 +1,464 @@
+// Dialog for editing common settings of a CloudFront distribution — reviews the
+// change as a before/after diff and follows the update until it is deployed
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  ArrowRight,
+  CheckCircle2,
+  Loader2,
+  Plus,
+  Settings2,
+  Trash2,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { useDistributionSettings } from "@/features/distributions/hooks/use-distribution-settings";
+import {
+  CUSTOM_ERROR_CODES,
+  HTTP_VERSION_LABELS,
+  PRICE_CLASS_LABELS,
+  diffDistributionSettings,
+} from "@/lib/distribution-settings";
+import { distributionSettingsSchema } from "@/lib/validations";
+import type { DistributionErrorResponse, DistributionSettings } from "@/lib/types";
+
+function DeploymentStatus({ status }: { status: string }) {
+  if (status === "Deployed") {
+    return (
+      <Badge className="gap-1 border-green-500/20 bg-green-500/10 text-green-600">
+        <CheckCircle2 className="size-3" /> Deployed
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="gap-1">
+      <Loader2 className="size-3 animate-spin" /> {status === "InProgress" ? "Deploying" : status}
+    </Badge>
+  );
+}
+
+interface DistributionSettingsDialogProps {
+  /** Distribution to edit — the dialog is open while set */
+  distributionId: string | null;
+  domainName?: string;
+  /** Set when a bucket's CDK stack manages the distribution */
+  linkedBucketName?: string;
+  onOpenChange: (open: boolean) => void;
+  /** Called once an update is accepted, e.g. to refresh the distribution list */
+  onUpdated?: () => void;
+}
+
+export function DistributionSettingsDialog({
+  distributionId,
+  domainName,
+  linkedBucketName,
+  onOpenChange,
+  onUpdated,
+}: DistributionSettingsDialogProps) {
+  const { snapshot, loading, error, saving, updateSettings } =
+    useDistributionSettings(distributionId);
+  // Edits on top of the loaded settings — null follows the distribution as it is
+  const [draft, setDraft] = useState<DistributionSettings | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const awaitingDeploy = useRef(false);
+
+  const open = !!distributionId;
+  const form = draft ?? snapshot?.settings ?? null;
+  const changes = snapshot && form ? diffDistributionSettings(snapshot.settings, form) : [];
+  const deploying = snapshot?.status === "InProgress";
+  const ttlsLocked = !!snapshot?.cachePolicyName;
+
+  useEffect(() => {
+    if (awaitingDeploy.current && snapshot?.status === "Deployed") {
+      awaitingDeploy.current = false;
+      toast.success(`${domainName || distributionId} is deployed with the new settings`);
+    }
+  }, [snapshot?.status, domainName, distributionId]);
+
+  const update = (patch: Partial<DistributionSettings>) => {
+    if (!form) return;
+    setDraft({ ...form, ...patch });
+    setValidationError(null);
+  };
+
+  const updateErrorResponse = (index: number, patch: Partial<DistributionErrorResponse>) => {
+    if (!form) return;
+    update({
+      customErrorResponses: form.customErrorResponses.map((r, i) =>
+        i === index ? { ...r, ...patch } : r
+      ),
+    });
+  };
+
+  const addErrorResponse = () => {
+    if (!form) return;
+    const used = new Set(form.customErrorResponses.map((r) => r.errorCode));
+    const errorCode = CUSTOM_ERROR_CODES.find((code) => !used.has(code));
+    if (!errorCode) return;
+    update({
+      customErrorResponses: [
+        ...form.customErrorResponses,
+        { errorCode, responsePagePath: "", responseCode: "", errorCachingMinTtl: 10 },
+      ],
+    });
+  };
+
+  const handleReview = () => {
+    const result = distributionSettingsSchema.safeParse(form);
+    if (!result.success) {
+      setValidationError(result.error.issues[0]?.message ?? "Invalid settings");
+      return;
+    }
+    setReviewing(true);
+  };
+
+  const handleApply = async () => {
+    if (!form) return;
+    const ok = await updateSettings(form);
+    if (ok) {
+      awaitingDeploy.current = true;
+      setDraft(null);
+      setReviewing(false);
+      toast.success("Distribution update started — CloudFront is deploying it to edge locations");
+      onUpdated?.();
+    }
+  };
+
+  const ttlField = (key: "minTtl" | "defaultTtl" | "maxTtl", label: string) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`dist-${key}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`dist-${key}`}
+        type="number"
+        min={0}
+        className="h-8 text-xs"
+        value={form?.[key] ?? 0}
+        disabled={ttlsLocked || saving}
+        onChange={(e) => update({ [key]: Number(e.target.value) || 0 })}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[680px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Settings2 className="size-4" /> Distribution settings
+              {snapshot && <DeploymentStatus status={snapshot.status} />}
+            </DialogTitle>
+            <DialogDescription>
+              {domainName || distributionId}
+              {distributionId && domainName && (
+                <span className="ml-1.5 font-mono text-xs">({distributionId})</span>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !form || !snapshot ? (
+            error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : (
+              <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground">
+                <Loader2 className="size-4 animate-spin" /> Loading settings…
+              </div>
+            )
+          ) : reviewing ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {changes.length === 0
+                  ? "Nothing changed."
+                  : `${changes.length} setting${changes.length === 1 ? "" : "s"} will change:`}
+              </p>
+              <div className="max-h-72 divide-y overflow-auto rounded-md border">
+                {changes.map((change) => (
+                  <div key={change.label} className="grid grid-cols-[9rem_1fr] gap-2 px-3 py-2 text-sm">
+                    <span className="font-medium">{change.label}</span>
+                    <span className="flex flex-wrap items-center gap-1.5 text-xs">
+                      <span className="text-muted-foreground line-through">{change.from}</span>
+                      <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+                      <span>{change.to}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                CloudFront rolls the change out to every edge location, which usually
+                takes a few minutes.
+              </p>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          ) : (
+            <div className="max-h-[60vh] space-y-4 overflow-auto pr-1">
+              {linkedBucketName && (
+                <div className="flex gap-2 rounded-md border border-amber-500/30 bg-amber-500/5 p-2.5 text-xs text-amber-700 dark:text-amber-400">
+                  <AlertTriangle className="size-3.5 shrink-0" />
+                  <span>
+                    This distribution belongs to the CDK stack of {linkedBucketName}. Changes
+                    made here show up as stack drift and are reverted by the next deploy.
+                  </span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="dist-enabled">Enabled</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Disabled distributions stop serving requests.
+                  </p>
+                </div>
+                <Switch
+                  id="dist-enabled"
+                  checked={form.enabled}
+                  disabled={saving}
+                  onCheckedChange={(enabled) => update({ enabled })}
+                />
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Price class</Label>
+                  <Select
+                    value={form.priceClass}
+                    onValueChange={(v: DistributionSettings["priceClass"]) =>
+                      update({ priceClass: v })
+                    }
+                    disabled={saving}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRICE_CLASS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">HTTP versions</Label>
+                  <Select
+                    value={form.httpVersion}
+                    onValueChange={(v: DistributionSettings["httpVersion"]) =>
+                      update({ httpVersion: v })
+                    }
+                    disabled={saving}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(HTTP_VERSION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="dist-root-object" className="text-xs">
+                    Default root object
+                  </Label>
+                  <Input
+                    id="dist-root-object"
+                    className="h-8 text-xs"
+                    placeholder="index.html"
+                    value={form.defaultRootObject}
+                    disabled={saving}
+                    onChange={(e) => update({ defaultRootObject: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2 pt-5">
+                  <Label htmlFor="dist-compress" className="text-xs">
+                    Compress objects automatically
+                  </Label>
+                  <Switch
+                    id="dist-compress"
+                    checked={form.compress}
+                    disabled={saving}
+                    onCheckedChange={(compress) => update({ compress })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <p className="text-sm font-medium">Cache TTLs (seconds)</p>
+                <div className="grid grid-cols-3 gap-3">
+                  {ttlField("minTtl", "Minimum")}
+                  {ttlField("defaultTtl", "Default")}
+                  {ttlField("maxTtl", "Maximum")}
+                </div>
+                {ttlsLocked && (
+                  <p className="text-xs text-muted-foreground">
+                    Set by the cache policy{" "}
+                    <span className="font-mono">{snapshot.cachePolicyName}</span> — edit the
+                    policy to change them.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Custom error responses</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1"
+                    disabled={
+                      saving || form.customErrorResponses.length >= CUSTOM_ERROR_CODES.length
+                    }
+                    onClick={addErrorResponse}
+                  >
+                    <Plus className="size-3" /> Add
+                  </Button>
+                </div>
+                {form.customErrorResponses.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Errors from S3 are passed through as they are.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[5.5rem_1fr_5rem_5rem_1.75rem] gap-2 text-[10px] uppercase text-muted-foreground">
+                      <span>Error</span>
+                      <span>Response page</span>
+                      <span>Status</span>
+                      <span>Cache (s)</span>
+                      <span />
+                    </div>
+                    {form.customErrorResponses.map((response, index) => (
+                      <div
+                        key={index}
+                        className="grid grid-cols-[5.5rem_1fr_5rem_5rem_1.75rem] items-center gap-2"
+                      >
+                        <Select
+                          value={String(response.errorCode)}
+                          onValueChange={(v) => updateErrorResponse(index, { errorCode: Number(v) })}
+                          disabled={saving}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CUSTOM_ERROR_CODES.map((code) => (
+                              <SelectItem key={code} value={String(code)}>
+                                {code}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          className="h-8 font-mono text-xs"
+                          placeholder="/index.html"
+                          value={response.responsePagePath}
+                          disabled={saving}
+                          onChange={(e) =>
+                            updateErrorResponse(index, { responsePagePath: e.target.value })
+                          }
+                        />
+                        <Input
+                          className="h-8 text-xs"
+                          placeholder={String(response.errorCode)}
+                          value={response.responseCode}
+                          disabled={saving}
+                          onChange={(e) =>
+                            updateErrorResponse(index, { responseCode: e.target.value.trim() })
+                          }
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          className="h-8 text-xs"
+                          value={response.errorCachingMinTtl}
+                          disabled={saving}
+                          onChange={(e) =>
+                            updateErrorResponse(index, {
+                              errorCachingMinTtl: Number(e.target.value) || 0,
+                            })
+                          }
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon-xs"
+                          disabled={saving}
+                          onClick={() =>
+                            update({
+                              customErrorResponses: form.customErrorResponses.filter(
+                                (_, i) => i !== index
+                              ),
+                            })
+                          }
+                        >
+                          <Trash2 className="size-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {(validationError || error) && (
+                <p className="text-sm text-destructive">{validationError || error}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {reviewing ? (
+              <>
+                <Button variant="outline" disabled={saving} onClick={() => setReviewing(false)}>
+                  Back
+                </Button>
+                <Button disabled={saving || changes.length === 0} onClick={handleApply}>
+                  {saving && <Loader2 className="mr-1.5 size-3.5 animate-spin" />}
+                  Apply Changes
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Close
+                </Button>
+                <Button
+                  disabled={!snapshot || changes.length === 0 || deploying}
+                  title={deploying ? "Wait for the previous update to finish deploying" : undefined}
+                  onClick={handleReview}
+                >
+                  Review Changes
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+// Dialog for invalidating cached paths of a CloudFront distribution and
+// following its recent invalidations until they complete
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle2, ChevronRight, Eraser, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import {
+  fetchInvalidation,
+  useInvalidations,
+} from "@/features/distributions/hooks/use-invalidations";
+import type { CloudFrontInvalidation } from "@/lib/types";
+
+function InvalidationStatus({ status }: { status: string }) {
+  if (status === "Completed") {
+    return (
+      <Badge className="gap-1 border-green-500/20 bg-green-500/10 text-green-600">
+        <CheckCircle2 className="size-3" /> Completed
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="gap-1">
+      <Loader2 className="size-3 animate-spin" /> In progress
+    </Badge>
+  );
+}
+
+interface InvalidationsDialogProps {
+  /** Distribution to invalidate — the dialog is open while set */
+  distributionId: string | null;
+  domainName?: string;
+  /** Paths to prefill, e.g. a file or folder picked in the files table */
+  initialPaths?: string[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InvalidationsDialog({
+  distributionId,
+  domainName,
+  initialPaths = [],
+  onOpenChange,
+}: InvalidationsDialogProps) {
+  const { invalidations, loading, error, createInvalidation } =
+    useInvalidations(distributionId);
+  const [pathsText, setPathsText] = useState(initialPaths.join("\n"));
+  const [creating, setCreating] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, CloudFrontInvalidation>>({});
+
+  const open = !!distributionId;
+  const paths = pathsText
+    .split("\n")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const created = await createInvalidation(paths);
+    setCreating(false);
+    if (created) {
+      setDetails((prev) => ({ ...prev, [created.id]: created }));
+      setExpanded(created.id);
+      setPathsText("");
+      toast.success(`Invalidation ${created.id} started`);
+    }
+  };
+
+  const handleToggle = async (invalidation: CloudFrontInvalidation) => {
+    if (expanded === invalidation.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(invalidation.id);
+    if (!details[invalidation.id] && distributionId) {
+      const detail = await fetchInvalidation(distributionId, invalidation.id);
+      if (detail) setDetails((prev) => ({ ...prev, [detail.id]: detail }));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Invalidate cache</DialogTitle>
+            <DialogDescription>
+              Removes cached copies from {domainName || distributionId} so the next request
+              fetches the file from S3 again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="invalidation-paths">Paths (one per line)</Label>
+              <Textarea
+                id="invalidation-paths"
+                value={pathsText}
+                onChange={(e) => setPathsText(e.target.value)}
+                placeholder={"/images/logo.png\n/uploads/2024/*"}
+                className="min-h-24 font-mono text-xs"
+                disabled={creating}
+              />
+              <p className="text-xs text-muted-foreground">
+                End a path with <span className="font-mono">{"/*"}</span> to invalidate a whole
+                folder — a wildcard counts as one path. The first 1,000 paths each month are
+                free.
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="space-y-1.5">
+              <p className="text-sm font-medium">Recent invalidations</p>
+              <div className="max-h-60 space-y-1 overflow-auto">
+                {loading ? (
+                  <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+                    <Loader2 className="size-4 animate-spin" /> Loading invalidations…
+                  </div>
+                ) : invalidations.length === 0 ? (
+                  <p className="py-4 text-sm text-muted-foreground">
+                    No invalidations for this distribution yet.
+                  </p>
+                ) : (
+                  invalidations.map((invalidation) => {
+                    const detail = details[invalidation.id];
+                    return (
+                      <div key={invalidation.id} className="rounded-md border text-sm">
+                        <button
+                          type="button"
+                          onClick={() => handleToggle(invalidation)}
+                          className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-muted/50"
+                        >
+                          <ChevronRight
+                            className={`size-3.5 shrink-0 transition-transform ${
+                              expanded === invalidation.id ? "rotate-90" : ""
+                            }`}
+                          />
+                          <span className="font-mono text-xs">{invalidation.id}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {invalidation.createTime
+                              ? new Date(invalidation.createTime).toLocaleString()
+                              : "—"}
+                          </span>
+                          <span className="ml-auto">
+                            <InvalidationStatus status={invalidation.status} />
+                          </span>
+                        </button>
+                        {expanded === invalidation.id && (
+                          <div className="space-y-0.5 border-t px-3 py-2 font-mono text-xs text-muted-foreground">
+                            {detail?.paths ? (
+                              detail.paths.map((path) => <p key={path}>{path}</p>)
+                            ) : (
+                              <Loader2 className="size-3.5 animate-spin" />
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button disabled={paths.length === 0 || creating} onClick={handleCreate}>
+              {creating ? (
+                <Loader2 className="mr-1.5 size-3.5 animate-spin" />
+              ) : (
+                <Eraser className="mr-1.5 size-3.5" />
+              )}
+              Invalidate {paths.length > 1 ? `${paths.length} paths` : "path"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+// Hook for a distribution's editable settings — polls while a change is deploying
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { DistributionSettings, DistributionSettingsSnapshot } from "@/lib/types";
+
+const IN_PROGRESS_POLL_MS = 10000;
+
+export function useDistributionSettings(distributionId: string | null) {
+  const [snapshot, setSnapshot] = useState<DistributionSettingsSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    if (!distributionId) return;
+    try {
+      const res = await fetch(`/api/distributions/config?distributionId=${distributionId}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch distribution settings");
+      setSnapshot(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, [distributionId]);
+
+  const current = snapshot?.distributionId === distributionId ? snapshot : null;
+  const inProgress = current?.status === "InProgress";
+
+  useEffect(() => {
+    fetchSettings();
+    if (!inProgress) return;
+    const timer = setInterval(fetchSettings, IN_PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [fetchSettings, inProgress]);
+
+  /** Update with the ETag the settings were loaded at; false on failure or conflict. */
+  const updateSettings = useCallback(
+    async (settings: DistributionSettings): Promise<boolean> => {
+      if (!distributionId || !current) return false;
+      setSaving(true);
+      try {
+        setError(null);
+        const res = await fetch("/api/distributions/config", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ distributionId, etag: current.etag, settings }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to update distribution");
+        // InProgress until CloudFront has propagated the change — polling takes over
+        setSnapshot({ ...current, etag: data.etag, status: data.status, settings });
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [distributionId, current]
+  );
+
+  return {
+    snapshot: current,
+    loading: !!distributionId && !current && !error,
+    error,
+    saving,
+    refetch: fetchSettings,
+    updateSettings,
+  };
+}
@@ -0,0 +1,94 @@
+// Hook for a distribution's cache invalidations — polls while any is in progress
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { CloudFrontInvalidation } from "@/lib/types";
+
+const IN_PROGRESS_POLL_MS = 5000;
+
+export function useInvalidations(distributionId: string | null) {
+  const [loaded, setLoaded] = useState<{
+    distributionId: string;
+    invalidations: CloudFrontInvalidation[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvalidations = useCallback(async () => {
+    if (!distributionId) return;
+    try {
+      const res = await fetch(
+        `/api/distributions/invalidations?distributionId=${distributionId}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch invalidations");
+      setLoaded({ distributionId, invalidations: data });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, [distributionId]);
+
+  const current = loaded?.distributionId === distributionId ? loaded : null;
+  const invalidations = current?.invalidations ?? [];
+  const inProgress = invalidations.some((i) => i.status === "InProgress");
+
+  useEffect(() => {
+    fetchInvalidations();
+    if (!inProgress) return;
+    const timer = setInterval(fetchInvalidations, IN_PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [fetchInvalidations, inProgress]);
+
+  const createInvalidation = useCallback(
+    async (paths: string[]): Promise<CloudFrontInvalidation | null> => {
+      if (!distributionId) return null;
+      try {
+        setError(null);
+        const res = await fetch("/api/distributions/invalidations", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ distributionId, paths }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to create invalidation");
+        // Shown right away — the list catches up on the next poll
+        setLoaded((prev) => ({
+          distributionId,
+          invalidations: [
+            data,
+            ...(prev?.distributionId === distributionId ? prev.invalidations : []),
+          ],
+        }));
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        return null;
+      }
+    },
+    [distributionId]
+  );
+
+  return {
+    invalidations,
+    loading: !!distributionId && !current && !error,
+    error,
+    refetch: fetchInvalidations,
+    createInvalidation,
+  };
+}
+
+/** One invalidation with its paths. */
+export async function fetchInvalidation(
+  distributionId: string,
+  id: string
+): Promise<CloudFrontInvalidation | null> {
+  try {
+    const res = await fetch(
+      `/api/distributions/invalidations?distributionId=${distributionId}&id=${id}`
+    );
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
@@ -54,6 +54,9 @@ import {
   Search,
   CalendarIcon,
   X,
+  ShieldAlert,
+  Eraser,
+  FolderX,
 } from "lucide-react";
 import type { FileRecord } from "@/lib/types";
 import type { MergedS3File } from "@/features/files/hooks/use-files";
@@ -102,6 +105,19 @@ export function FilesTable({ files, onDelete }: FilesTableProps) {
           <TableRow key={file.id}>
             <TableCell className="max-w-62.5 truncate font-mono text-xs">
               {file.objectKey}
+              {file.status === "pending" && (
+                <Badge variant="secondary" className="ml-2">Pending</Badge>
+              )}
+              {file.status === "quarantined" && (
+                <Badge variant="destructive" className="ml-2 gap-1" title={file.quarantine?.reason}>
+                  <ShieldAlert className="size-3" /> Quarantined
+                </Badge>
+              )}
+              {file.dedupOf && (
+                <Badge variant="outline" className="ml-2" title="Shares the object of an identical upload">
+                  Linked
+                </Badge>
+              )}
             </TableCell>
             <TableCell>
               <Badge variant="outline">{file.mimeType}</Badge>
@@ -165,6 +181,8 @@ interface S3FilesTableProps {
   /** Hard-delete: permanently removes the file from S3 and clears any tracking record. */
   onDeleteS3?: (key: string) => void;
   onMove?: (key: string) => void;
+  /** Invalidate a CloudFront path — "/key" for the file, "/folder/*" for its folder */
+  onInvalidate?: (path: string) => void;
 }
 
 function getMimeFromKey(key: string): string {
@@ -213,6 +231,7 @@ export function S3FilesTable({
   onDeleteMetadata,
   onDeleteS3,
   onMove,
+  onInvalidate,
 }: S3FilesTableProps) {
   const [search, setSearch] = useState("");
   const [dateFrom, setDateFrom] = useState<Date | undefined>();
@@ -485,6 +504,16 @@ export function S3FilesTable({
                     </HoverCard>
                   </TableCell>
                   <TableCell className="max-w-55 truncate font-mono text-xs text-muted-foreground">
+                    {(file.metadata?.status === "quarantined" ||
+                      file.key.startsWith("quarantine/")) && (
+                      <Badge
+                        variant="destructive"
+                        className="mr-1.5 gap-1 text-[10px]"
+                        title={file.metadata?.quarantine?.reason ?? "Failed content inspection"}
+                      >
+                        <ShieldAlert className="size-2.5" /> Quarantined
+                      </Badge>
+                    )}
                     {file.key}
                   </TableCell>
                   <TableCell>
@@ -537,6 +566,22 @@ export function S3FilesTable({
                             Move File
                           </DropdownMenuItem>
                         )}
+                        {onInvalidate && (
+                          <DropdownMenuItem onClick={() => onInvalidate(`/${file.key}`)}>
+                            <Eraser className="mr-2 size-4" />
+                            Invalidate CDN Cache
+                          </DropdownMenuItem>
+                        )}
+                        {onInvalidate && file.key.includes("/") && (
+                          <DropdownMenuItem
+                            onClick={() =>
+                              onInvalidate(`/${file.key.slice(0, file.key.lastIndexOf("/"))}/*`)
+                            }
+                          >
+                            <FolderX className="mr-2 size-4" />
+                            Invalidate Folder
+                          </DropdownMenuItem>
+                        )}
 
                         {(onDeleteS3 ||
                           (file.uploadedFromSystem &&
@@ -3,6 +3,7 @@
 
 import { useState, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
 import {
   Dialog,
   DialogContent,
@@ -15,6 +16,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Upload,
   FileUp,
@@ -22,6 +24,9 @@ import {
   XCircle,
   Loader2,
   X,
+  RotateCcw,
+  History,
+  Trash2,
   File as FileIcon,
 } from "lucide-react";
 import {
@@ -31,7 +36,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { Bucket } from "@/lib/types";
+import type { Bucket, FileRecord, UploadSession } from "@/lib/types";
+import {
+  MULTIPART_THRESHOLD,
+  initiateMultipartUpload,
+  uploadMultipartParts,
+  abortMultipartSession,
+  multipartSessionFrom,
+  type MultipartSession,
+} from "@/features/files/utils/multipart-upload";
+import { useUploadSessions } from "@/features/files/hooks/use-upload-sessions";
+import { sha256Hex } from "@/features/files/utils/content-hash";
+import { templateTokens } from "@/lib/object-keys";
+import { getCdnDomain } from "@/lib/bucket-config";
 
 interface UploadDialogProps {
   open: boolean;
@@ -40,6 +57,8 @@ interface UploadDialogProps {
   projectId: string;
   onUploadComplete?: () => void;
   existingFolders?: string[];
+  /** Project object key template — {hash} templates need the file hashed first */
+  objectKeyTemplate?: string;
 }
 
 interface UploadFile {
@@ -48,6 +67,15 @@ interface UploadFile {
   progress: number;
   error?: string;
   cdnUrl?: string;
+  /** Set for large files uploaded in parts — kept after a failure so the upload can resume */
+  multipart?: MultipartSession;
+  completedParts?: number;
+  /** Linked to an identical object already in the bucket — nothing was uploaded */
+  deduplicated?: boolean;
+}
+
+function quarantineMessage(file: FileRecord): string {
+  return `Quarantined: ${file.quarantine?.reason ?? "content failed inspection"}`;
 }
 
 function formatBytes(bytes: number): string {
@@ -65,6 +93,7 @@ export function UploadDialog({
   projectId,
   onUploadComplete,
   existingFolders = [],
+  objectKeyTemplate,
 }: UploadDialogProps) {
   const ROOT_SENTINEL = "__root__";
   const [files, setFiles] = useState<UploadFile[]>([]);
@@ -73,9 +102,20 @@ export function UploadDialog({
   const [targetFolder, setTargetFolder] = useState<string>(ROOT_SENTINEL);
   const [newFolderName, setNewFolderName] = useState<string>("");
   const [folderMode, setFolderMode] = useState<"existing" | "new">("existing");
+  const [enforceInS3, setEnforceInS3] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+  const [resumeTarget, setResumeTarget] = useState<UploadSession | null>(null);
+  const {
+    sessions: interrupted,
+    discardSession,
+    claimSession,
+  } = useUploadSessions(bucket.s3BucketName, open);
 
   const maxMB = bucket.config?.maxFileSizeMB ?? 100;
+  const needsContentHash =
+    !!objectKeyTemplate && templateTokens(objectKeyTemplate).includes("hash");
 
   const addFiles = useCallback(
     (fileList: FileList) => {
@@ -103,10 +143,149 @@ export function UploadDialog({
     [maxMB]
   );
 
+  // The browser cannot reopen a file after a reload, so the user picks it again
+  const startResume = (session: UploadSession) => {
+    setResumeTarget(session);
+    resumeInputRef.current?.click();
+  };
+
+  const handleResumeSelect = (file: File) => {
+    const session = resumeTarget;
+    setResumeTarget(null);
+    if (!session) return;
+    if (
+      file.name !== session.fileName ||
+      file.size !== session.fileSize ||
+      (session.fileLastModified > 0 && file.lastModified !== session.fileLastModified)
+    ) {
+      toast.error(`That is not the same file as "${session.fileName}"`);
+      return;
+    }
+    const cdnDomain = getCdnDomain(bucket);
+    const cdnUrl = cdnDomain ? `https://${cdnDomain}/${session.objectKey}` : "";
+    claimSession(session.id);
+    setFiles((prev) => [
+      ...prev,
+      {
+        file,
+        status: "pending",
+        progress: Math.round((session.completedParts.length / session.partCount) * 100),
+        multipart: multipartSessionFrom(session, cdnUrl),
+        completedParts: session.completedParts.length,
+      },
+    ]);
+  };
+
+  const handleDiscard = async (session: UploadSession) => {
+    if (await discardSession(session.id)) {
+      toast.success(`Discarded upload of "${session.fileName}"`);
+    } else {
+      toast.error("Failed to discard upload");
+    }
+  };
+
   const removeFile = (index: number) => {
+    const session = files[index]?.multipart;
+    if (session) {
+      // Drop the parts S3 already stored for this file
+      const fileName = files[index].file.name;
+      abortMultipartSession(session).catch((err) => {
+        toast.error(
+          `Failed to abort upload of "${fileName}": ${err instanceof Error ? err.message : "unknown error"}`
+        );
+      });
+    }
     setFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const resumeFile = (index: number) => {
+    setFiles((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], status: "pending", error: undefined };
+      return next;
+    });
+  };
+
+  const updateFile = (index: number, patch: Partial<UploadFile>) => {
+    setFiles((prev) => {
+      const next = [...prev];
+      next[index] = { ...next[index], ...patch };
+      return next;
+    });
+  };
+
+  const uploadInParts = async (
+    uploadFile: UploadFile,
+    fileIndex: number,
+    folder: string | undefined,
+    contentHash: string | undefined,
+  ) => {
+    let session = uploadFile.multipart;
+    if (!session) {
+      session = await initiateMultipartUpload(
+        uploadRequest(uploadFile, folder, contentHash),
+      );
+      updateFile(fileIndex, { multipart: session, completedParts: 0 });
+    }
+
+    const confirmed = await uploadMultipartParts({
+      file: uploadFile.file,
+      session,
+      onProgress: (loaded, total) =>
+        updateFile(fileIndex, { progress: Math.round((loaded / total) * 100) }),
+      onPartComplete: (parts) =>
+        updateFile(fileIndex, { completedParts: parts.length }),
+    });
+
+    // Completed, but the content failed inspection — nothing left to resume
+    if (confirmed?.status === "quarantined") {
+      updateFile(fileIndex, {
+        status: "error",
+        error: quarantineMessage(confirmed),
+        multipart: undefined,
+      });
+      return;
+    }
+
+    updateFile(fileIndex, {
+      status: "success",
+      progress: 100,
+      cdnUrl: session.cloudFrontUrl,
+      multipart: undefined,
+    });
+  };
+
+  const uploadRequest = (
+    uploadFile: UploadFile,
+    folder: string | undefined,
+    contentHash: string | undefined,
+  ) => ({
+    projectId,
+    bucketName: bucket.s3BucketName,
+    fileName: uploadFile.file.name,
+    fileSize: uploadFile.file.size,
+    mimeType: uploadFile.file.type || "application/octet-stream",
+    fileLastModified: uploadFile.file.lastModified,
+    folderPrefix: folder,
+    contentHash,
+  });
+
+  /** Ask the server to link an identical object. Resolves to its CDN URL, or null to upload. */
+  const linkDuplicate = async (
+    uploadFile: UploadFile,
+    folder: string | undefined,
+    contentHash: string,
+  ): Promise<string | null> => {
+    const res = await fetch("/api/files/dedup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(uploadRequest(uploadFile, folder, contentHash)),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Duplicate check failed");
+    return data.duplicate ? data.cloudFrontUrl : null;
+  };
+
   const uploadAll = async () => {
     setUploading(true);
     const pendingFiles = files.filter((f) => f.status === "pending");
@@ -115,11 +294,10 @@ export function UploadDialog({
       const uploadFile = pendingFiles[i];
       const fileIndex = files.indexOf(uploadFile);
 
-      // Update status to uploading
-      setFiles((prev) => {
-        const next = [...prev];
-        next[fileIndex] = { ...next[fileIndex], status: "uploading", progress: 0 };
-        return next;
+      // Update status to uploading (resumed multipart uploads keep their progress)
+      updateFile(fileIndex, {
+        status: "uploading",
+        progress: uploadFile.multipart ? uploadFile.progress : 0,
       });
 
       try {
@@ -130,17 +308,38 @@ export function UploadDialog({
             ? newFolderName.trim().replace(/^\/+|\/+$/g, "")
             : effectiveTarget || undefined;
 
+        // Resumed multipart uploads already have their key and record, so
+        // there is nothing to hash; new files of any size are hashed in chunks
+        const contentHash =
+          (needsContentHash || skipDuplicates) && !uploadFile.multipart
+            ? await sha256Hex(uploadFile.file)
+            : undefined;
+
+        if (skipDuplicates && contentHash) {
+          const linkedUrl = await linkDuplicate(uploadFile, folder, contentHash);
+          if (linkedUrl !== null) {
+            updateFile(fileIndex, {
+              status: "success",
+              progress: 100,
+              cdnUrl: linkedUrl,
+              deduplicated: true,
+            });
+            continue;
+          }
+        }
+
+        if (uploadFile.multipart || uploadFile.file.size >= MULTIPART_THRESHOLD) {
+          await uploadInParts(uploadFile, fileIndex, folder, contentHash);
+          continue;
+        }
+
         // Get presigned URL
         const res = await fetch("/api/files", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            projectId,
-            bucketName: bucket.s3BucketName,
-            fileName: uploadFile.file.name,
-            fileSize: uploadFile.file.size,
-            mimeType: uploadFile.file.type || "application/octet-stream",
-            folderPrefix: folder,
+            ...uploadRequest(uploadFile, folder, contentHash),
+            uploadMethod: enforceInS3 ? "post" : "put",
           }),
         });
 
@@ -149,7 +348,8 @@ export function UploadDialog({
           throw new Error(err.error || "Failed to get upload URL");
         }
 
-        const { uploadUrl, cloudFrontUrl } = await res.json();
+        const { uploadMethod, uploadUrl, fields, cloudFrontUrl, file } =
+          await res.json();
 
         // Upload to S3 with progress
         await new Promise<void>((resolve, reject) => {
@@ -166,26 +366,43 @@ export function UploadDialog({
           };
           xhr.onload = () => {
             if (xhr.status >= 200 && xhr.status < 300) {
-              setFiles((prev) => {
-                const next = [...prev];
-                next[fileIndex] = {
-                  ...next[fileIndex],
-                  status: "success",
-                  progress: 100,
-                  cdnUrl: cloudFrontUrl,
-                };
-                return next;
-              });
               resolve();
             } else {
               reject(new Error(`Upload returned ${xhr.status}`));
             }
           };
           xhr.onerror = () => reject(new Error("Network error during upload"));
-          xhr.open("PUT", uploadUrl);
-          xhr.setRequestHeader("Content-Type", uploadFile.file.type || "application/octet-stream");
-          xhr.send(uploadFile.file);
+          if (uploadMethod === "post") {
+            // Policy fields first — S3 ignores anything after the file part
+            const form = new FormData();
+            Object.entries(fields as Record<string, string>).forEach(([k, v]) =>
+              form.append(k, v)
+            );
+            form.append("file", uploadFile.file);
+            xhr.open("POST", uploadUrl);
+            xhr.send(form);
+          } else {
+            xhr.open("PUT", uploadUrl);
+            xhr.setRequestHeader("Content-Type", uploadFile.file.type || "application/octet-stream");
+            xhr.send(uploadFile.file);
+          }
+        });
+
+        // Second phase — the server checks the object and records its real size
+        const confirmRes = await fetch("/api/files/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id: file.id }),
         });
+        if (!confirmRes.ok) {
+          const err = await confirmRes.json();
+          throw new Error(err.error || "Failed to confirm upload");
+        }
+        const { file: confirmed }: { file: FileRecord } = await confirmRes.json();
+        if (confirmed.status === "quarantined") {
+          throw new Error(quarantineMessage(confirmed));
+        }
+        updateFile(fileIndex, { status: "success", progress: 100, cdnUrl: cloudFrontUrl });
       } catch (err) {
         setFiles((prev) => {
           const next = [...prev];
@@ -274,6 +491,46 @@ export function UploadDialog({
             )}
           </div>
 
+          {/* Upload method */}
+          <div className="flex items-start gap-2">
+            <Switch
+              id="enforce-in-s3"
+              checked={enforceInS3}
+              onCheckedChange={setEnforceInS3}
+              disabled={uploading}
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor="enforce-in-s3" className="text-sm font-medium">
+                Enforce limits in S3
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Uses a presigned POST policy so S3 itself rejects files over the size limit or with a
+                different content type. Files over {MULTIPART_THRESHOLD / (1024 * 1024)} MB
+                always upload in parts.
+              </p>
+            </div>
+          </div>
+
+          {/* Deduplication */}
+          <div className="flex items-start gap-2">
+            <Switch
+              id="skip-duplicates"
+              checked={skipDuplicates}
+              onCheckedChange={setSkipDuplicates}
+              disabled={uploading}
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor="skip-duplicates" className="text-sm font-medium">
+                Skip duplicates
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Hashes each file (SHA-256) before uploading — large files take a moment. If the
+                bucket already has the same content, the new record links to that object instead
+                of uploading it again.
+              </p>
+            </div>
+          </div>
+
           {/* Drop zone */}
           <div
             onDragEnter={(e) => { e.preventDefault(); setDragging(true); }}
@@ -299,6 +556,47 @@ export function UploadDialog({
             />
           </div>
 
+          {/* Interrupted uploads from an earlier visit */}
+          {interrupted.length > 0 && (
+            <div className="space-y-2 rounded-lg border border-dashed p-3">
+              <p className="flex items-center gap-1.5 text-xs font-medium">
+                <History className="size-3.5" /> Interrupted uploads
+              </p>
+              {interrupted.map((s) => (
+                <div key={s.id} className="flex items-center gap-2 text-xs">
+                  <span className="min-w-0 flex-1 truncate">{s.fileName}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {s.completedParts.length}/{s.partCount} parts · {formatBytes(s.fileSize)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={uploading}
+                    onClick={() => startResume(s)}
+                  >
+                    <RotateCcw className="mr-1 size-3" /> Resume
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={uploading}
+                    onClick={() => handleDiscard(s)}
+                  >
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <input
+                ref={resumeInputRef}
+                type="file"
+                className="hidden"
+                onChange={(e) => { if (e.target.files?.[0]) handleResumeSelect(e.target.files[0]); e.target.value = ""; }}
+              />
+            </div>
+          )}
+
           {/* File list */}
           {files.length > 0 && (
             <div className="max-h-60 space-y-2 overflow-y-auto no-scrollbar ">
@@ -318,6 +616,11 @@ export function UploadDialog({
                         <span className="text-xs text-muted-foreground shrink-0">{formatBytes(f.file.size)}</span>
                       </div>
                       {f.status === "uploading" && <Progress value={f.progress} className="h-1.5" />}
+                      {f.multipart && f.status !== "success" && (
+                        <p className="text-[10px] text-muted-foreground">
+                          {f.completedParts ?? 0}/{f.multipart.partCount} parts uploaded
+                        </p>
+                      )}
                       {f.status === "error" && (
                         <p className="text-xs text-destructive flex items-center gap-1">
                           <XCircle className="size-3" /> {f.error}
@@ -325,7 +628,8 @@ export function UploadDialog({
                       )}
                       {f.status === "success" && (
                         <div className="text-xs text-green-600 flex items-center gap-1">
-                          <CheckCircle2 className="size-3 shrink-0" /> Uploaded
+                          <CheckCircle2 className="size-3 shrink-0" />{" "}
+                          {f.deduplicated ? "Linked to existing object" : "Uploaded"}
                           {f.cdnUrl && (
                             <a
                               href={f.cdnUrl}
@@ -342,7 +646,12 @@ export function UploadDialog({
                         </div>
                       )}
                     </div>
-                    {f.status === "pending" && !uploading && (
+                    {f.status === "error" && f.multipart && !uploading && (
+                      <Button variant="ghost" size="sm" className="h-6 px-2 shrink-0 text-xs" onClick={() => resumeFile(i)}>
+                        <RotateCcw className="mr-1 size-3" /> Resume
+                      </Button>
+                    )}
+                    {(f.status === "pending" || (f.status === "error" && f.multipart)) && !uploading && (
                       <Button variant="ghost" size="sm" className="h-6 w-6 p-0 shrink-0" onClick={() => removeFile(i)}>
                         <X className="size-3.5" />
                       </Button>
@@ -0,0 +1,50 @@
+// Hook for interrupted upload sessions - fetch resumable uploads, discard
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { UploadSession } from "@/lib/types";
+
+/** Multipart uploads for a bucket that were left unfinished (e.g. by a page reload). */
+export function useUploadSessions(bucketName: string, enabled = true) {
+  const [sessions, setSessions] = useState<UploadSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    if (!enabled) return;
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ bucketName });
+      const res = await fetch(`/api/files/sessions?${params.toString()}`);
+      if (!res.ok) throw new Error("Failed to fetch upload sessions");
+      const data: UploadSession[] = await res.json();
+      // Single-request uploads cannot resume — the reconciler cleans those up
+      setSessions(data.filter((s) => s.uploadId));
+    } catch {
+      setSessions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [bucketName, enabled]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  /** Abort the upload in S3 and drop its FileRecord. */
+  const discardSession = async (id: string): Promise<boolean> => {
+    const res = await fetch(`/api/files/sessions?id=${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (res.ok) {
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+    }
+    return res.ok;
+  };
+
+  /** Hide a session locally once it has been handed back to the uploader. */
+  const claimSession = (id: string) => {
+    setSessions((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  return { sessions, loading, refetch: fetchSessions, discardSession, claimSession };
+}
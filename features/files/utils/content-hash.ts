@@ -0,0 +1,20 @@
+// Browser-side content hashing — SHA-256 of a File as lowercase hex
+
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+
+/** Bytes read per step — keeps memory flat for multi-GB files */
+const HASH_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * crypto.subtle has no streaming digest, so the file is fed to an
+ * incremental SHA-256 one slice at a time instead of read whole.
+ */
+export async function sha256Hex(file: Blob): Promise<string> {
+  const hash = sha256.create();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+    hash.update(new Uint8Array(chunk));
+  }
+  return bytesToHex(hash.digest());
+}
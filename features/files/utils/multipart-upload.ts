@@ -0,0 +1,250 @@
+// Client-side multipart uploader — splits a File into parts, uploads them in
+// parallel with per-part retry, and can resume an upload S3 already has parts for
+
+import type { FileRecord, UploadSession } from "@/lib/types";
+
+/** Files at or above this size go through /api/files/multipart instead of a single PUT. */
+export const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+
+export interface MultipartSession {
+  /** Server-side upload session that records completed parts across reloads */
+  sessionId: string;
+  uploadId: string;
+  objectKey: string;
+  bucketName: string;
+  partSize: number;
+  partCount: number;
+  fileId: string;
+  cloudFrontUrl: string;
+}
+
+export interface InitiateMultipartParams {
+  projectId: string;
+  bucketName: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  fileLastModified?: number;
+  folderPrefix?: string;
+  /** SHA-256 hex — required when the project's key template uses {hash} */
+  contentHash?: string;
+}
+
+interface UploadPartsOptions {
+  file: File;
+  session: MultipartSession;
+  concurrency?: number;
+  maxRetries?: number;
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+  /** Called after each part lands, with every completed part number so far. */
+  onPartComplete?: (completedParts: number[]) => void;
+}
+
+async function postMultipart<T>(body: Record<string, unknown>): Promise<T> {
+  const res = await fetch("/api/files/multipart", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `Multipart ${body.action} failed`);
+  return data as T;
+}
+
+export async function initiateMultipartUpload(
+  params: InitiateMultipartParams,
+): Promise<MultipartSession> {
+  const data = await postMultipart<{
+    sessionId: string;
+    uploadId: string;
+    objectKey: string;
+    cloudFrontUrl: string;
+    partSize: number;
+    partCount: number;
+    file: { id: string };
+  }>({ action: "initiate", ...params });
+  return {
+    sessionId: data.sessionId,
+    uploadId: data.uploadId,
+    objectKey: data.objectKey,
+    bucketName: params.bucketName,
+    partSize: data.partSize,
+    partCount: data.partCount,
+    fileId: data.file.id,
+    cloudFrontUrl: data.cloudFrontUrl,
+  };
+}
+
+export async function abortMultipartSession(session: MultipartSession) {
+  await postMultipart({
+    action: "abort",
+    bucketName: session.bucketName,
+    objectKey: session.objectKey,
+    uploadId: session.uploadId,
+  });
+}
+
+/** Rebuild a MultipartSession from a stored upload session (after a reload). */
+export function multipartSessionFrom(
+  session: UploadSession,
+  cloudFrontUrl = "",
+): MultipartSession {
+  return {
+    sessionId: session.id,
+    uploadId: session.uploadId,
+    objectKey: session.objectKey,
+    bucketName: session.bucketName,
+    partSize: session.partSize,
+    partCount: session.partCount,
+    fileId: session.fileId,
+    cloudFrontUrl,
+  };
+}
+
+/** Persist completed part numbers — best effort, S3's part list stays authoritative. */
+function recordProgress(session: MultipartSession, completedParts: number[]) {
+  fetch("/api/files/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      action: "progress",
+      id: session.sessionId,
+      completedParts,
+    }),
+  }).catch(() => {});
+}
+
+function sessionRef(session: MultipartSession) {
+  return {
+    bucketName: session.bucketName,
+    objectKey: session.objectKey,
+    uploadId: session.uploadId,
+  };
+}
+
+function putPart(
+  url: string,
+  blob: Blob,
+  onProgress: (loaded: number) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Part upload returned ${xhr.status}`));
+    };
+    xhr.onerror = () => reject(new Error("Network error during part upload"));
+    xhr.open("PUT", url);
+    xhr.send(blob);
+  });
+}
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Upload every part S3 does not have yet, then complete the upload.
+ * Parts already listed by S3 are skipped, so calling this again after a
+ * failure resumes where the previous attempt stopped. Resolves to the
+ * confirmed FileRecord (null if the server has no record for the upload).
+ */
+export async function uploadMultipartParts({
+  file,
+  session,
+  concurrency = DEFAULT_CONCURRENCY,
+  maxRetries = DEFAULT_MAX_RETRIES,
+  onProgress,
+  onPartComplete,
+}: UploadPartsOptions): Promise<FileRecord | null> {
+  const { partSize, partCount } = session;
+  const partBytes = (n: number) =>
+    Math.min(partSize, file.size - (n - 1) * partSize);
+
+  const { parts: existing } = await postMultipart<{
+    parts: { partNumber: number; size: number }[];
+  }>({ action: "list-parts", ...sessionRef(session) });
+
+  const completed = new Set(existing.map((p) => p.partNumber));
+  let completedBytes = existing.reduce((sum, p) => sum + p.size, 0);
+  const inFlight = new Map<number, number>();
+
+  const report = () => {
+    let loaded = completedBytes;
+    for (const bytes of inFlight.values()) loaded += bytes;
+    onProgress?.(Math.min(loaded, file.size), file.size);
+  };
+  report();
+
+  const queue: number[] = [];
+  for (let n = 1; n <= partCount; n++) {
+    if (!completed.has(n)) queue.push(n);
+  }
+
+  const uploadOne = async (partNumber: number) => {
+    const start = (partNumber - 1) * partSize;
+    const blob = file.slice(start, start + partBytes(partNumber));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // Sign per attempt so a retry never uses an expired URL
+        const { urls } = await postMultipart<{
+          urls: { partNumber: number; url: string }[];
+        }>({ action: "sign-parts", ...sessionRef(session), partNumbers: [partNumber] });
+        await putPart(urls[0].url, blob, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          report();
+        });
+        break;
+      } catch (err) {
+        inFlight.delete(partNumber);
+        report();
+        if (attempt >= maxRetries) {
+          throw new Error(
+            `Part ${partNumber}/${partCount} failed after ${maxRetries + 1} attempts: ${
+              err instanceof Error ? err.message : "unknown error"
+            }`,
+          );
+        }
+        await wait(1000 * 2 ** attempt);
+      }
+    }
+
+    inFlight.delete(partNumber);
+    completed.add(partNumber);
+    completedBytes += blob.size;
+    report();
+    const completedParts = [...completed].sort((a, b) => a - b);
+    recordProgress(session, completedParts);
+    onPartComplete?.(completedParts);
+  };
+
+  // Once one part gives up, the other workers stop picking up new parts
+  let failed = false;
+  const worker = async () => {
+    while (queue.length > 0 && !failed) {
+      const partNumber = queue.shift()!;
+      try {
+        await uploadOne(partNumber);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, worker),
+  );
+
+  const { file: record } = await postMultipart<{ file: FileRecord | null }>({
+    action: "complete",
+    ...sessionRef(session),
+    partCount,
+  });
+  return record;
+}
@@ -1,11 +1,12 @@
 // Framework-aware code snippet display with syntax-highlighted tabs
 "use client";
 
+import { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { CodeBlock } from "@/components/code-block";
-import type { Bucket } from "@/lib/types";
+import type { Bucket, UploadMethod } from "@/lib/types";
 import {
   generateEnvSnippet,
   generateNextjsUploadApi,
@@ -13,17 +14,31 @@ import {
   generatePythonUploadApi,
   generateJavaUploadApi,
   generateFrontendUploadSnippet,
+  generateNextjsPostPolicyApi,
+  generateNodeExpressPostPolicyApi,
+  generatePythonPostPolicyApi,
+  generateFrontendPostUploadSnippet,
   generateDeleteSnippet,
+  generateNextjsSignedUrlApi,
+  generateNextjsSignedCookiesApi,
+  generateNodeExpressSignedUrlApi,
+  generatePythonSignedUrlApi,
   generateLinkedUploadSnippet,
   generateOrphanExplanationText,
 } from "@/features/infrastructure/utils/snippet-generator";
 
 interface CodeSnippetsProps {
   bucket: Bucket;
+  /** Project object key template — snippets build keys the same way */
+  keyTemplate?: string;
+  /** Project's allowed MIME types — POST policy snippets check against them */
+  allowedMimeTypes?: string[];
 }
 
-export function CodeSnippets({ bucket }: CodeSnippetsProps) {
+export function CodeSnippets({ bucket, keyTemplate, allowedMimeTypes }: CodeSnippetsProps) {
   const maxMB = bucket.config?.maxFileSizeMB ?? 100;
+  const [uploadMethod, setUploadMethod] = useState<UploadMethod>("put");
+  const isPost = uploadMethod === "post";
 
   return (
     <div className="space-y-6">
@@ -65,10 +80,22 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
       {/* Upload API — Framework Tabs */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-sm">Upload API Endpoint</CardTitle>
-          <CardDescription>
-            Server-side presigned URL generation — choose your framework
-          </CardDescription>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="text-sm">Upload API Endpoint</CardTitle>
+              <CardDescription>
+                {isPost
+                  ? "Presigned POST policy — S3 itself rejects files over the limit or of another type"
+                  : "Server-side presigned URL generation — choose your framework"}
+              </CardDescription>
+            </div>
+            <Tabs value={uploadMethod} onValueChange={(v) => setUploadMethod(v as UploadMethod)}>
+              <TabsList>
+                <TabsTrigger value="put" className="text-xs">Presigned PUT</TabsTrigger>
+                <TabsTrigger value="post" className="text-xs">POST policy</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="nextjs">
@@ -82,7 +109,7 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
               <CodeBlock
                 title="app/api/upload/route.ts"
                 language="typescript"
-                code={generateNextjsUploadApi(bucket)}
+                code={isPost ? generateNextjsPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generateNextjsUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
@@ -90,7 +117,7 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
               <CodeBlock
                 title="routes/upload.js"
                 language="javascript"
-                code={generateNodeExpressUploadApi(bucket)}
+                code={isPost ? generateNodeExpressPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generateNodeExpressUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
@@ -98,15 +125,20 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
               <CodeBlock
                 title="upload.py"
                 language="python"
-                code={generatePythonUploadApi(bucket)}
+                code={isPost ? generatePythonPostPolicyApi(bucket, keyTemplate, allowedMimeTypes) : generatePythonUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
             <TabsContent value="java">
+              {isPost && (
+                <p className="mb-2 text-xs text-muted-foreground">
+                  The AWS SDK for Java has no POST policy builder — this is the presigned PUT version.
+                </p>
+              )}
               <CodeBlock
                 title="UploadController.java"
                 language="java"
-                code={generateJavaUploadApi(bucket)}
+                code={generateJavaUploadApi(bucket, keyTemplate)}
                 collapsible
               />
             </TabsContent>
@@ -114,6 +146,60 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
         </CardContent>
       </Card>
 
+      {/* Signed URLs — private delivery */}
+      {bucket.config?.privateDelivery && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Signed URLs</CardTitle>
+            <CardDescription>
+              Private delivery is on — sign CDN URLs or cookies server-side with the bucket&apos;s key
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="nextjs">
+              <TabsList className="grid w-full max-w-md grid-cols-4">
+                <TabsTrigger value="nextjs">Next.js</TabsTrigger>
+                <TabsTrigger value="cookies">Cookies</TabsTrigger>
+                <TabsTrigger value="node">Node.js</TabsTrigger>
+                <TabsTrigger value="python">Python</TabsTrigger>
+              </TabsList>
+              <TabsContent value="nextjs">
+                <CodeBlock
+                  title="app/api/files/signed-url/route.ts"
+                  language="typescript"
+                  code={generateNextjsSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="cookies">
+                <CodeBlock
+                  title="app/api/files/signed-cookies/route.ts"
+                  language="typescript"
+                  code={generateNextjsSignedCookiesApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="node">
+                <CodeBlock
+                  title="routes/signed-url.js"
+                  language="javascript"
+                  code={generateNodeExpressSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+              <TabsContent value="python">
+                <CodeBlock
+                  title="signed_url.py"
+                  language="python"
+                  code={generatePythonSignedUrlApi(bucket)}
+                  collapsible
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Frontend Upload Component */}
       <Card>
         <CardHeader className="pb-3">
@@ -126,7 +212,7 @@ export function CodeSnippets({ bucket }: CodeSnippetsProps) {
           <CodeBlock
             title="components/file-upload.tsx"
             language="typescript"
-            code={generateFrontendUploadSnippet(bucket)}
+            code={isPost ? generateFrontendPostUploadSnippet(bucket) : generateFrontendUploadSnippet(bucket)}
             collapsible
           />
         </CardContent>
@@ -0,0 +1,293 @@
+// Deploy confirmation dialog — previews the stack changes with cdk diff and
+// asks for an explicit confirmation before the deploy runs
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Loader2,
+  RefreshCw,
+  Rocket,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { useDeployBucket } from "@/features/infrastructure/hooks/use-deploy-bucket";
+import {
+  STACK_CONFIG_LABELS,
+  formatConfigValue,
+  hasDeployedStack,
+  stackConfigChanges,
+  usesWaf,
+} from "@/lib/bucket-config";
+import { countCdkChanges, type CdkChangeKind } from "@/lib/cdk-diff";
+import type { Bucket } from "@/lib/types";
+import { StackProgress } from "./stack-progress";
+
+const KIND_STYLES: Record<CdkChangeKind, { label: string; className: string }> = {
+  added: { label: "add", className: "text-green-600 dark:text-green-400" },
+  modified: { label: "modify", className: "text-blue-600 dark:text-blue-400" },
+  replaced: { label: "replace", className: "text-amber-600 dark:text-amber-400" },
+  destroyed: { label: "destroy", className: "text-destructive" },
+};
+
+interface DeployDialogProps {
+  bucket: Bucket | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeployed?: () => void;
+}
+
+export function DeployDialog({ bucket, open, onOpenChange, onDeployed }: DeployDialogProps) {
+  const { deploy, diff, loading, queued, changes, stackEvents, stackFailure } =
+    useDeployBucket();
+  const [step, setStep] = useState<"diffing" | "preview" | "diff-failed" | "deploying">(
+    "diffing"
+  );
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const bucketId = bucket?.id;
+  const runPreview = async () => {
+    if (!bucket) return;
+    setStep("diffing");
+    setAcknowledged(false);
+    const result = await diff(bucket.id, bucket.s3BucketName, bucket.region);
+    setStep(result.success ? "preview" : "diff-failed");
+  };
+
+  // Every time the dialog opens, preview against the live stack
+  useEffect(() => {
+    if (open && bucketId) runPreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, bucketId]);
+
+  if (!bucket) return null;
+
+  const isUpdate = hasDeployedStack(bucket);
+  const configChanges = bucket.deployedConfig
+    ? stackConfigChanges(bucket.deployedConfig, bucket.config)
+    : [];
+  const migratesToOac = configChanges.some(
+    (c) => c.key === "originAccess" && c.from === "oai" && c.to === "oac"
+  );
+  const makesPrivate = configChanges.some((c) => c.key === "privateDelivery" && c.to === true);
+  const addsWaf =
+    !!bucket.deployedConfig && !usesWaf(bucket.deployedConfig) && usesWaf(bucket.config);
+  const counts = countCdkChanges(changes);
+  const dangerous = changes.filter((c) => c.danger);
+  const needsAck = step === "diff-failed" || dangerous.length > 0;
+  const canDeploy =
+    !loading && (step === "preview" || step === "diff-failed") && (!needsAck || acknowledged);
+
+  const handleOpenChange = (next: boolean) => {
+    if (loading) return;
+    onOpenChange(next);
+  };
+
+  const handleDeploy = async () => {
+    setStep("deploying");
+    const result = await deploy(bucket.id, bucket.s3BucketName, bucket.region);
+    onDeployed?.();
+    if (result.success) {
+      toast.success(isUpdate ? "Stack updated" : "Deployment complete!");
+      onOpenChange(false);
+    } else {
+      toast.error(`Deployment failed: ${result.error}`);
+      setStep("preview");
+      setAcknowledged(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[680px]">
+          <DialogHeader>
+            <DialogTitle>
+              {isUpdate ? "Update" : "Deploy"} {bucket.name}
+            </DialogTitle>
+            <DialogDescription>
+              {isUpdate ? "Updates" : "Creates"} the{" "}
+              <span className="font-mono">SCR-{bucket.s3BucketName}</span> stack in{" "}
+              {bucket.region}. Review the changes below before deploying — full
+              output is in the terminal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {configChanges.length > 0 && (
+              <div className="space-y-1.5">
+                <p className="text-sm font-medium">Pending config changes</p>
+                {configChanges.map((change) => (
+                  <div
+                    key={change.key}
+                    className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                  >
+                    <span>{STACK_CONFIG_LABELS[change.key]}</span>
+                    <span className="flex items-center gap-2 font-mono text-xs">
+                      <Badge variant="outline">{formatConfigValue(change.key, change.from)}</Badge>
+                      <ArrowRight className="size-3 text-muted-foreground" />
+                      <Badge>{formatConfigValue(change.key, change.to)}</Badge>
+                    </span>
+                  </div>
+                ))}
+                {migratesToOac && (
+                  <p className="text-xs text-muted-foreground">
+                    The Origin Access Identity is replaced by an Origin Access Control and the
+                    bucket policy is rewritten for the CloudFront service principal. Expect
+                    brief 403s on uncached files while the distribution change propagates.
+                  </p>
+                )}
+                {makesPrivate && (
+                  <p className="text-xs text-muted-foreground">
+                    Once deployed, plain file URLs return 403 — viewers need a signed URL or
+                    signed cookies. A signing key is generated in data/signing-keys/ if the
+                    bucket has none yet.
+                  </p>
+                )}
+                {addsWaf && (
+                  <p className="text-xs text-muted-foreground">
+                    CloudFront only accepts web ACLs from us-east-1, so the WAF deploys as a
+                    second stack, SCR-{bucket.s3BucketName}-waf, in that region. us-east-1 is
+                    bootstrapped automatically if needed.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Resource changes</p>
+                {step === "preview" && changes.length > 0 && (
+                  <div className="flex gap-1.5 text-xs">
+                    {(Object.keys(KIND_STYLES) as CdkChangeKind[])
+                      .filter((kind) => counts[kind] > 0)
+                      .map((kind) => (
+                        <Badge key={kind} variant="outline" className={KIND_STYLES[kind].className}>
+                          {counts[kind]} {kind}
+                        </Badge>
+                      ))}
+                  </div>
+                )}
+              </div>
+
+              {step === "diffing" && (
+                <div className="flex items-center gap-2 rounded-md border px-3 py-6 text-sm text-muted-foreground">
+                  <Loader2 className="size-4 animate-spin" />
+                  {queued ? "Waiting in the deploy queue…" : "Running cdk diff…"}
+                </div>
+              )}
+
+              {step === "diff-failed" && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="size-4" />
+                  <AlertTitle>Preview failed</AlertTitle>
+                  <AlertDescription>
+                    cdk diff did not finish — check the terminal. You can retry the
+                    preview or deploy without one.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {(step === "preview" || step === "deploying") &&
+                (changes.length === 0 ? (
+                  <p className="rounded-md border px-3 py-6 text-center text-sm text-muted-foreground">
+                    No resource changes — the stack is up to date.
+                  </p>
+                ) : (
+                  <div className="max-h-72 space-y-1.5 overflow-auto">
+                    {changes.map((change) => (
+                      <div
+                        key={change.logicalId}
+                        className={`rounded-md border px-3 py-2 text-sm ${
+                          change.danger ? "border-destructive/50 bg-destructive/5" : ""
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`w-16 shrink-0 text-xs font-medium uppercase ${KIND_STYLES[change.kind].className}`}
+                          >
+                            {KIND_STYLES[change.kind].label}
+                            {change.conditional && "?"}
+                          </span>
+                          <span className="font-mono text-xs">{change.resourceType}</span>
+                          <span className="truncate text-muted-foreground">
+                            {change.constructPath}
+                          </span>
+                        </div>
+                        {change.details.length > 0 && (
+                          <p className="mt-1 pl-18 font-mono text-xs text-muted-foreground">
+                            {change.details.join(" · ")}
+                          </p>
+                        )}
+                        {change.danger && (
+                          <p className="mt-1 flex items-start gap-1.5 pl-18 text-xs text-destructive">
+                            <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+                            {change.danger}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+            </div>
+
+            {(step === "deploying" || stackFailure) && (
+              <StackProgress events={stackEvents} failure={stackFailure} />
+            )}
+
+            {needsAck && step !== "diffing" && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3">
+                <Checkbox
+                  id="deploy-acknowledge"
+                  checked={acknowledged}
+                  onCheckedChange={(v) => setAcknowledged(v === true)}
+                />
+                <Label htmlFor="deploy-acknowledge" className="text-sm leading-snug font-normal">
+                  {dangerous.length > 0
+                    ? `I understand that ${dangerous.length} change${dangerous.length === 1 ? "" : "s"} can replace or remove the bucket or its distribution`
+                    : "Deploy without a preview of the changes"}
+                </Label>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={loading} onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button variant="outline" disabled={loading} onClick={runPreview}>
+              <RefreshCw className="mr-1.5 size-3.5" />
+              Re-run Preview
+            </Button>
+            <Button
+              variant={dangerous.length > 0 ? "destructive" : "default"}
+              disabled={!canDeploy}
+              onClick={handleDeploy}
+            >
+              {step === "deploying" ? (
+                <Loader2 className="mr-1.5 size-3.5 animate-spin" />
+              ) : (
+                <Rocket className="mr-1.5 size-3.5" />
+              )}
+              {step === "deploying" && queued ? "Queued…" : isUpdate ? "Apply Changes" : "Deploy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
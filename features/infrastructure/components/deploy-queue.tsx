@@ -0,0 +1,78 @@
+// Presentational list of the deploy queue — running, queued and recently finished CDK jobs
+"use client";
+
+import { CheckCircle2, Clock, Loader2, MinusCircle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { DeployJob } from "@/lib/types";
+
+const STATUS_ICONS: Record<DeployJob["status"], React.ReactNode> = {
+  queued: <Clock className="size-4 text-muted-foreground" />,
+  running: <Loader2 className="size-4 animate-spin text-primary" />,
+  succeeded: <CheckCircle2 className="size-4 text-green-500" />,
+  failed: <XCircle className="size-4 text-destructive" />,
+  cancelled: <MinusCircle className="size-4 text-muted-foreground" />,
+};
+
+function formatElapsed(from: string, to?: string): string {
+  const seconds = Math.max(
+    Math.round(((to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime()) / 1000),
+    0
+  );
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function describeTiming(job: DeployJob): string {
+  if (job.status === "queued") return `waiting ${formatElapsed(job.queuedAt)}`;
+  if (job.status === "running") return `running ${formatElapsed(job.startedAt ?? job.queuedAt)}`;
+  const finished = job.finishedAt ? new Date(job.finishedAt).toLocaleTimeString() : "";
+  return job.startedAt
+    ? `${finished} · ${formatElapsed(job.startedAt, job.finishedAt)}`
+    : finished;
+}
+
+export function DeployQueue({ jobs }: { jobs: DeployJob[] }) {
+  if (jobs.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No CDK jobs have run since the server started.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {jobs.map((job) => (
+        <div
+          key={job.id}
+          className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm"
+        >
+          <div className="flex min-w-0 items-center gap-2">
+            {STATUS_ICONS[job.status]}
+            <Badge variant="outline" className="font-mono text-xs">
+              {job.action}
+            </Badge>
+            <span className="truncate">
+              {job.bucketName || job.s3BucketName || "all stacks"}
+            </span>
+            {job.s3BucketName && (
+              <span className="hidden truncate font-mono text-xs text-muted-foreground sm:inline">
+                SCR-{job.s3BucketName}
+              </span>
+            )}
+          </div>
+          <div className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+            {job.error && (
+              <span className="max-w-56 truncate text-destructive" title={job.error}>
+                {job.error}
+              </span>
+            )}
+            <span>{describeTiming(job)}</span>
+            <Badge variant={job.status === "failed" ? "destructive" : "secondary"}>
+              {job.status}
+            </Badge>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+// Dialog showing an archived CDK run's full log with its timing and outputs
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import {
+  deployRunLogUrl,
+  fetchDeployRunLog,
+  type DeployRunLogLine,
+} from "@/features/infrastructure/hooks/use-deploy-runs";
+import type { DeployRun } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const LEVEL_STYLES: Record<string, string> = {
+  error: "text-destructive",
+  warn: "text-amber-600 dark:text-amber-400",
+  success: "text-green-600 dark:text-green-400",
+  command: "text-blue-600 dark:text-blue-400",
+};
+
+function formatOffset(ms: number): string {
+  const seconds = ms / 1000;
+  return seconds >= 60
+    ? `+${Math.floor(seconds / 60)}m${Math.floor(seconds % 60)}s`
+    : `+${seconds.toFixed(1)}s`;
+}
+
+interface DeployRunLogDialogProps {
+  runId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DeployRunLogDialog({ runId, onOpenChange }: DeployRunLogDialogProps) {
+  const [loaded, setLoaded] = useState<{
+    runId: string;
+    run: DeployRun | null;
+    lines: DeployRunLogLine[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!runId) return;
+    let cancelled = false;
+    fetchDeployRunLog(runId).then((archived) => {
+      if (cancelled) return;
+      setLoaded({ runId, run: archived?.run ?? null, lines: archived?.lines ?? [] });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId]);
+
+  const loading = !!runId && loaded?.runId !== runId;
+  const run = loading ? null : (loaded?.run ?? null);
+  const lines = loading ? [] : (loaded?.lines ?? []);
+  const missing = !loading && !run;
+
+  const open = !!runId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[760px]">
+          <DialogHeader>
+            <DialogTitle>
+              {run ? `${run.action} · ${new Date(run.startedAt).toLocaleString()}` : "Run log"}
+            </DialogTitle>
+            <DialogDescription>
+              {run
+                ? `Started by ${run.actor} · exit code ${run.exitCode ?? "—"} · ${lines.length} lines`
+                : "Archived output of a CDK run."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {run?.outputs && Object.keys(run.outputs).length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(run.outputs).map(([key, value]) => (
+                <Badge key={key} variant="outline" className="font-mono text-xs">
+                  {key}: {value}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-[420px] overflow-auto rounded-md border bg-muted/30 p-3 font-mono text-xs">
+            {loading ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="size-3.5 animate-spin" /> Loading log…
+              </div>
+            ) : missing ? (
+              <p className="text-muted-foreground">The log of this run is no longer available.</p>
+            ) : (
+              lines.map((line, i) => (
+                <div key={i} className="flex gap-3 whitespace-pre-wrap">
+                  <span className="w-14 shrink-0 text-right text-muted-foreground">
+                    {formatOffset(line.at)}
+                  </span>
+                  <span className={cn(LEVEL_STYLES[line.level ?? "info"])}>
+                    {line.message || line.label || JSON.stringify(line)}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            {runId && !missing && (
+              <Button asChild>
+                <a href={deployRunLogUrl(runId, true)} download>
+                  <Download className="mr-1.5 size-3.5" />
+                  Download NDJSON
+                </a>
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+// Presentational list of a bucket's archived CDK runs with log, replay and download actions
+"use client";
+
+import { CheckCircle2, Download, FileText, Play, Square, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { deployRunLogUrl } from "@/features/infrastructure/hooks/use-deploy-runs";
+import type { DeployRun } from "@/lib/types";
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+interface DeployRunsProps {
+  runs: DeployRun[];
+  replayingId: string | null;
+  onViewLog: (runId: string) => void;
+  onReplay: (run: DeployRun) => void;
+  onStopReplay: () => void;
+}
+
+export function DeployRuns({
+  runs,
+  replayingId,
+  onViewLog,
+  onReplay,
+  onStopReplay,
+}: DeployRunsProps) {
+  if (runs.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No CDK runs recorded for this bucket yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {runs.map((run) => (
+        <div
+          key={run.id}
+          className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm"
+        >
+          <div className="flex min-w-0 items-center gap-2">
+            {run.status === "success" ? (
+              <CheckCircle2 className="size-4 shrink-0 text-green-500" />
+            ) : (
+              <XCircle className="size-4 shrink-0 text-destructive" />
+            )}
+            <Badge variant="outline" className="font-mono text-xs">
+              {run.action}
+            </Badge>
+            <span className="truncate text-xs text-muted-foreground">
+              {new Date(run.startedAt).toLocaleString()} · {formatDuration(run.durationMs)} ·
+              exit {run.exitCode ?? "—"} · {run.actor}
+            </span>
+          </div>
+          <div className="flex shrink-0 items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => onViewLog(run.id)}>
+              <FileText className="mr-1 size-3.5" /> Log
+            </Button>
+            {replayingId === run.id ? (
+              <Button variant="ghost" size="sm" onClick={onStopReplay}>
+                <Square className="mr-1 size-3.5" /> Stop
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={!!replayingId}
+                onClick={() => onReplay(run)}
+              >
+                <Play className="mr-1 size-3.5" /> Replay
+              </Button>
+            )}
+            <Button variant="ghost" size="icon-xs" asChild>
+              <a href={deployRunLogUrl(run.id, true)} download title="Download NDJSON log">
+                <Download className="size-3.5" />
+              </a>
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
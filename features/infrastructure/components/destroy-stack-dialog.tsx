@@ -0,0 +1,194 @@
+// Stack destroy dialog — tears down a bucket's SCR- stack and decides what
+// happens to the bucket the stack retains
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, Link2Off, Loader2, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { useDeployBucket } from "@/features/infrastructure/hooks/use-deploy-bucket";
+import type { Bucket } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { StackProgress } from "./stack-progress";
+
+type RetainedBucketMode = "delete" | "detach";
+
+const MODES: {
+  id: RetainedBucketMode;
+  label: string;
+  description: string;
+  icon: React.ElementType;
+}[] = [
+  {
+    id: "detach",
+    label: "Detach and keep the bucket",
+    description:
+      "Files stay in S3. The bucket is kept as an imported bucket without a CloudFront distribution.",
+    icon: Link2Off,
+  },
+  {
+    id: "delete",
+    label: "Empty and delete the bucket",
+    description:
+      "Every object and version is deleted, then the bucket and its file records are removed.",
+    icon: Trash2,
+  },
+];
+
+interface DestroyStackDialogProps {
+  bucket: Bucket | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the run; `deleted` is true when the bucket record is gone */
+  onDestroyed?: (deleted: boolean) => void;
+}
+
+export function DestroyStackDialog({
+  bucket,
+  open,
+  onOpenChange,
+  onDestroyed,
+}: DestroyStackDialogProps) {
+  const { destroy, loading, stackEvents, stackFailure } = useDeployBucket();
+  const [mode, setMode] = useState<RetainedBucketMode>("detach");
+  const [confirmName, setConfirmName] = useState("");
+
+  if (!bucket) return null;
+
+  const canDestroy =
+    !loading && (mode === "detach" || confirmName === bucket.s3BucketName);
+
+  const handleOpenChange = (next: boolean) => {
+    if (loading) return;
+    if (!next) {
+      setMode("detach");
+      setConfirmName("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleDestroy = async () => {
+    const result = await destroy(bucket.id, bucket.s3BucketName, bucket.region, mode);
+    // A failed delete falls back to detaching, so only a clean run removes the record
+    onDestroyed?.(result.success && mode === "delete");
+    if (result.success) {
+      toast.success(mode === "delete" ? "Stack and bucket deleted" : "Stack destroyed — bucket detached");
+      handleOpenChange(false);
+    } else {
+      toast.error(`Destroy failed: ${result.error}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Destroy stack for {bucket.name}</DialogTitle>
+            <DialogDescription>
+              Deletes the <span className="font-mono">SCR-{bucket.s3BucketName}</span> stack
+              in {bucket.region}, including its CloudFront distribution. Progress is
+              streamed to the terminal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="size-4" />
+              <AlertTitle>CloudFront URLs stop working</AlertTitle>
+              <AlertDescription>
+                Every stored file URL on {bucket.cloudFrontDomain || "the distribution"} breaks
+                once the distribution is gone.
+              </AlertDescription>
+            </Alert>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">The stack retains its S3 bucket</p>
+              {MODES.map(({ id, label, description, icon: Icon }) => (
+                <button
+                  key={id}
+                  type="button"
+                  disabled={loading}
+                  onClick={() => setMode(id)}
+                  className={cn(
+                    "flex w-full items-start gap-3 rounded-md border p-3 text-left transition-colors",
+                    mode === id
+                      ? id === "delete"
+                        ? "border-destructive bg-destructive/5"
+                        : "border-primary bg-primary/5"
+                      : "hover:bg-muted/50"
+                  )}
+                >
+                  <Icon
+                    className={cn(
+                      "mt-0.5 size-4 shrink-0",
+                      id === "delete" ? "text-destructive" : "text-muted-foreground"
+                    )}
+                  />
+                  <span className="space-y-0.5">
+                    <span className="block text-sm font-medium">{label}</span>
+                    <span className="block text-xs text-muted-foreground">{description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {mode === "delete" && (
+              <div className="space-y-1.5">
+                <Label htmlFor="destroy-confirm" className="text-sm font-normal">
+                  Type <span className="font-mono font-medium">{bucket.s3BucketName}</span> to
+                  confirm
+                </Label>
+                <Input
+                  id="destroy-confirm"
+                  value={confirmName}
+                  disabled={loading}
+                  onChange={(e) => setConfirmName(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+            )}
+
+            <StackProgress events={stackEvents} failure={stackFailure} />
+
+            {(bucket.config.encryption === "kms" || bucket.config.backupEnabled) && (
+              <p className="text-xs text-muted-foreground">
+                {bucket.config.encryption === "kms" && "The KMS key "}
+                {bucket.config.encryption === "kms" && bucket.config.backupEnabled && "and "}
+                {bucket.config.backupEnabled && "the backup vault "}
+                {bucket.config.encryption === "kms" && bucket.config.backupEnabled ? "are" : "is"}{" "}
+                retained by AWS and must be removed separately.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={loading} onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={!canDestroy} onClick={handleDestroy}>
+              {loading ? (
+                <Loader2 className="mr-1.5 size-3.5 animate-spin" />
+              ) : (
+                <Trash2 className="mr-1.5 size-3.5" />
+              )}
+              Destroy Stack
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+// Per-resource drift of a bucket's stack with re-apply and accept actions
+"use client";
+
+import { AlertTriangle, CheckCircle2, Check, Loader2, RotateCcw, Minus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  STACK_CONFIG_KEYS,
+  STACK_CONFIG_LABELS,
+  formatConfigValue,
+} from "@/lib/bucket-config";
+import type { DriftAction } from "@/features/infrastructure/hooks/use-sync-status";
+import type { StackDriftResult } from "@/lib/types";
+
+/** Long JSON values (policies, CORS rules) are cut down to one line */
+function formatDriftValue(value: string): string {
+  if (!value) return "—";
+  return value.length > 80 ? `${value.slice(0, 77)}…` : value;
+}
+
+interface StackDriftPanelProps {
+  drift: StackDriftResult;
+  resolving: DriftAction | null;
+  onResolve: (action: DriftAction) => void;
+}
+
+export function StackDriftPanel({ drift, resolving, onResolve }: StackDriftPanelProps) {
+  const drifted = drift.resources.filter(
+    (r) => r.driftStatus === "MODIFIED" || r.driftStatus === "DELETED"
+  );
+  const inSyncCount = drift.resources.filter((r) => r.driftStatus === "IN_SYNC").length;
+  const differences = drifted.flatMap((r) => r.differences);
+  const canReapply = differences.some((d) => d.reapplicable);
+  const hasManualDrift =
+    differences.some((d) => !d.reapplicable) || drifted.some((r) => r.driftStatus === "DELETED");
+  const acceptedKeys = STACK_CONFIG_KEYS.filter((key) => drift.acceptedConfig[key] !== undefined);
+
+  return (
+    <div className="space-y-2 rounded-md border bg-muted/30 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {drift.stackDriftStatus === "DRIFTED" ? (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="size-3" />
+              Drifted
+            </Badge>
+          ) : drift.stackDriftStatus === "IN_SYNC" ? (
+            <Badge variant="default" className="gap-1">
+              <CheckCircle2 className="size-3" />
+              No Drift
+            </Badge>
+          ) : (
+            <Badge variant="outline">{drift.stackDriftStatus}</Badge>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {inSyncCount}/{drift.resources.length} resources match the template
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {new Date(drift.detectedAt).toLocaleTimeString()}
+        </span>
+      </div>
+
+      {drift.detectionStatusReason && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          {drift.detectionStatusReason}
+        </p>
+      )}
+
+      {drifted.map((resource) => (
+        <div key={resource.logicalId} className="space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-mono font-medium">{resource.logicalId}</span>
+            <span className="text-muted-foreground">
+              {resource.resourceType.replace("AWS::", "")}
+            </span>
+            <Badge variant="outline" className="ml-auto text-[10px]">
+              {resource.driftStatus}
+            </Badge>
+          </div>
+          {resource.driftStatus === "DELETED" && (
+            <p className="text-xs text-muted-foreground">
+              Deleted outside CloudFormation.
+            </p>
+          )}
+          {resource.differences.map((diff) => (
+            <div
+              key={diff.propertyPath}
+              className="grid grid-cols-[auto_1fr] gap-x-2 pl-2 font-mono text-xs"
+            >
+              <span title={diff.reapplicable ? "Can be re-applied" : "Fix manually"}>
+                {diff.reapplicable ? (
+                  <Check className="mt-0.5 size-3 text-green-500" />
+                ) : (
+                  <Minus className="mt-0.5 size-3 text-muted-foreground" />
+                )}
+              </span>
+              <span className="break-all">
+                {diff.propertyPath}{" "}
+                <span className="text-muted-foreground">
+                  {formatDriftValue(diff.expectedValue)} → {formatDriftValue(diff.actualValue)}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {drifted.length > 0 && (
+        <div className="space-y-2 border-t pt-2">
+          {acceptedKeys.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Accepting sets{" "}
+              {acceptedKeys
+                .map(
+                  (key) =>
+                    `${STACK_CONFIG_LABELS[key]} ${formatConfigValue(key, drift.acceptedConfig[key])}`
+                )
+                .join(", ")}{" "}
+              in the bucket config; deploy afterwards to write it into the stack.
+            </p>
+          )}
+          {hasManualDrift && (
+            <p className="text-xs text-muted-foreground">
+              Drift marked <Minus className="inline size-3" /> cannot be re-applied from
+              here — revert it in the AWS console or destroy and redeploy the stack.
+            </p>
+          )}
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!canReapply || !!resolving}
+              onClick={() => onResolve("reapply-drift")}
+            >
+              {resolving === "reapply-drift" ? (
+                <Loader2 className="mr-2 size-3.5 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 size-3.5" />
+              )}
+              Re-apply Template
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={acceptedKeys.length === 0 || !!resolving}
+              onClick={() => onResolve("accept-drift")}
+            >
+              {resolving === "accept-drift" ? (
+                <Loader2 className="mr-2 size-3.5 animate-spin" />
+              ) : (
+                <Check className="mr-2 size-3.5" />
+              )}
+              Accept Drift
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
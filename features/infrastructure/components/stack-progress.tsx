@@ -0,0 +1,76 @@
+// Per-resource CloudFormation progress of a running deploy or destroy, and the resource that failed
+"use client";
+
+import { AlertTriangle, CheckCircle2, Loader2, XCircle, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { StackEvent } from "@/lib/types";
+
+const STACK_TYPE = "AWS::CloudFormation::Stack";
+
+function StatusIcon({ status }: { status: string }) {
+  if (status.endsWith("_FAILED")) return <XCircle className="size-3.5 text-destructive" />;
+  if (status.includes("ROLLBACK")) return <RotateCcw className="size-3.5 text-amber-500" />;
+  if (status.endsWith("_COMPLETE")) return <CheckCircle2 className="size-3.5 text-green-500" />;
+  return <Loader2 className="size-3.5 animate-spin text-muted-foreground" />;
+}
+
+interface StackProgressProps {
+  events: StackEvent[];
+  failure: StackEvent | null;
+}
+
+export function StackProgress({ events, failure }: StackProgressProps) {
+  if (events.length === 0 && !failure) return null;
+
+  // Latest event per resource, in the order resources first appeared
+  const latest = new Map<string, StackEvent>();
+  for (const event of events) {
+    if (event.resourceType !== STACK_TYPE) latest.set(event.logicalId, event);
+  }
+  const stackStatus = [...events].reverse().find((e) => e.resourceType === STACK_TYPE);
+
+  return (
+    <div className="space-y-2">
+      {failure && (
+        <Alert variant="destructive">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>
+            {failure.logicalId} ({failure.resourceType}) — {failure.status}
+          </AlertTitle>
+          <AlertDescription className="break-words">
+            {failure.statusReason ?? "No reason reported by CloudFormation."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Stack progress</p>
+        {stackStatus && (
+          <span className="flex items-center gap-1.5 font-mono text-xs text-muted-foreground">
+            <StatusIcon status={stackStatus.status} />
+            {stackStatus.status}
+          </span>
+        )}
+      </div>
+      {latest.size > 0 && (
+        <div className="max-h-48 space-y-1 overflow-auto rounded-md border p-2">
+          {[...latest.values()].map((event) => (
+            <div
+              key={event.logicalId}
+              className={`flex items-center gap-2 text-xs ${
+                event.eventId === failure?.eventId ? "text-destructive" : ""
+              }`}
+            >
+              <StatusIcon status={event.status} />
+              <span className="truncate font-medium">{event.logicalId}</span>
+              <span className="truncate text-muted-foreground">{event.resourceType}</span>
+              <span className="ml-auto shrink-0 font-mono text-muted-foreground">
+                {event.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
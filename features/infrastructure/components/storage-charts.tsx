@@ -20,7 +20,7 @@ import {
   ChartLegendContent,
 } from "@/components/ui/chart";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { TrendingUp, TrendingDown, Minus, Copy } from "lucide-react";
 import type { BucketAnalytics } from "@/lib/types";
 import type { MergedS3File } from "@/features/files/hooks/use-files";
 
@@ -416,3 +416,50 @@ export function FileSizeRangeChart({ s3Files }: S3FileChartsProps) {
     </Card>
   );
 }
+
+// ── Deduplication Savings ────────────────────────────────────────────────────
+
+export function DedupSavingsCard({ bucketAnalytics }: StorageChartsProps) {
+  const savedBytes = bucketAnalytics.reduce((acc, b) => acc + b.dedupSavedBytes, 0);
+  const linkedFiles = bucketAnalytics.reduce((acc, b) => acc + b.dedupLinkedFiles, 0);
+  const storedBytes = bucketAnalytics.reduce((acc, b) => acc + b.totalSizeBytes, 0);
+  // Share of what would have been stored without dedup
+  const pct = savedBytes > 0 ? (savedBytes / (storedBytes + savedBytes)) * 100 : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="size-4" />
+          Deduplication
+        </CardTitle>
+        <CardDescription>
+          Uploads linked to an identical object already in the bucket
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-2xl font-bold">{formatBytes(savedBytes)}</p>
+            <p className="text-xs text-muted-foreground">Bytes saved</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{linkedFiles}</p>
+            <p className="text-xs text-muted-foreground">Linked uploads</p>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full rounded-full bg-primary"
+              style={{ width: `${pct}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {pct.toFixed(1)}% less storage than uploading every copy
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
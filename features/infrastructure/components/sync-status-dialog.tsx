@@ -3,6 +3,7 @@
 
 import { useState, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -35,9 +36,15 @@ import {
   ArrowUpCircle,
   Trash2,
   Rocket,
+  ScanSearch,
+  ShieldCheck,
 } from "lucide-react";
-import { useSyncStatus } from "@/features/infrastructure/hooks/use-sync-status";
-import type { BucketSyncStatus } from "@/lib/types";
+import {
+  useSyncStatus,
+  type DriftAction,
+} from "@/features/infrastructure/hooks/use-sync-status";
+import type { BucketSyncStatus, StackDriftResult } from "@/lib/types";
+import { StackDriftPanel } from "./stack-drift-panel";
 
 interface SyncStatusDialogProps {
   open: boolean;
@@ -106,10 +113,16 @@ export function SyncStatusDialog({
   bucketId,
   onSynced,
 }: SyncStatusDialogProps) {
-  const { loading, checkBucketStatus, syncAll, applySync } = useSyncStatus();
+  const { loading, error, checkBucketStatus, syncAll, applySync, detectDrift, resolveDrift } =
+    useSyncStatus();
   const [results, setResults] = useState<BucketSyncStatus[]>([]);
   const [checking, setChecking] = useState(false);
   const [applying, setApplying] = useState<string | null>(null);
+  const [drifts, setDrifts] = useState<Record<string, StackDriftResult>>({});
+  const [detecting, setDetecting] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<{ bucketId: string; action: DriftAction } | null>(
+    null
+  );
 
   const handleCheck = useCallback(async () => {
     setChecking(true);
@@ -128,6 +141,7 @@ export function SyncStatusDialog({
       handleCheck();
     } else {
       setResults([]);
+      setDrifts({});
     }
   }, [open]); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -155,6 +169,42 @@ export function SyncStatusDialog({
     setApplying(null);
   };
 
+  const handleMigrateOac = async (bId: string) => {
+    setApplying(bId);
+    const success = await applySync(bId, "migrate-oac");
+    if (success) {
+      toast.success("OAC migration staged — use Review & Apply Changes to deploy it");
+      await handleCheck();
+      onSynced();
+    }
+    setApplying(null);
+  };
+
+  const handleDetectDrift = async (bId: string) => {
+    setDetecting(bId);
+    const drift = await detectDrift(bId);
+    if (drift) setDrifts((prev) => ({ ...prev, [bId]: drift }));
+    setDetecting(null);
+  };
+
+  const handleResolveDrift = async (bId: string, action: DriftAction) => {
+    setResolving({ bucketId: bId, action });
+    const result = await resolveDrift(bId, action);
+    if (result) {
+      if (action === "reapply-drift") {
+        toast.success(`Re-applied ${result.restored?.length ?? 0} setting(s) from the template`);
+        if (result.skipped?.length) {
+          toast.warning(`Still drifted: ${result.skipped.join(", ")}`);
+        }
+      } else {
+        toast.success("Drift accepted — deploy the bucket to update its stack");
+        onSynced();
+      }
+      await handleDetectDrift(bId);
+    }
+    setResolving(null);
+  };
+
   const syncedCount = results.filter((r) => !r.needsSync).length;
   const totalCount = results.length;
   const progressPercent = totalCount > 0 ? (syncedCount / totalCount) * 100 : 0;
@@ -202,6 +252,8 @@ export function SyncStatusDialog({
                 </div>
               )}
 
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
               {results.map((result) => (
                 <motion.div
                   key={result.bucketId}
@@ -232,7 +284,7 @@ export function SyncStatusDialog({
                   </div>
 
                   {/* Status grid */}
-                  <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div className="grid grid-cols-4 gap-3 text-sm">
                     <div className="space-y-1">
                       <p className="text-xs text-muted-foreground">Local Status</p>
                       <Badge variant="outline">{result.localStatus}</Badge>
@@ -259,8 +311,56 @@ export function SyncStatusDialog({
                         </span>
                       </div>
                     </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Origin Access</p>
+                      {result.originAccess === "oac" ? (
+                        <Badge variant="outline" className="gap-1">
+                          <ShieldCheck className="size-3 text-green-500" />
+                          OAC
+                        </Badge>
+                      ) : result.originAccess === "oai" ? (
+                        <Badge variant="outline" className="gap-1 border-yellow-500/30 text-yellow-600">
+                          <AlertTriangle className="size-3" />
+                          OAI (legacy)
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </div>
                   </div>
 
+                  {/* OAI → OAC migration */}
+                  {result.oacMigration === "available" && (
+                    <div className="flex items-center justify-between gap-4 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3">
+                      <p className="text-xs text-muted-foreground">
+                        This distribution reads the bucket through a legacy Origin Access
+                        Identity. Origin Access Control is AWS&apos;s recommended replacement and
+                        is required for SSE-KMS.
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="shrink-0"
+                        onClick={() => handleMigrateOac(result.bucketId)}
+                        disabled={applying === result.bucketId}
+                      >
+                        {applying === result.bucketId ? (
+                          <Loader2 className="mr-2 size-3.5 animate-spin" />
+                        ) : (
+                          <ShieldCheck className="mr-2 size-3.5" />
+                        )}
+                        Migrate to OAC
+                      </Button>
+                    </div>
+                  )}
+                  {result.oacMigration === "staged" && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Rocket className="size-3.5" />
+                      OAC migration staged — deploy the bucket&apos;s pending changes to replace the
+                      OAI.
+                    </p>
+                  )}
+
                   {/* Resources table (collapsible) */}
                   {result.resources.length > 0 && (
                     <details className="text-sm">
@@ -297,6 +397,39 @@ export function SyncStatusDialog({
                     </details>
                   )}
 
+                  {/* Drift */}
+                  {result.stackExists && (
+                    <div className="space-y-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleDetectDrift(result.bucketId)}
+                        disabled={detecting === result.bucketId || !!resolving}
+                      >
+                        {detecting === result.bucketId ? (
+                          <Loader2 className="mr-1.5 size-3.5 animate-spin" />
+                        ) : (
+                          <ScanSearch className="mr-1.5 size-3.5" />
+                        )}
+                        {detecting === result.bucketId
+                          ? "Detecting drift…"
+                          : drifts[result.bucketId]
+                            ? "Detect Drift Again"
+                            : "Detect Drift"}
+                      </Button>
+                      {drifts[result.bucketId] && (
+                        <StackDriftPanel
+                          drift={drifts[result.bucketId]}
+                          resolving={
+                            resolving?.bucketId === result.bucketId ? resolving.action : null
+                          }
+                          onResolve={(action) => handleResolveDrift(result.bucketId, action)}
+                        />
+                      )}
+                    </div>
+                  )}
+
                   {/* Actions */}
                   {result.needsSync && (
                     <div className="flex items-center gap-2 pt-1">
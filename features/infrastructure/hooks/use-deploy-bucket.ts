@@ -3,6 +3,8 @@
 
 import { useState, useCallback } from "react";
 import { useTerminal } from "@/lib/terminal-context";
+import type { CdkResourceChange } from "@/lib/cdk-diff";
+import type { StackEvent } from "@/lib/types";
 
 interface DeployResult {
   success: boolean;
@@ -13,6 +15,14 @@ export function useDeployBucket() {
   const [loading, setLoading] = useState(false);
   const [output, setOutput] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
+  /** Resource changes reported by the last diff */
+  const [changes, setChanges] = useState<CdkResourceChange[]>([]);
+  /** CloudFormation events of the last deploy or destroy, oldest first */
+  const [stackEvents, setStackEvents] = useState<StackEvent[]>([]);
+  /** The first failing resource of the last run, if it failed */
+  const [stackFailure, setStackFailure] = useState<StackEvent | null>(null);
+  /** The run is waiting in the server-side deploy queue */
+  const [queued, setQueued] = useState(false);
   const terminal = useTerminal();
 
   const runStreamingAction = useCallback(
@@ -24,6 +34,10 @@ export function useDeployBucket() {
       setLoading(true);
       setError(null);
       setOutput("");
+      setChanges([]);
+      setStackEvents([]);
+      setStackFailure(null);
+      setQueued(false);
       terminal.setIsOpen(true);
       terminal.log(`Starting ${action}...`, "command", source);
 
@@ -82,6 +96,21 @@ export function useDeployBucket() {
                 lastError = message;
               }
 
+              if (parsed.type === "queue") {
+                setQueued(parsed.status === "queued");
+              }
+
+              if (parsed.type === "stack-event") {
+                setStackEvents((prev) => [...prev, parsed.event]);
+              }
+              if (parsed.type === "stack-failure") {
+                setStackFailure(parsed.event);
+              }
+
+              if (parsed.type === "change") {
+                setChanges((prev) => [...prev, parsed.change]);
+              }
+
               // Error intelligence suggestions
               if (parsed.type === "error-intelligence") {
                 terminal.log(`💡 ${parsed.title}`, "warn", source);
@@ -115,6 +144,7 @@ export function useDeployBucket() {
         return { success: false, error: message };
       } finally {
         setLoading(false);
+        setQueued(false);
       }
     },
     [terminal]
@@ -131,9 +161,53 @@ export function useDeployBucket() {
     [runStreamingAction]
   );
 
+  /** Preview a deploy — the diff between the live stack and the bucket's saved config. */
+  const diff = useCallback(
+    async (
+      bucketId: string,
+      s3BucketName: string,
+      region: string
+    ): Promise<DeployResult> => {
+      return runStreamingAction("diff", { bucketId, s3BucketName, region }, "CDK Diff");
+    },
+    [runStreamingAction]
+  );
+
+  /**
+   * Destroy the bucket's stack. The retained bucket is either emptied and
+   * deleted, or detached and kept as an imported bucket.
+   */
+  const destroy = useCallback(
+    async (
+      bucketId: string,
+      s3BucketName: string,
+      region: string,
+      retainedBucket: "delete" | "detach"
+    ): Promise<DeployResult> => {
+      return runStreamingAction(
+        "destroy",
+        { bucketId, s3BucketName, region, retainedBucket },
+        "CDK Destroy"
+      );
+    },
+    [runStreamingAction]
+  );
+
   const synth = useCallback(async (): Promise<DeployResult> => {
     return runStreamingAction("synth", {}, "CDK Synth");
   }, [runStreamingAction]);
 
-  return { deploy, synth, loading, output, error };
+  return {
+    deploy,
+    diff,
+    destroy,
+    synth,
+    loading,
+    queued,
+    output,
+    error,
+    changes,
+    stackEvents,
+    stackFailure,
+  };
 }
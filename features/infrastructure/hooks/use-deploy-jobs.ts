@@ -0,0 +1,38 @@
+// Hook for the server-side deploy queue — polls while jobs are queued or running
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { DeployJob } from "@/lib/types";
+
+const ACTIVE_POLL_MS = 2000;
+const IDLE_POLL_MS = 10000;
+
+export function useDeployJobs() {
+  const [jobs, setJobs] = useState<DeployJob[]>([]);
+  const [concurrency, setConcurrency] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch("/api/infrastructure?action=jobs");
+      if (!res.ok) throw new Error("Failed to fetch deploy jobs");
+      const data = await res.json();
+      setJobs(data.jobs);
+      setConcurrency(data.concurrency);
+    } catch {
+      // Keep the last known queue
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const active = jobs.some((j) => j.status === "queued" || j.status === "running");
+
+  useEffect(() => {
+    fetchJobs();
+    const timer = setInterval(fetchJobs, active ? ACTIVE_POLL_MS : IDLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [fetchJobs, active]);
+
+  return { jobs, concurrency, loading, refetch: fetchJobs };
+}
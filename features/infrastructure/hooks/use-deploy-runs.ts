@@ -0,0 +1,107 @@
+// Hooks for archived CDK runs — list a bucket's runs, load a run's log and replay it into the terminal
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useTerminal, type LogLevel } from "@/lib/terminal-context";
+import type { DeployRun } from "@/lib/types";
+
+/** A streamed NDJSON line as archived, with its offset from the start of the run */
+export interface DeployRunLogLine {
+  at: number;
+  type?: string;
+  message?: string;
+  label?: string;
+  level?: LogLevel;
+  [key: string]: unknown;
+}
+
+/** Longest pause between two replayed lines */
+const MAX_REPLAY_GAP_MS = 400;
+
+export function deployRunLogUrl(runId: string, download = false): string {
+  return `/api/infrastructure/runs?id=${runId}${download ? "&download=true" : ""}`;
+}
+
+/** Runs of a bucket, newest first. Refetches when `refreshKey` changes. */
+export function useDeployRuns(bucketId: string | undefined, refreshKey?: string) {
+  const [runs, setRuns] = useState<DeployRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    if (!bucketId) return;
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/infrastructure/runs?bucketId=${bucketId}`);
+      if (!res.ok) throw new Error("Failed to fetch deploy runs");
+      setRuns(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [bucketId]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns, refreshKey]);
+
+  return { runs, loading, error, refetch: fetchRuns };
+}
+
+export async function fetchDeployRunLog(
+  runId: string
+): Promise<{ run: DeployRun; lines: DeployRunLogLine[] } | null> {
+  const res = await fetch(deployRunLogUrl(runId));
+  if (!res.ok) return null;
+  return res.json();
+}
+
+/** Replays a run's log into the terminal panel, keeping the original pacing up to MAX_REPLAY_GAP_MS. */
+export function useReplayDeployRun() {
+  const terminal = useTerminal();
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  const replay = useCallback(
+    async (run: DeployRun): Promise<boolean> => {
+      const archived = await fetchDeployRunLog(run.id);
+      if (!archived) return false;
+
+      stopRef.current = false;
+      setReplayingId(run.id);
+      terminal.setIsOpen(true);
+      const source = `Replay ${run.action}`;
+      terminal.log(
+        `Replaying ${run.action} of ${run.bucketName || run.s3BucketName} from ${new Date(run.startedAt).toLocaleString()}`,
+        "command",
+        source
+      );
+
+      let previousAt = 0;
+      for (const line of archived.lines) {
+        if (stopRef.current) break;
+        const gap = Math.min(Math.max(line.at - previousAt, 0), MAX_REPLAY_GAP_MS);
+        previousAt = line.at;
+        if (gap > 0) await new Promise((resolve) => setTimeout(resolve, gap));
+        terminal.log(
+          line.message || line.label || JSON.stringify(line),
+          line.level || "info",
+          source
+        );
+      }
+
+      terminal.log(stopRef.current ? "Replay stopped" : "Replay finished", "info", source);
+      setReplayingId(null);
+      return true;
+    },
+    [terminal]
+  );
+
+  const stop = useCallback(() => {
+    stopRef.current = true;
+  }, []);
+
+  return { replay, stop, replayingId };
+}
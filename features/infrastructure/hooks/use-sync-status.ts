@@ -2,7 +2,18 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import type { BucketSyncStatus } from "@/lib/types";
+import type { BucketConfig, BucketSyncStatus, StackDriftResult } from "@/lib/types";
+
+export type DriftAction = "reapply-drift" | "accept-drift";
+
+export interface DriftActionResult {
+  /** Re-applied settings, as "<logicalId>.<property>" */
+  restored?: string[];
+  /** Drift re-apply could not restore */
+  skipped?: string[];
+  /** The bucket config after accepting drift */
+  config?: BucketConfig;
+}
 
 export function useSyncStatus() {
   const [loading, setLoading] = useState(false);
@@ -78,6 +89,45 @@ export function useSyncStatus() {
     []
   );
 
+  const detectDrift = useCallback(
+    async (bucketId: string): Promise<StackDriftResult | null> => {
+      try {
+        setError(null);
+        const res = await fetch(
+          `/api/infrastructure?action=detect-drift&bucketId=${bucketId}`
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Drift detection failed");
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        return null;
+      }
+    },
+    []
+  );
+
+  const resolveDrift = useCallback(
+    async (
+      bucketId: string,
+      driftAction: DriftAction
+    ): Promise<DriftActionResult | null> => {
+      try {
+        setError(null);
+        const res = await fetch(
+          `/api/infrastructure?action=apply-sync&bucketId=${bucketId}&syncAction=${driftAction}`
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Drift action failed");
+        return data;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+        return null;
+      }
+    },
+    []
+  );
+
   return {
     loading,
     syncResults,
@@ -85,5 +135,7 @@ export function useSyncStatus() {
     checkBucketStatus,
     syncAll,
     applySync,
+    detectDrift,
+    resolveDrift,
   };
 }
@@ -23,6 +23,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { projectSchema, type ProjectFormValues, COMMON_MIME_TYPES } from "@/lib/validations";
+import { DEFAULT_OBJECT_KEY_TEMPLATE, OBJECT_KEY_PRESETS } from "@/lib/object-keys";
 import { X } from "lucide-react";
 import { useState } from "react";
 import { AnimatedDialog } from "@/components/animated-dialog";
@@ -59,6 +60,7 @@ export function CreateProjectDialog({
       environment: "dev",
       maxFileSizeMB: 10,
       allowedMimeTypes: ["image/jpeg", "image/png", "application/pdf"],
+      objectKeyTemplate: DEFAULT_OBJECT_KEY_TEMPLATE,
     },
   });
 
@@ -151,6 +153,33 @@ export function CreateProjectDialog({
               )}
             </div>
 
+            <div className="space-y-2">
+              <Label>Object Key Layout</Label>
+              <Select
+                defaultValue={DEFAULT_OBJECT_KEY_TEMPLATE}
+                onValueChange={(v) =>
+                  setValue("objectKeyTemplate", v, { shouldValidate: true })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OBJECT_KEY_PRESETS.map((preset) => (
+                    <SelectItem key={preset.template} value={preset.template}>
+                      {preset.label}{" "}
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {preset.template}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Custom templates can be set later from the project&apos;s Settings tab.
+              </p>
+            </div>
+
             <DialogFooter>
               <Button
                 type="button"
@@ -0,0 +1,404 @@
+// Project deletion dialog — shows what the project's buckets hold, then
+// reassigns, detaches or fully tears them down with per-bucket progress
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  ArrowRightLeft,
+  CheckCircle2,
+  Link2Off,
+  Loader2,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AnimatedDialog } from "@/components/animated-dialog";
+import { streamFullBucketDelete } from "@/features/buckets/hooks/use-buckets";
+import {
+  fetchProjectDeletionImpact,
+  useDeleteProject,
+} from "@/features/projects/hooks/use-projects";
+import type {
+  DeletionStep,
+  Project,
+  ProjectBucketDisposition,
+  ProjectDeletionImpact,
+} from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const DISPOSITIONS: {
+  id: ProjectBucketDisposition;
+  label: string;
+  description: string;
+  icon: React.ElementType;
+}[] = [
+  {
+    id: "reassign",
+    label: "Move buckets to another project",
+    description: "Buckets and their file records move to the project you pick.",
+    icon: ArrowRightLeft,
+  },
+  {
+    id: "detach",
+    label: "Detach buckets",
+    description: "Buckets stay deployed without a project, like imported buckets.",
+    icon: Link2Off,
+  },
+  {
+    id: "teardown",
+    label: "Tear down every bucket",
+    description:
+      "Each bucket's objects, CloudFront distribution and S3 bucket are deleted, then its records.",
+    icon: Trash2,
+  },
+];
+
+/** Steps streamed by DELETE /api/buckets?full=true */
+const STEP_LABELS: Record<string, string> = {
+  files: "Deleting objects",
+  cloudfront: "Removing CloudFront distribution",
+  bucket: "Deleting S3 bucket",
+  metadata: "Cleaning up records",
+};
+
+interface BucketProgress {
+  status: DeletionStep["status"];
+  step?: string;
+  error?: string;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+}
+
+interface DeleteProjectDialogProps {
+  project: Project | null;
+  /** All projects — the others are reassignment targets */
+  projects: Project[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the run, including a partial teardown, so lists can refresh */
+  onFinished: () => void;
+}
+
+export function DeleteProjectDialog({
+  project,
+  projects,
+  open,
+  onOpenChange,
+  onFinished,
+}: DeleteProjectDialogProps) {
+  const { deleteProject, error: deleteError } = useDeleteProject();
+  const [loaded, setLoaded] = useState<{
+    projectId: string;
+    impact: ProjectDeletionImpact | null;
+  } | null>(null);
+  const [disposition, setDisposition] = useState<ProjectBucketDisposition>("detach");
+  const [targetProjectId, setTargetProjectId] = useState("");
+  const [confirmName, setConfirmName] = useState("");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<Record<string, BucketProgress>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const projectId = open ? project?.id : undefined;
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    fetchProjectDeletionImpact(projectId).then((impact) => {
+      if (!cancelled) setLoaded({ projectId, impact });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  if (!project) return null;
+
+  const loading = open && loaded?.projectId !== project.id;
+  const impact = loading ? null : (loaded?.impact ?? null);
+  const buckets = impact?.buckets ?? [];
+  const targets = projects.filter((p) => p.id !== project.id);
+
+  const canDelete =
+    !running &&
+    !!impact &&
+    (buckets.length === 0 ||
+      (disposition === "reassign" && !!targetProjectId) ||
+      disposition === "detach" ||
+      (disposition === "teardown" && confirmName === project.name));
+
+  const reset = () => {
+    setLoaded(null);
+    setDisposition("detach");
+    setTargetProjectId("");
+    setConfirmName("");
+    setProgress({});
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (running) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const updateProgress = (bucketId: string, update: BucketProgress) =>
+    setProgress((prev) => ({ ...prev, [bucketId]: { ...prev[bucketId], ...update } }));
+
+  const handleDelete = async () => {
+    if (!impact) return;
+    setRunning(true);
+    setError(null);
+
+    if (buckets.length > 0 && disposition === "teardown") {
+      // One bucket at a time — each full delete streams its own steps
+      for (const bucket of buckets) {
+        // A retry skips buckets an earlier run already removed
+        if (progress[bucket.id]?.status === "done") continue;
+        updateProgress(bucket.id, { status: "running" });
+        let stepError: string | undefined;
+        try {
+          const result = await streamFullBucketDelete(bucket.id, (msg) => {
+            if (msg.step === "complete") return;
+            if (msg.status === "error") stepError ??= msg.error;
+            updateProgress(bucket.id, { status: "running", step: msg.step });
+          });
+          const failure = result.success ? stepError : result.error;
+          updateProgress(bucket.id, {
+            status: failure ? "error" : "done",
+            step: undefined,
+            error: failure,
+          });
+        } catch (e) {
+          updateProgress(bucket.id, {
+            status: "error",
+            step: undefined,
+            error: e instanceof Error ? e.message : "Deletion failed",
+          });
+        }
+      }
+    } else {
+      for (const bucket of buckets) updateProgress(bucket.id, { status: "running" });
+    }
+
+    // Fails while a torn-down bucket's record is still there
+    const deleted = await deleteProject(
+      project.id,
+      buckets.length > 0 && disposition !== "teardown"
+        ? { buckets: disposition, targetProjectId: targetProjectId || undefined }
+        : {}
+    );
+    if (disposition !== "teardown") {
+      for (const bucket of buckets) {
+        updateProgress(bucket.id, { status: deleted ? "done" : "error" });
+      }
+    }
+    setRunning(false);
+    onFinished();
+
+    if (deleted) {
+      toast.success(`Project "${project.name}" deleted`);
+      reset();
+      onOpenChange(false);
+    } else {
+      setError("The project was not deleted — see the bucket results above.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <AnimatedDialog open={open}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Delete project {project.name}</DialogTitle>
+            <DialogDescription>
+              Choose what happens to the project&apos;s buckets before it is removed.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="size-4 animate-spin" /> Checking the project&apos;s buckets…
+            </div>
+          ) : !impact ? (
+            <p className="py-4 text-sm text-destructive">
+              Could not load what the project contains.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  { label: "Buckets", value: buckets.length },
+                  { label: "Stacks", value: impact.stackCount },
+                  { label: "Objects", value: impact.fileCount },
+                  { label: "Stored", value: formatBytes(impact.totalBytes) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-md border p-2">
+                    <p className="text-lg font-semibold">{value}</p>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {buckets.length > 0 && (
+                <>
+                  <div className="max-h-48 space-y-1.5 overflow-auto">
+                    {buckets.map((bucket) => {
+                      const state = progress[bucket.id];
+                      return (
+                        <div
+                          key={bucket.id}
+                          className={cn(
+                            "flex items-center gap-2 rounded-md border px-3 py-2 text-sm",
+                            state?.status === "error" && "border-destructive/50"
+                          )}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="truncate font-medium">{bucket.name}</span>
+                              {bucket.hasStack && (
+                                <Badge variant="outline" className="text-[10px]">
+                                  Stack
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {state?.error ??
+                                (state?.step
+                                  ? `${STEP_LABELS[state.step] ?? state.step}…`
+                                  : `${bucket.s3BucketName} · ${bucket.fileCount} objects · ${formatBytes(bucket.totalBytes)}`)}
+                            </p>
+                          </div>
+                          {state?.status === "running" && (
+                            <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />
+                          )}
+                          {state?.status === "done" && (
+                            <CheckCircle2 className="size-4 shrink-0 text-green-500" />
+                          )}
+                          {state?.status === "error" && (
+                            <XCircle className="size-4 shrink-0 text-destructive" />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="space-y-2">
+                    {DISPOSITIONS.map(({ id, label, description, icon: Icon }) => (
+                      <button
+                        key={id}
+                        type="button"
+                        disabled={running || (id === "reassign" && targets.length === 0)}
+                        onClick={() => setDisposition(id)}
+                        className={cn(
+                          "flex w-full items-start gap-3 rounded-md border p-3 text-left transition-colors disabled:opacity-50",
+                          disposition === id
+                            ? id === "teardown"
+                              ? "border-destructive bg-destructive/5"
+                              : "border-primary bg-primary/5"
+                            : "hover:bg-muted/50"
+                        )}
+                      >
+                        <Icon
+                          className={cn(
+                            "mt-0.5 size-4 shrink-0",
+                            id === "teardown" ? "text-destructive" : "text-muted-foreground"
+                          )}
+                        />
+                        <span className="space-y-0.5">
+                          <span className="block text-sm font-medium">{label}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {description}
+                          </span>
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+
+                  {disposition === "reassign" && (
+                    <div className="space-y-1.5">
+                      <Label className="text-sm font-normal">Move buckets to</Label>
+                      <Select
+                        value={targetProjectId}
+                        onValueChange={setTargetProjectId}
+                        disabled={running}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a project" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {targets.map((p) => (
+                            <SelectItem key={p.id} value={p.id}>
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {disposition === "teardown" && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="delete-project-confirm" className="text-sm font-normal">
+                        Type <span className="font-mono font-medium">{project.name}</span> to
+                        confirm
+                      </Label>
+                      <Input
+                        id="delete-project-confirm"
+                        value={confirmName}
+                        disabled={running}
+                        onChange={(e) => setConfirmName(e.target.value)}
+                        autoComplete="off"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
+              {(error || deleteError) && (
+                <p className="text-sm text-destructive">{deleteError ?? error}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" disabled={running} onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={!canDelete} onClick={handleDelete}>
+              {running ? (
+                <Loader2 className="mr-1.5 size-3.5 animate-spin" />
+              ) : (
+                <Trash2 className="mr-1.5 size-3.5" />
+              )}
+              Delete Project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </AnimatedDialog>
+    </Dialog>
+  );
+}
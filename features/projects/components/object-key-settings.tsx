@@ -0,0 +1,161 @@
+// Project settings card for the object key template — presets, token reference, live preview
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { KeyRound, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  OBJECT_KEY_PRESETS,
+  OBJECT_KEY_TOKENS,
+  renderObjectKey,
+  templateNeedsCollisionSuffix,
+  validateObjectKeyTemplate,
+} from "@/lib/object-keys";
+import { useUpdateProject } from "@/features/projects/hooks/use-projects";
+import type { Project } from "@/lib/types";
+
+const CUSTOM_PRESET = "__custom__";
+
+interface ObjectKeySettingsProps {
+  project: Project;
+  onSaved?: () => void;
+}
+
+export function ObjectKeySettings({ project, onSaved }: ObjectKeySettingsProps) {
+  const [template, setTemplate] = useState(project.objectKeyTemplate);
+  const { updateProject, loading } = useUpdateProject();
+
+  const problem = validateObjectKeyTemplate(template);
+  const dirty = template !== project.objectKeyTemplate;
+  const preset =
+    OBJECT_KEY_PRESETS.find((p) => p.template === template)?.template ?? CUSTOM_PRESET;
+
+  const preview = problem
+    ? null
+    : renderObjectKey(template, {
+        prefix: "avatars",
+        projectId: project.id,
+        fileName: "profile-photo.jpg",
+        contentHash: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+        linkedModel: "user",
+        linkedModelId: "42",
+        uuid: "3f2b8c1e-7d4a-4e9b-a1c6-5e8f0d2b9a74",
+        date: new Date(),
+      });
+
+  const handleSave = async () => {
+    const updated = await updateProject(project.id, { objectKeyTemplate: template });
+    if (updated) {
+      toast.success("Object key template saved");
+      onSaved?.();
+    } else {
+      toast.error("Failed to save object key template");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="size-4" />
+          Object Keys
+        </CardTitle>
+        <CardDescription>
+          How S3 keys are named for new uploads. Existing objects keep their keys.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[200px_1fr]">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <Select
+              value={preset}
+              onValueChange={(v) => v !== CUSTOM_PRESET && setTemplate(v)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OBJECT_KEY_PRESETS.map((p) => (
+                  <SelectItem key={p.template} value={p.template}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_PRESET}>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="object-key-template">Template</Label>
+            <Input
+              id="object-key-template"
+              className="font-mono text-sm"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {problem ? (
+          <p className="text-sm text-destructive">{problem}</p>
+        ) : (
+          <div className="rounded-md border bg-muted/40 px-3 py-2 text-sm">
+            <span className="text-muted-foreground">Preview: </span>
+            <span className="font-mono break-all">{preview}</span>
+            {templateNeedsCollisionSuffix(template) && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Keys can repeat, so a second upload of the same name gets a suffix
+                (profile-photo-2.jpg) instead of overwriting the first.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-x-6 gap-y-1 text-xs sm:grid-cols-2">
+          {Object.entries(OBJECT_KEY_TOKENS).map(([token, description]) => (
+            <button
+              key={token}
+              type="button"
+              className="flex gap-2 text-left hover:text-primary"
+              onClick={() => setTemplate((t) => `${t}{${token}}`)}
+            >
+              <span className="font-mono">{`{${token}}`}</span>
+              <span className="text-muted-foreground">{description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={!dirty || loading}
+            onClick={() => setTemplate(project.objectKeyTemplate)}
+          >
+            Reset
+          </Button>
+          <Button disabled={!dirty || !!problem || loading} onClick={handleSave}>
+            {loading && <Loader2 className="mr-1.5 size-3.5 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
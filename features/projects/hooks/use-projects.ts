@@ -2,7 +2,12 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { Project, ProjectFormData } from "@/lib/types";
+import type {
+  Project,
+  ProjectBucketDisposition,
+  ProjectDeletionImpact,
+  ProjectFormData,
+} from "@/lib/types";
 
 export function useProjects() {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -60,20 +65,82 @@ export function useCreateProject() {
   return { createProject, loading, error };
 }
 
+export function useUpdateProject() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateProject = async (
+    id: string,
+    updates: Partial<ProjectFormData>
+  ): Promise<Project | null> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch("/api/projects", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, ...updates }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to update project");
+      }
+      return await res.json();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { updateProject, loading, error };
+}
+
 export function useDeleteProject() {
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const deleteProject = async (id: string): Promise<boolean> => {
+  /**
+   * Delete a project. A project that still has buckets needs `buckets` —
+   * torn-down buckets are deleted with streamFullBucketDelete beforehand.
+   */
+  const deleteProject = async (
+    id: string,
+    options: { buckets?: Exclude<ProjectBucketDisposition, "teardown">; targetProjectId?: string } = {}
+  ): Promise<boolean> => {
     try {
       setLoading(true);
-      const res = await fetch(`/api/projects?id=${id}`, { method: "DELETE" });
-      return res.ok;
-    } catch {
+      setError(null);
+      const params = new URLSearchParams({ id });
+      if (options.buckets) params.set("buckets", options.buckets);
+      if (options.targetProjectId) params.set("targetProjectId", options.targetProjectId);
+      const res = await fetch(`/api/projects?${params}`, { method: "DELETE" });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to delete project");
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
       return false;
     } finally {
       setLoading(false);
     }
   };
 
-  return { deleteProject, loading };
+  return { deleteProject, loading, error };
+}
+
+/** Buckets, stacks and stored bytes that deleting the project affects. */
+export async function fetchProjectDeletionImpact(
+  id: string
+): Promise<ProjectDeletionImpact | null> {
+  try {
+    const res = await fetch(`/api/projects?id=${id}&impact=true`);
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
 }
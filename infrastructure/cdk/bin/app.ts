@@ -1,15 +1,59 @@
-// CDK app entry point - creates S3 + CloudFront stack
+// CDK app entry point - creates S3 + CloudFront stack, plus a us-east-1 WAF stack when needed
 import "source-map-support/register";
 import * as cdk from "aws-cdk-lib";
-import { StorageBucketStack } from "../lib/storage-bucket-stack";
+import {
+  StorageBucketStack,
+  type StorageBucketConfig,
+} from "../lib/storage-bucket-stack";
+import { DistributionWafStack } from "../lib/distribution-waf-stack";
+
+const DEFAULT_CONFIG: StorageBucketConfig = {
+  versioning: false,
+  encryption: "s3",
+  backupEnabled: false,
+  maxFileSizeMB: 100,
+  originAccess: "oac",
+  privateDelivery: false,
+  securityHeaders: false,
+};
+
+/** The bucket's saved config, passed by the dashboard as JSON in SCR_BUCKET_CONFIG. */
+function readBucketConfig(raw: string | undefined): StorageBucketConfig {
+  if (!raw) return DEFAULT_CONFIG;
+  const config = { ...DEFAULT_CONFIG, ...JSON.parse(raw) } as StorageBucketConfig;
+  if (!["s3", "kms", "none"].includes(config.encryption)) {
+    throw new Error(`Invalid encryption "${config.encryption}" in SCR_BUCKET_CONFIG`);
+  }
+  if (!["oai", "oac"].includes(config.originAccess)) {
+    throw new Error(`Invalid originAccess "${config.originAccess}" in SCR_BUCKET_CONFIG`);
+  }
+  return config;
+}
 
 const app = new cdk.App();
 
 const bucketName = process.env.SCR_BUCKET_NAME || "scr-default-bucket";
 const region = process.env.SCR_REGION || "eu-north-1";
 const account = process.env.SCR_ACCOUNT || process.env.CDK_DEFAULT_ACCOUNT;
+const config = readBucketConfig(process.env.SCR_BUCKET_CONFIG);
+
+// CloudFront only attaches web ACLs created in us-east-1
+const usesWaf = !!config.wafRateLimit || (config.wafBlockedCountries?.length ?? 0) > 0;
+const waf = usesWaf
+  ? new DistributionWafStack(app, `SCR-${bucketName}-waf`, {
+      env: { region: "us-east-1", account },
+      bucketName,
+      rateLimit: config.wafRateLimit,
+      blockedCountries: config.wafBlockedCountries,
+    })
+  : undefined;
 
 new StorageBucketStack(app, `SCR-${bucketName}`, {
   env: { region, account },
+  // The ACL ARN crosses regions through an SSM parameter CDK manages
+  crossRegionReferences: !!waf && region !== "us-east-1",
   bucketName,
+  config,
+  signingPublicKey: process.env.SCR_SIGNING_PUBLIC_KEY || undefined,
+  webAclArn: waf?.webAclArn,
 });
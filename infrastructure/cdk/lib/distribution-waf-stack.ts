@@ -0,0 +1,67 @@
+// CDK Stack - WAF web ACL for a bucket's CloudFront distribution (always us-east-1)
+import * as cdk from "aws-cdk-lib";
+import * as wafv2 from "aws-cdk-lib/aws-wafv2";
+import { Construct } from "constructs";
+
+interface DistributionWafStackProps extends cdk.StackProps {
+  bucketName: string;
+  /** Requests per IP in any 5-minute window before the IP is blocked */
+  rateLimit?: number;
+  /** ISO 3166 country codes whose viewers are blocked */
+  blockedCountries?: string[];
+}
+
+export class DistributionWafStack extends cdk.Stack {
+  /** Attached to the distribution through its webAclId */
+  readonly webAclArn: string;
+
+  constructor(scope: Construct, id: string, props: DistributionWafStackProps) {
+    super(scope, id, props);
+
+    // Web ACLs for CloudFront are global resources managed from us-east-1
+    if (props.env?.region !== "us-east-1") {
+      throw new Error("A CloudFront web ACL must be deployed to us-east-1");
+    }
+
+    const metrics = (metricName: string): wafv2.CfnWebACL.VisibilityConfigProperty => ({
+      cloudWatchMetricsEnabled: true,
+      sampledRequestsEnabled: true,
+      metricName,
+    });
+
+    const rules: wafv2.CfnWebACL.RuleProperty[] = [];
+    if (props.blockedCountries?.length) {
+      rules.push({
+        name: "GeoBlock",
+        priority: rules.length,
+        action: { block: {} },
+        statement: { geoMatchStatement: { countryCodes: props.blockedCountries } },
+        visibilityConfig: metrics("GeoBlock"),
+      });
+    }
+    if (props.rateLimit) {
+      rules.push({
+        name: "RateLimit",
+        priority: rules.length,
+        action: { block: {} },
+        statement: {
+          rateBasedStatement: { limit: props.rateLimit, aggregateKeyType: "IP" },
+        },
+        visibilityConfig: metrics("RateLimit"),
+      });
+    }
+
+    const webAcl = new wafv2.CfnWebACL(this, "WebAcl", {
+      name: `${props.bucketName}-cdn`,
+      scope: "CLOUDFRONT",
+      defaultAction: { allow: {} },
+      rules,
+      visibilityConfig: metrics(`${props.bucketName}-cdn`),
+    });
+    this.webAclArn = webAcl.attrArn;
+
+    new cdk.CfnOutput(this, "WebAclArn", {
+      value: webAcl.attrArn,
+    });
+  }
+}
@@ -1,19 +1,104 @@
 // CDK Stack - provisions S3 bucket with CloudFront distribution and IAM policy
 import * as cdk from "aws-cdk-lib";
 import * as s3 from "aws-cdk-lib/aws-s3";
+import * as kms from "aws-cdk-lib/aws-kms";
+import * as backup from "aws-cdk-lib/aws-backup";
+import * as acm from "aws-cdk-lib/aws-certificatemanager";
 import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
 import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as events from "aws-cdk-lib/aws-events";
 import { Construct } from "constructs";
 
+/** Mirrors BucketConfig in the dashboard's lib/types.ts */
+export interface StorageBucketConfig {
+  versioning: boolean;
+  encryption: "s3" | "kms" | "none";
+  backupEnabled: boolean;
+  maxFileSizeMB: number;
+  /** How CloudFront reads the bucket — "oai" only for stacks created before OAC */
+  originAccess: "oai" | "oac";
+  /** Require CloudFront-signed URLs or cookies from viewers */
+  privateDelivery: boolean;
+  /** Attach the HSTS / CSP / nosniff response headers policy */
+  securityHeaders: boolean;
+  /** WAF options — applied by the SCR-<bucket>-waf stack, see webAclArn */
+  wafRateLimit?: number;
+  wafBlockedCountries?: string[];
+  /** Sites allowed to embed files — other Referer hosts get a 403 */
+  hotlinkDomains?: string[];
+  /** Alias for the distribution, served with certificateArn (ACM, us-east-1) */
+  customDomain?: string;
+  certificateArn?: string;
+}
+
 interface StorageBucketStackProps extends cdk.StackProps {
   bucketName: string;
+  config: StorageBucketConfig;
+  /** PEM public key for the key group — the dashboard keeps the private key */
+  signingPublicKey?: string;
+  /** Web ACL from the us-east-1 DistributionWafStack, when the WAF is on */
+  webAclArn?: string;
+}
+
+/**
+ * Viewer-request function that rejects requests whose Referer is not one of
+ * the allowed sites or their subdomains. Requests without a Referer pass, so
+ * direct links, curl and privacy-conscious browsers keep working.
+ */
+function hotlinkFunctionCode(domains: string[]): string {
+  return `var ALLOWED = ${JSON.stringify(domains)};
+
+function handler(event) {
+  var referer = event.request.headers.referer;
+  if (!referer) return event.request;
+  var match = referer.value.match(/^https?:\\/\\/([^/:?#]+)/i);
+  var host = match ? match[1].toLowerCase() : "";
+  for (var i = 0; i < ALLOWED.length; i++) {
+    var domain = ALLOWED[i];
+    if (host === domain || host.endsWith("." + domain)) return event.request;
+  }
+  return { statusCode: 403, statusDescription: "Forbidden" };
+}
+`;
 }
 
 export class StorageBucketStack extends cdk.Stack {
   constructor(scope: Construct, id: string, props: StorageBucketStackProps) {
     super(scope, id, props);
 
+    const { config } = props;
+    if (config.backupEnabled && !config.versioning) {
+      throw new Error("AWS Backup requires versioning — enable versioning for this bucket");
+    }
+    if (config.encryption === "kms" && config.originAccess === "oai") {
+      throw new Error("SSE-KMS buckets need Origin Access Control — an OAI cannot decrypt KMS objects");
+    }
+    if (!!config.customDomain !== !!config.certificateArn) {
+      throw new Error("A custom domain needs a certificate ARN, and a certificate ARN needs a domain");
+    }
+    if (config.privateDelivery && !props.signingPublicKey) {
+      throw new Error("Private delivery needs the signing public key in SCR_SIGNING_PUBLIC_KEY");
+    }
+
+    // Customer-managed key for SSE-KMS buckets
+    const encryptionKey =
+      config.encryption === "kms"
+        ? new kms.Key(this, "BucketKey", {
+            alias: `alias/${props.bucketName}`,
+            description: `Encrypts objects in ${props.bucketName}`,
+            enableKeyRotation: true,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+          })
+        : undefined;
+
+    // "none" leaves default encryption unset — S3 still applies SSE-S3 to new objects
+    const encryption = {
+      s3: s3.BucketEncryption.S3_MANAGED,
+      kms: s3.BucketEncryption.KMS,
+      none: undefined,
+    }[config.encryption];
+
     // S3 Bucket with CORS for direct uploads
     const bucket = new s3.Bucket(this, "StorageBucket", {
       bucketName: props.bucketName,
@@ -26,32 +111,120 @@ export class StorageBucketStack extends cdk.Stack {
             s3.HttpMethods.POST,
           ],
           allowedHeaders: ["*"],
+          // Browsers need the part ETag to complete multipart uploads
+          exposedHeaders: ["ETag"],
           maxAge: 3600,
         },
       ],
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
       removalPolicy: cdk.RemovalPolicy.RETAIN,
-      encryption: s3.BucketEncryption.S3_MANAGED,
+      versioned: config.versioning,
+      encryption,
+      encryptionKey,
+      // Fewer KMS requests (and lower cost) for SSE-KMS
+      bucketKeyEnabled: config.encryption === "kms" ? true : undefined,
     });
 
-    // CloudFront Origin Access Identity
-    const oai = new cloudfront.OriginAccessIdentity(this, "OAI", {
-      comment: `OAI for ${props.bucketName}`,
-    });
+    // CloudFront origin — an Origin Access Control scopes the bucket policy to
+    // this distribution and, for KMS buckets, grants the CloudFront service
+    // principal kms:Decrypt in the key policy
+    let origin: cloudfront.IOrigin;
+    let cloudFrontPrincipal: iam.IPrincipal;
+    if (config.originAccess === "oac") {
+      origin = origins.S3BucketOrigin.withOriginAccessControl(bucket);
+      cloudFrontPrincipal = new iam.ServicePrincipal("cloudfront.amazonaws.com");
+    } else {
+      // Legacy Origin Access Identity, kept until the bucket is migrated to OAC
+      const oai = new cloudfront.OriginAccessIdentity(this, "OAI", {
+        comment: `OAI for ${props.bucketName}`,
+      });
+
+      bucket.grantRead(oai);
+      origin = origins.S3BucketOrigin.withOriginAccessIdentity(bucket, {
+        originAccessIdentity: oai,
+      });
+      cloudFrontPrincipal = oai.grantPrincipal;
+    }
+
+    // Objects that failed content inspection are never served
+    bucket.addToResourcePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.DENY,
+        principals: [cloudFrontPrincipal],
+        actions: ["s3:GetObject"],
+        resources: [bucket.arnForObjects("quarantine/*")],
+      })
+    );
 
-    bucket.grantRead(oai);
+    // Private delivery — viewers need a URL or cookies signed with the key
+    // group's private key
+    let signingKey: cloudfront.PublicKey | undefined;
+    let keyGroup: cloudfront.KeyGroup | undefined;
+    if (config.privateDelivery && props.signingPublicKey) {
+      signingKey = new cloudfront.PublicKey(this, "SigningPublicKey", {
+        encodedKey: props.signingPublicKey,
+        comment: `Signs private URLs for ${props.bucketName}`,
+      });
+      keyGroup = new cloudfront.KeyGroup(this, "SigningKeyGroup", {
+        items: [signingKey],
+      });
+    }
 
-    // CloudFront Distribution
+    // Security headers on every response — files are never rendered as pages of
+    // this origin, so the CSP only allows the file itself and sandboxes it
+    const responseHeadersPolicy = config.securityHeaders
+      ? new cloudfront.ResponseHeadersPolicy(this, "SecurityHeaders", {
+          comment: `Security headers for ${props.bucketName}`,
+          securityHeadersBehavior: {
+            strictTransportSecurity: {
+              accessControlMaxAge: cdk.Duration.days(365),
+              includeSubdomains: true,
+              override: true,
+            },
+            contentTypeOptions: { override: true },
+            contentSecurityPolicy: {
+              contentSecurityPolicy:
+                "default-src 'none'; img-src 'self'; media-src 'self'; style-src 'unsafe-inline'; sandbox",
+              override: true,
+            },
+          },
+        })
+      : undefined;
+
+    // Hotlink protection — checked at the edge before the cache
+    const hotlinkFunction = config.hotlinkDomains?.length
+      ? new cloudfront.Function(this, "HotlinkProtection", {
+          comment: `Referer check for ${props.bucketName}`,
+          runtime: cloudfront.FunctionRuntime.JS_2_0,
+          code: cloudfront.FunctionCode.fromInline(hotlinkFunctionCode(config.hotlinkDomains)),
+        })
+      : undefined;
+
+    // CloudFront Distribution, with the custom domain as an alias when set —
+    // the certificate lives in us-east-1 and is imported by ARN
     const distribution = new cloudfront.Distribution(this, "Distribution", {
+      domainNames: config.customDomain ? [config.customDomain] : undefined,
+      certificate: config.certificateArn
+        ? acm.Certificate.fromCertificateArn(this, "Certificate", config.certificateArn)
+        : undefined,
       defaultBehavior: {
-        origin: origins.S3BucketOrigin.withOriginAccessIdentity(bucket, {
-          originAccessIdentity: oai,
-        }),
+        origin,
         viewerProtocolPolicy:
           cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
         allowedMethods: cloudfront.AllowedMethods.ALLOW_GET_HEAD,
         cachePolicy: cloudfront.CachePolicy.CACHING_OPTIMIZED,
+        trustedKeyGroups: keyGroup ? [keyGroup] : undefined,
+        responseHeadersPolicy,
+        functionAssociations: hotlinkFunction
+          ? [
+              {
+                function: hotlinkFunction,
+                eventType: cloudfront.FunctionEventType.VIEWER_REQUEST,
+              },
+            ]
+          : undefined,
       },
+      webAclId: props.webAclArn,
     });
 
     // Minimal IAM policy for presigned URL generation
@@ -69,6 +242,52 @@ export class StorageBucketStack extends cdk.Stack {
         }),
       ],
     });
+    if (encryptionKey) {
+      // Presigned uploads and downloads are signed by holders of this policy
+      uploadPolicy.addStatements(
+        new iam.PolicyStatement({
+          effect: iam.Effect.ALLOW,
+          actions: ["kms:Encrypt", "kms:Decrypt", "kms:GenerateDataKey*"],
+          resources: [encryptionKey.keyArn],
+        })
+      );
+    }
+
+    // Daily AWS Backup of the bucket (S3 backups require versioning)
+    let backupPlan: backup.BackupPlan | undefined;
+    let backupVault: backup.BackupVault | undefined;
+    if (config.backupEnabled) {
+      backupVault = new backup.BackupVault(this, "BackupVault", {
+        backupVaultName: `${props.bucketName}-vault`,
+        encryptionKey,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+      });
+      backupPlan = new backup.BackupPlan(this, "BackupPlan", {
+        backupPlanName: `${props.bucketName}-daily`,
+        backupVault,
+        backupPlanRules: [
+          new backup.BackupPlanRule({
+            ruleName: "Daily",
+            scheduleExpression: events.Schedule.cron({ hour: "3", minute: "0" }),
+            deleteAfter: cdk.Duration.days(35),
+          }),
+        ],
+      });
+      // The default selection role only covers the generic backup policies
+      const backupRole = new iam.Role(this, "BackupRole", {
+        assumedBy: new iam.ServicePrincipal("backup.amazonaws.com"),
+        managedPolicies: [
+          iam.ManagedPolicy.fromAwsManagedPolicyName("AWSBackupServiceRolePolicyForS3Backup"),
+          iam.ManagedPolicy.fromAwsManagedPolicyName("AWSBackupServiceRolePolicyForS3Restore"),
+        ],
+      });
+      encryptionKey?.grantEncryptDecrypt(backupRole);
+      backupPlan.addSelection("BucketSelection", {
+        resources: [backup.BackupResource.fromArn(bucket.bucketArn)],
+        role: backupRole,
+        allowRestores: true,
+      });
+    }
 
     // Outputs
     new cdk.CfnOutput(this, "BucketName", {
@@ -87,8 +306,46 @@ export class StorageBucketStack extends cdk.Stack {
       value: distribution.distributionId,
     });
 
+    if (config.customDomain) {
+      new cdk.CfnOutput(this, "CustomDomain", {
+        value: config.customDomain,
+      });
+    }
+
+    if (signingKey && keyGroup) {
+      new cdk.CfnOutput(this, "SigningKeyPairId", {
+        value: signingKey.publicKeyId,
+      });
+
+      new cdk.CfnOutput(this, "KeyGroupId", {
+        value: keyGroup.keyGroupId,
+      });
+    }
+
+    if (props.webAclArn) {
+      new cdk.CfnOutput(this, "WebAclArn", {
+        value: props.webAclArn,
+      });
+    }
+
     new cdk.CfnOutput(this, "UploadPolicyArn", {
       value: uploadPolicy.managedPolicyArn,
     });
+
+    if (encryptionKey) {
+      new cdk.CfnOutput(this, "KmsKeyArn", {
+        value: encryptionKey.keyArn,
+      });
+    }
+
+    if (backupPlan && backupVault) {
+      new cdk.CfnOutput(this, "BackupPlanId", {
+        value: backupPlan.backupPlanId,
+      });
+
+      new cdk.CfnOutput(this, "BackupVaultName", {
+        value: backupVault.backupVaultName,
+      });
+    }
   }
 }
@@ -0,0 +1,12 @@
+// Next.js startup hook — opens the data store so schema migrations run before
+// the first request, then starts the upload session reconciler
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { getStorageDriver } = await import("@/lib/storage");
+    await getStorageDriver();
+
+    const { startUploadReconciler } = await import("@/lib/upload-sessions");
+    startUploadReconciler();
+  }
+}
@@ -1,5 +1,6 @@
 // AWS SDK v3 client configuration, presigned URLs, and resource deletion
 
+import { createHash } from "crypto";
 import {
   S3Client,
   PutObjectCommand,
@@ -10,6 +11,14 @@ import {
   CopyObjectCommand,
   ListBucketsCommand,
   GetBucketLocationCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  ListObjectVersionsCommand,
 } from "@aws-sdk/client-s3";
 import {
   CloudFrontClient,
@@ -18,8 +27,28 @@ import {
   DeleteDistributionCommand,
   GetDistributionConfigCommand,
   ListDistributionsCommand,
+  CreateInvalidationCommand,
+  ListInvalidationsCommand,
+  GetInvalidationCommand,
+  GetCachePolicyCommand,
 } from "@aws-sdk/client-cloudfront";
+import type { DistributionConfig } from "@aws-sdk/client-cloudfront";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
+import { getCdnDomain, usesWaf } from "./bucket-config";
+import type {
+  Bucket,
+  BucketConfig,
+  CloudFrontInvalidation,
+  DistributionSettings,
+  DistributionSettingsSnapshot,
+  DnsRecord,
+  DriftPropertyDifference,
+  OriginAccessMode,
+  ResourceDrift,
+  StackDriftResult,
+  StackEvent,
+} from "./types";
 
 const REGION = process.env.AWS_REGION || "us-east-1";
 
@@ -46,6 +75,181 @@ export async function generatePresignedUploadUrl(
   return getSignedUrl(client, command, { expiresIn: 3600 });
 }
 
+/**
+ * Presigned POST policy — unlike a presigned PUT, S3 itself rejects uploads
+ * larger than maxBytes or sent with a different Content-Type.
+ */
+export async function generatePresignedUploadPost(
+  bucketName: string,
+  objectKey: string,
+  contentType: string,
+  maxBytes: number,
+  region?: string,
+): Promise<{ url: string; fields: Record<string, string> }> {
+  const client = getS3Client(region);
+  return createPresignedPost(client, {
+    Bucket: bucketName,
+    Key: objectKey,
+    Conditions: [
+      ["content-length-range", 1, maxBytes],
+      ["eq", "$Content-Type", contentType],
+    ],
+    Fields: { "Content-Type": contentType },
+    Expires: 3600,
+  });
+}
+
+// ── Multipart uploads ────────────────────────────────────────────────────────
+
+const MIN_PART_SIZE = 8 * 1024 * 1024; // S3 minimum is 5 MiB; 8 MiB keeps part counts low
+const MAX_PARTS = 10000;
+
+/** Pick a part size that keeps the upload within S3's 10,000-part limit. */
+export function chooseMultipartPartSize(fileSize: number): number {
+  const minForLimit = Math.ceil(fileSize / MAX_PARTS);
+  const mb = 1024 * 1024;
+  return Math.max(MIN_PART_SIZE, Math.ceil(minForLimit / mb) * mb);
+}
+
+export async function createMultipartUpload(
+  bucketName: string,
+  objectKey: string,
+  contentType: string,
+  region?: string,
+): Promise<string> {
+  const client = getS3Client(region);
+  const res = await client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectKey,
+      ContentType: contentType,
+    }),
+  );
+  if (!res.UploadId) throw new Error("S3 did not return an upload ID");
+  return res.UploadId;
+}
+
+/** Sign one PUT URL per part number. */
+export async function generatePresignedPartUrls(
+  bucketName: string,
+  objectKey: string,
+  uploadId: string,
+  partNumbers: number[],
+  region?: string,
+): Promise<{ partNumber: number; url: string }[]> {
+  const client = getS3Client(region);
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await getSignedUrl(
+        client,
+        new UploadPartCommand({
+          Bucket: bucketName,
+          Key: objectKey,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+        }),
+        { expiresIn: 3600 },
+      ),
+    })),
+  );
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+/** List the parts S3 has already received for an in-progress upload. */
+export async function listUploadedParts(
+  bucketName: string,
+  objectKey: string,
+  uploadId: string,
+  region?: string,
+): Promise<UploadedPart[]> {
+  const client = getS3Client(region);
+  const parts: UploadedPart[] = [];
+  let marker: string | undefined;
+
+  do {
+    const res = await client.send(
+      new ListPartsCommand({
+        Bucket: bucketName,
+        Key: objectKey,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      }),
+    );
+    for (const p of res.Parts ?? []) {
+      if (p.PartNumber && p.ETag) {
+        parts.push({ partNumber: p.PartNumber, size: p.Size ?? 0, etag: p.ETag });
+      }
+    }
+    marker = res.IsTruncated ? res.NextPartNumberMarker : undefined;
+  } while (marker);
+
+  return parts;
+}
+
+/**
+ * Complete a multipart upload. ETags are read back from S3 with ListParts,
+ * so the browser does not need CORS access to the ETag response header.
+ * Part URLs carry no size condition, so the parts must add up to the size
+ * declared when the upload was prepared.
+ */
+export async function completeMultipartUpload(
+  bucketName: string,
+  objectKey: string,
+  uploadId: string,
+  expectedParts: number,
+  expectedSize: number | undefined,
+  region?: string,
+): Promise<{ etag?: string; location?: string }> {
+  const parts = await listUploadedParts(bucketName, objectKey, uploadId, region);
+  if (parts.length !== expectedParts) {
+    throw new Error(
+      `Only ${parts.length} of ${expectedParts} parts have been uploaded`,
+    );
+  }
+  const uploadedSize = parts.reduce((sum, p) => sum + p.size, 0);
+  if (expectedSize !== undefined && uploadedSize !== expectedSize) {
+    throw new Error(
+      `The parts add up to ${uploadedSize} bytes but the upload was declared as ${expectedSize} bytes`,
+    );
+  }
+  const client = getS3Client(region);
+  const res = await client.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectKey,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: parts
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+      },
+    }),
+  );
+  return { etag: res.ETag, location: res.Location };
+}
+
+export async function abortMultipartUpload(
+  bucketName: string,
+  objectKey: string,
+  uploadId: string,
+  region?: string,
+): Promise<void> {
+  const client = getS3Client(region);
+  await client.send(
+    new AbortMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: objectKey,
+      UploadId: uploadId,
+    }),
+  );
+}
+
 export async function deleteS3Object(
   bucketName: string,
   objectKey: string,
@@ -59,6 +263,84 @@ export async function deleteS3Object(
   await client.send(command);
 }
 
+export interface S3ObjectHead {
+  size: number;
+  etag: string;
+  contentType: string;
+  checksumSHA256?: string;
+  lastModified?: string;
+}
+
+/** HeadObject wrapper — resolves to null when the object does not exist. */
+export async function headS3Object(
+  bucketName: string,
+  objectKey: string,
+  region?: string,
+): Promise<S3ObjectHead | null> {
+  const client = getS3Client(region);
+  try {
+    const res = await client.send(
+      new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: objectKey,
+        ChecksumMode: "ENABLED",
+      }),
+    );
+    return {
+      size: res.ContentLength ?? 0,
+      etag: (res.ETag ?? "").replace(/"/g, ""),
+      contentType: res.ContentType ?? "application/octet-stream",
+      checksumSHA256: res.ChecksumSHA256,
+      lastModified: res.LastModified?.toISOString(),
+    };
+  } catch (err) {
+    const name = (err as { name?: string }).name;
+    const status = (err as { $metadata?: { httpStatusCode?: number } })
+      .$metadata?.httpStatusCode;
+    if (name === "NotFound" || name === "NoSuchKey" || status === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/** First `length` bytes of an object — enough to sniff its file signature. */
+export async function readS3ObjectStart(
+  bucketName: string,
+  objectKey: string,
+  length: number,
+  region?: string,
+): Promise<Uint8Array> {
+  const client = getS3Client(region);
+  const res = await client.send(
+    new GetObjectCommand({
+      Bucket: bucketName,
+      Key: objectKey,
+      Range: `bytes=0-${length - 1}`,
+    }),
+  );
+  return res.Body ? res.Body.transformToByteArray() : new Uint8Array();
+}
+
+/** SHA-256 (hex) of an object's content, streamed from S3 rather than buffered. */
+export async function sha256OfS3Object(
+  bucketName: string,
+  objectKey: string,
+  region?: string,
+): Promise<string> {
+  const client = getS3Client(region);
+  const res = await client.send(
+    new GetObjectCommand({ Bucket: bucketName, Key: objectKey }),
+  );
+  const hash = createHash("sha256");
+  if (res.Body) {
+    for await (const chunk of res.Body as AsyncIterable<Uint8Array>) {
+      hash.update(chunk);
+    }
+  }
+  return hash.digest("hex");
+}
+
 /** Empty a bucket by listing and deleting all objects (incl. versions if any). */
 export async function emptyBucket(
   bucketName: string,
@@ -95,6 +377,36 @@ export async function emptyBucket(
       : undefined;
   } while (continuationToken);
 
+  // Versioned buckets keep noncurrent versions and delete markers, which
+  // also have to go before the bucket can be deleted
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+  do {
+    const versions = await client.send(
+      new ListObjectVersionsCommand({
+        Bucket: bucketName,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+      }),
+    );
+
+    const entries = [...(versions.Versions ?? []), ...(versions.DeleteMarkers ?? [])];
+    if (entries.length > 0) {
+      await client.send(
+        new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {
+            Objects: entries.map((v) => ({ Key: v.Key!, VersionId: v.VersionId })),
+            Quiet: true,
+          },
+        }),
+      );
+    }
+
+    keyMarker = versions.IsTruncated ? versions.NextKeyMarker : undefined;
+    versionIdMarker = versions.IsTruncated ? versions.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+
   return totalDeleted;
 }
 
@@ -167,11 +479,94 @@ export async function deleteCloudFrontDistribution(
   }
 }
 
+// ── CloudFront cache invalidations ───────────────────────────────────────────
+
+/**
+ * Invalidation path for an object key or folder prefix: "a/b.png" → "/a/b.png",
+ * "a/" → "/a/*". Unsafe characters are URL-encoded as CloudFront expects.
+ */
+export function toInvalidationPath(keyOrPrefix: string): string {
+  let path = keyOrPrefix.startsWith("/") ? keyOrPrefix : `/${keyOrPrefix}`;
+  if (path.endsWith("/")) path += "*";
+  try {
+    path = decodeURI(path);
+  } catch {
+    // Not encoded yet
+  }
+  return encodeURI(path);
+}
+
+/** Invalidate paths of a distribution. Paths are normalized with toInvalidationPath. */
+export async function createInvalidation(
+  distributionId: string,
+  paths: string[],
+): Promise<CloudFrontInvalidation> {
+  const client = getCloudFrontClient();
+  const items = [...new Set(paths.map(toInvalidationPath))];
+
+  const res = await client.send(
+    new CreateInvalidationCommand({
+      DistributionId: distributionId,
+      InvalidationBatch: {
+        CallerReference: `scr-${Date.now()}`,
+        Paths: { Quantity: items.length, Items: items },
+      },
+    }),
+  );
+  return {
+    id: res.Invalidation?.Id ?? "",
+    distributionId,
+    status: res.Invalidation?.Status ?? "InProgress",
+    createTime: res.Invalidation?.CreateTime?.toISOString() ?? new Date().toISOString(),
+    paths: res.Invalidation?.InvalidationBatch?.Paths?.Items ?? items,
+  };
+}
+
+/** The distribution's most recent invalidations, newest first — without their paths. */
+export async function listInvalidations(
+  distributionId: string,
+  maxItems = 25,
+): Promise<CloudFrontInvalidation[]> {
+  const client = getCloudFrontClient();
+  const res = await client.send(
+    new ListInvalidationsCommand({ DistributionId: distributionId, MaxItems: maxItems }),
+  );
+  return (res.InvalidationList?.Items ?? []).map((inv) => ({
+    id: inv.Id ?? "",
+    distributionId,
+    status: inv.Status ?? "Unknown",
+    createTime: inv.CreateTime?.toISOString() ?? "",
+  }));
+}
+
+/** One invalidation with the paths it covers. */
+export async function getInvalidation(
+  distributionId: string,
+  invalidationId: string,
+): Promise<CloudFrontInvalidation> {
+  const client = getCloudFrontClient();
+  const res = await client.send(
+    new GetInvalidationCommand({ DistributionId: distributionId, Id: invalidationId }),
+  );
+  return {
+    id: res.Invalidation?.Id ?? invalidationId,
+    distributionId,
+    status: res.Invalidation?.Status ?? "Unknown",
+    createTime: res.Invalidation?.CreateTime?.toISOString() ?? "",
+    paths: res.Invalidation?.InvalidationBatch?.Paths?.Items ?? [],
+  };
+}
+
+/**
+ * Public URL of an object — on the bucket's custom domain once it is deployed
+ * (see getCdnDomain). Empty while the bucket has no distribution.
+ */
 export function buildCloudFrontUrl(
-  cloudFrontDomain: string,
+  bucket: Pick<Bucket, "cloudFrontDomain" | "deployedConfig">,
   objectKey: string,
 ): string {
-  return `https://${cloudFrontDomain}/${objectKey}`;
+  const domain = getCdnDomain(bucket);
+  return domain ? `https://${domain}/${objectKey}` : "";
 }
 
 // ── S3 folder & move operations ───────────────────────────────────────────────
@@ -328,13 +723,211 @@ export async function listCloudFrontDistributions(): Promise<
   return distributions;
 }
 
+// ── CloudFront distribution settings ─────────────────────────────────────────
+
+function toDistributionSettings(config: DistributionConfig): DistributionSettings {
+  const behavior = config.DefaultCacheBehavior;
+  return {
+    enabled: config.Enabled ?? false,
+    priceClass: (config.PriceClass ?? "PriceClass_All") as DistributionSettings["priceClass"],
+    defaultRootObject: config.DefaultRootObject ?? "",
+    minTtl: behavior?.MinTTL ?? 0,
+    defaultTtl: behavior?.DefaultTTL ?? 86400,
+    maxTtl: behavior?.MaxTTL ?? 31536000,
+    compress: behavior?.Compress ?? false,
+    httpVersion: (config.HttpVersion ?? "http2") as DistributionSettings["httpVersion"],
+    customErrorResponses: (config.CustomErrorResponses?.Items ?? []).map((r) => ({
+      errorCode: r.ErrorCode ?? 0,
+      responsePagePath: r.ResponsePagePath ?? "",
+      responseCode: r.ResponseCode ?? "",
+      errorCachingMinTtl: r.ErrorCachingMinTTL ?? 10,
+    })),
+  };
+}
+
+/**
+ * Editable settings of a distribution with the ETag needed to update it.
+ * When the default behavior uses a cache policy, TTLs come from that policy
+ * and can't be changed from here.
+ */
+export async function getDistributionSettings(
+  distributionId: string,
+): Promise<DistributionSettingsSnapshot> {
+  const client = getCloudFrontClient();
+  const res = await client.send(
+    new GetDistributionCommand({ Id: distributionId }),
+  );
+  const config = res.Distribution?.DistributionConfig;
+  if (!config) throw new Error(`Distribution ${distributionId} not found`);
+
+  const settings = toDistributionSettings(config);
+  let cachePolicyName: string | undefined;
+  const cachePolicyId = config.DefaultCacheBehavior?.CachePolicyId;
+  if (cachePolicyId) {
+    const policy = await client.send(
+      new GetCachePolicyCommand({ Id: cachePolicyId }),
+    );
+    const policyConfig = policy.CachePolicy?.CachePolicyConfig;
+    cachePolicyName = policyConfig?.Name ?? cachePolicyId;
+    settings.minTtl = policyConfig?.MinTTL ?? settings.minTtl;
+    settings.defaultTtl = policyConfig?.DefaultTTL ?? settings.defaultTtl;
+    settings.maxTtl = policyConfig?.MaxTTL ?? settings.maxTtl;
+  }
+
+  return {
+    distributionId,
+    domainName: res.Distribution?.DomainName ?? "",
+    status: res.Distribution?.Status ?? "Unknown",
+    etag: res.ETag ?? "",
+    settings,
+    cachePolicyName,
+  };
+}
+
+/**
+ * Apply settings on top of the distribution's current config. `etag` is the
+ * one the caller read the settings with — CloudFront rejects the update with
+ * PreconditionFailed if the distribution changed in between.
+ */
+export async function updateDistributionSettings(
+  distributionId: string,
+  etag: string,
+  settings: DistributionSettings,
+): Promise<{ etag: string; status: string }> {
+  const client = getCloudFrontClient();
+  const current = await client.send(
+    new GetDistributionConfigCommand({ Id: distributionId }),
+  );
+  const config = current.DistributionConfig!;
+  const behavior = config.DefaultCacheBehavior!;
+
+  config.Enabled = settings.enabled;
+  config.PriceClass = settings.priceClass;
+  config.DefaultRootObject = settings.defaultRootObject;
+  config.HttpVersion = settings.httpVersion;
+  behavior.Compress = settings.compress;
+  // Legacy cache settings only — a cache policy owns the TTLs otherwise
+  if (!behavior.CachePolicyId) {
+    behavior.MinTTL = settings.minTtl;
+    behavior.DefaultTTL = settings.defaultTtl;
+    behavior.MaxTTL = settings.maxTtl;
+  }
+  config.CustomErrorResponses = {
+    Quantity: settings.customErrorResponses.length,
+    Items: settings.customErrorResponses.map((r) => ({
+      ErrorCode: r.errorCode,
+      ResponsePagePath: r.responsePagePath || undefined,
+      ResponseCode: r.responsePagePath ? r.responseCode || String(r.errorCode) : undefined,
+      ErrorCachingMinTTL: r.errorCachingMinTtl,
+    })),
+  };
+
+  const res = await client.send(
+    new UpdateDistributionCommand({
+      Id: distributionId,
+      DistributionConfig: config,
+      IfMatch: etag,
+    }),
+  );
+  return {
+    etag: res.ETag ?? "",
+    status: res.Distribution?.Status ?? "InProgress",
+  };
+}
+
+// ── ACM certificates for custom domains ──────────────────────────────────────
+
+import {
+  ACMClient,
+  RequestCertificateCommand,
+  ImportCertificateCommand,
+  DescribeCertificateCommand,
+} from "@aws-sdk/client-acm";
+
+/** CloudFront only accepts certificates from us-east-1, whatever the bucket's region. */
+function getAcmClient(): ACMClient {
+  return new ACMClient({ region: "us-east-1" });
+}
+
+export interface CertificateDetails {
+  status: string;
+  /** The domain and subject alternative names the certificate covers */
+  domainNames: string[];
+  validationRecords: DnsRecord[];
+}
+
+/** Request a DNS-validated certificate for one domain. Returns its ARN. */
+export async function requestCertificate(domainName: string): Promise<string> {
+  const client = getAcmClient();
+  const res = await client.send(
+    new RequestCertificateCommand({
+      DomainName: domainName,
+      ValidationMethod: "DNS",
+      Tags: [{ Key: "scr:domain", Value: domainName }],
+    }),
+  );
+  return res.CertificateArn!;
+}
+
+/** Import a PEM certificate and its private key. Returns its ARN. */
+export async function importCertificate(
+  certificate: string,
+  privateKey: string,
+  certificateChain?: string,
+): Promise<string> {
+  const client = getAcmClient();
+  const encoder = new TextEncoder();
+  const res = await client.send(
+    new ImportCertificateCommand({
+      Certificate: encoder.encode(certificate.trim()),
+      PrivateKey: encoder.encode(privateKey.trim()),
+      CertificateChain: certificateChain?.trim()
+        ? encoder.encode(certificateChain.trim())
+        : undefined,
+    }),
+  );
+  return res.CertificateArn!;
+}
+
+/**
+ * Status, names and DNS validation records of a certificate. ACM fills in the
+ * validation records a few seconds after the request, so they may be empty at first.
+ */
+export async function describeCertificate(
+  certificateArn: string,
+): Promise<CertificateDetails> {
+  const client = getAcmClient();
+  const res = await client.send(
+    new DescribeCertificateCommand({ CertificateArn: certificateArn }),
+  );
+  const cert = res.Certificate;
+  const validationRecords: DnsRecord[] = [];
+  for (const option of cert?.DomainValidationOptions ?? []) {
+    const record = option.ResourceRecord;
+    if (record?.Name && record.Value && !validationRecords.some((r) => r.name === record.Name)) {
+      validationRecords.push({ name: record.Name, type: "CNAME", value: record.Value });
+    }
+  }
+  return {
+    status: cert?.Status ?? "UNKNOWN",
+    domainNames: [
+      ...new Set([cert?.DomainName, ...(cert?.SubjectAlternativeNames ?? [])]),
+    ].filter((name): name is string => !!name),
+    validationRecords,
+  };
+}
+
 // ── CloudFormation stack status checking ─────────────────────────────────────
 
 import {
   CloudFormationClient,
   DescribeStacksCommand,
   DescribeStackResourcesCommand,
+  DescribeStackEventsCommand,
   DeleteStackCommand,
+  DetectStackDriftCommand,
+  DescribeStackDriftDetectionStatusCommand,
+  DescribeStackResourceDriftsCommand,
 } from "@aws-sdk/client-cloudformation";
 
 export function getCloudFormationClient(region?: string): CloudFormationClient {
@@ -360,6 +953,22 @@ export interface StackStatus {
   resources: StackResource[];
 }
 
+/**
+ * How a deployed stack's distribution reads the bucket, from its resource
+ * types — undefined when the stack has neither an OAC nor an OAI.
+ */
+export function stackOriginAccess(
+  resources: StackResource[],
+): OriginAccessMode | undefined {
+  if (resources.some((r) => r.type === "AWS::CloudFront::OriginAccessControl")) {
+    return "oac";
+  }
+  if (resources.some((r) => r.type === "AWS::CloudFront::CloudFrontOriginAccessIdentity")) {
+    return "oai";
+  }
+  return undefined;
+}
+
 /** Check CloudFormation stack status for a bucket. */
 export async function describeStack(
   s3BucketName: string,
@@ -413,6 +1022,53 @@ export async function describeStack(
   }
 }
 
+/**
+ * Stack events at or after `since`, oldest first. Returns [] while the stack
+ * does not exist yet.
+ */
+export async function describeStackEvents(
+  s3BucketName: string,
+  since: Date,
+  region?: string,
+): Promise<StackEvent[]> {
+  const client = getCloudFormationClient(region);
+  const stackName = `SCR-${s3BucketName}`;
+  const events: StackEvent[] = [];
+  let nextToken: string | undefined;
+
+  try {
+    // Events come newest first — stop paging at the first one before `since`
+    do {
+      const res = await client.send(
+        new DescribeStackEventsCommand({ StackName: stackName, NextToken: nextToken }),
+      );
+      let reachedSince = false;
+      for (const e of res.StackEvents ?? []) {
+        if (!e.Timestamp || e.Timestamp < since) {
+          reachedSince = true;
+          break;
+        }
+        events.push({
+          eventId: e.EventId ?? "",
+          timestamp: e.Timestamp.toISOString(),
+          logicalId: e.LogicalResourceId ?? "",
+          physicalId: e.PhysicalResourceId ?? "",
+          resourceType: e.ResourceType ?? "",
+          status: e.ResourceStatus ?? "",
+          statusReason: e.ResourceStatusReason,
+        });
+      }
+      nextToken = reachedSince ? undefined : res.NextToken;
+    } while (nextToken);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : "";
+    if (msg.includes("does not exist")) return [];
+    throw e;
+  }
+
+  return events.reverse();
+}
+
 /** Delete a CloudFormation stack (rollback). */
 export async function deleteStack(
   s3BucketName: string,
@@ -423,6 +1079,114 @@ export async function deleteStack(
   await client.send(new DeleteStackCommand({ StackName: stackName }));
 }
 
+/**
+ * Delete the bucket's SCR-<bucket>-waf stack from us-east-1. CDK leaves it
+ * behind when the WAF is turned off, since the app no longer defines it.
+ * Deleting a stack that does not exist is a no-op.
+ */
+export async function deleteWafStack(s3BucketName: string): Promise<void> {
+  const client = getCloudFormationClient("us-east-1");
+  await client.send(new DeleteStackCommand({ StackName: `SCR-${s3BucketName}-waf` }));
+}
+
+// ── CloudFormation drift detection ───────────────────────────────────────────
+
+const DRIFT_POLL_INTERVAL_MS = 2000;
+const DRIFT_TIMEOUT_MS = 5 * 60_000;
+
+/** Drift of one stack resource, with the properties its template expects */
+export interface StackResourceDrift extends Omit<ResourceDrift, "differences"> {
+  differences: Omit<DriftPropertyDifference, "reapplicable">[];
+  expectedProperties: Record<string, unknown>;
+}
+
+export interface StackDrift {
+  stackDriftStatus: StackDriftResult["stackDriftStatus"];
+  detectionStatusReason?: string;
+  detectedAt: string;
+  resources: StackResourceDrift[];
+}
+
+function parseDriftProperties(json?: string): Record<string, unknown> {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Run CloudFormation drift detection on a bucket's stack and wait for the
+ * result. Returns null when the stack does not exist.
+ */
+export async function detectStackDrift(
+  s3BucketName: string,
+  region?: string,
+): Promise<StackDrift | null> {
+  const client = getCloudFormationClient(region);
+  const stackName = `SCR-${s3BucketName}`;
+
+  let detectionId: string | undefined;
+  try {
+    const res = await client.send(new DetectStackDriftCommand({ StackName: stackName }));
+    detectionId = res.StackDriftDetectionId;
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : "";
+    if (msg.includes("does not exist")) return null;
+    throw e;
+  }
+  if (!detectionId) throw new Error("CloudFormation did not start drift detection");
+
+  const deadline = Date.now() + DRIFT_TIMEOUT_MS;
+  const describeDetection = () =>
+    client.send(
+      new DescribeStackDriftDetectionStatusCommand({ StackDriftDetectionId: detectionId }),
+    );
+  let detection = await describeDetection();
+  while (detection.DetectionStatus === "DETECTION_IN_PROGRESS") {
+    if (Date.now() > deadline) {
+      throw new Error("Drift detection did not finish within 5 minutes");
+    }
+    await new Promise((resolve) => setTimeout(resolve, DRIFT_POLL_INTERVAL_MS));
+    detection = await describeDetection();
+  }
+
+  // A failed detection still reports the resources it managed to check
+  const resources: StackResourceDrift[] = [];
+  let nextToken: string | undefined;
+  do {
+    const res = await client.send(
+      new DescribeStackResourceDriftsCommand({ StackName: stackName, NextToken: nextToken }),
+    );
+    for (const d of res.StackResourceDrifts ?? []) {
+      resources.push({
+        logicalId: d.LogicalResourceId ?? "",
+        physicalId: d.PhysicalResourceId ?? "",
+        resourceType: d.ResourceType ?? "",
+        driftStatus: (d.StackResourceDriftStatus ?? "NOT_CHECKED") as ResourceDrift["driftStatus"],
+        differences: (d.PropertyDifferences ?? []).map((p) => ({
+          propertyPath: p.PropertyPath ?? "",
+          expectedValue: p.ExpectedValue ?? "",
+          actualValue: p.ActualValue ?? "",
+          differenceType: (p.DifferenceType ?? "NOT_EQUAL") as DriftPropertyDifference["differenceType"],
+        })),
+        expectedProperties: parseDriftProperties(d.ExpectedProperties),
+      });
+    }
+    nextToken = res.NextToken;
+  } while (nextToken);
+
+  return {
+    stackDriftStatus: (detection.StackDriftStatus ?? "UNKNOWN") as StackDrift["stackDriftStatus"],
+    detectionStatusReason:
+      detection.DetectionStatus === "DETECTION_FAILED"
+        ? detection.DetectionStatusReason
+        : undefined,
+    detectedAt: (detection.Timestamp ?? new Date()).toISOString(),
+    resources,
+  };
+}
+
 // ── S3 bucket size metrics ───────────────────────────────────────────────────
 
 import { HeadBucketCommand } from "@aws-sdk/client-s3";
@@ -441,6 +1205,248 @@ export async function checkBucketExists(
   }
 }
 
+import {
+  GetBucketVersioningCommand,
+  GetBucketEncryptionCommand,
+  PutBucketVersioningCommand,
+  PutBucketEncryptionCommand,
+  PutPublicAccessBlockCommand,
+  PutBucketCorsCommand,
+  PutBucketPolicyCommand,
+  type ServerSideEncryption,
+} from "@aws-sdk/client-s3";
+
+/** Template properties of the stack's AWS::S3::Bucket and AWS::S3::BucketPolicy */
+interface CfnBucketProperties {
+  VersioningConfiguration?: { Status?: "Enabled" | "Suspended" };
+  BucketEncryption?: {
+    ServerSideEncryptionConfiguration?: {
+      ServerSideEncryptionByDefault?: { SSEAlgorithm?: string; KMSMasterKeyID?: string };
+      BucketKeyEnabled?: boolean;
+    }[];
+  };
+  PublicAccessBlockConfiguration?: {
+    BlockPublicAcls?: boolean;
+    BlockPublicPolicy?: boolean;
+    IgnorePublicAcls?: boolean;
+    RestrictPublicBuckets?: boolean;
+  };
+  CorsConfiguration?: {
+    CorsRules?: {
+      Id?: string;
+      AllowedHeaders?: string[];
+      AllowedMethods?: string[];
+      AllowedOrigins?: string[];
+      ExposedHeaders?: string[];
+      MaxAge?: number;
+    }[];
+  };
+  PolicyDocument?: unknown;
+}
+
+/** Bucket settings the template owns that can be written straight back to S3 */
+export const RESTORABLE_BUCKET_PROPERTIES = [
+  "VersioningConfiguration",
+  "BucketEncryption",
+  "PublicAccessBlockConfiguration",
+  "CorsConfiguration",
+  "PolicyDocument",
+] as const;
+
+export type RestorableBucketProperty = (typeof RESTORABLE_BUCKET_PROPERTIES)[number];
+
+/**
+ * Write one bucket setting back to the value in the stack template.
+ * `expected` holds the template properties of the drifted resource.
+ */
+export async function restoreBucketProperty(
+  s3BucketName: string,
+  property: RestorableBucketProperty,
+  expected: CfnBucketProperties,
+  region?: string,
+): Promise<void> {
+  const client = getS3Client(region);
+
+  switch (property) {
+    case "VersioningConfiguration":
+      await client.send(
+        new PutBucketVersioningCommand({
+          Bucket: s3BucketName,
+          VersioningConfiguration: { Status: expected.VersioningConfiguration?.Status },
+        }),
+      );
+      break;
+    case "BucketEncryption":
+      await client.send(
+        new PutBucketEncryptionCommand({
+          Bucket: s3BucketName,
+          ServerSideEncryptionConfiguration: {
+            Rules: (expected.BucketEncryption?.ServerSideEncryptionConfiguration ?? []).map(
+              (rule) => ({
+                ApplyServerSideEncryptionByDefault: rule.ServerSideEncryptionByDefault && {
+                  SSEAlgorithm: rule.ServerSideEncryptionByDefault
+                    .SSEAlgorithm as ServerSideEncryption,
+                  KMSMasterKeyID: rule.ServerSideEncryptionByDefault.KMSMasterKeyID,
+                },
+                BucketKeyEnabled: rule.BucketKeyEnabled,
+              }),
+            ),
+          },
+        }),
+      );
+      break;
+    case "PublicAccessBlockConfiguration":
+      await client.send(
+        new PutPublicAccessBlockCommand({
+          Bucket: s3BucketName,
+          PublicAccessBlockConfiguration: expected.PublicAccessBlockConfiguration,
+        }),
+      );
+      break;
+    case "CorsConfiguration":
+      await client.send(
+        new PutBucketCorsCommand({
+          Bucket: s3BucketName,
+          CORSConfiguration: {
+            CORSRules: (expected.CorsConfiguration?.CorsRules ?? []).map((rule) => ({
+              ID: rule.Id,
+              AllowedHeaders: rule.AllowedHeaders,
+              AllowedMethods: rule.AllowedMethods ?? [],
+              AllowedOrigins: rule.AllowedOrigins ?? [],
+              ExposeHeaders: rule.ExposedHeaders,
+              MaxAgeSeconds: rule.MaxAge,
+            })),
+          },
+        }),
+      );
+      break;
+    case "PolicyDocument":
+      await client.send(
+        new PutBucketPolicyCommand({
+          Bucket: s3BucketName,
+          Policy: JSON.stringify(expected.PolicyDocument),
+        }),
+      );
+      break;
+  }
+}
+
+/**
+ * Compare a deployed bucket with its saved BucketConfig.
+ * Returns one message per mismatch — empty when the stack matches.
+ */
+export async function verifyDeployedBucketConfig(
+  s3BucketName: string,
+  config: BucketConfig,
+  region?: string,
+): Promise<string[]> {
+  const client = getS3Client(region);
+  const mismatches: string[] = [];
+
+  const versioning = await client.send(
+    new GetBucketVersioningCommand({ Bucket: s3BucketName }),
+  );
+  const versioned = versioning.Status === "Enabled";
+  if (versioned !== config.versioning) {
+    mismatches.push(
+      `Versioning is ${versioning.Status ?? "disabled"} but the config expects it ${config.versioning ? "enabled" : "disabled"}`,
+    );
+  }
+
+  // Buckets without a default-encryption rule report AES256 (SSE-S3)
+  let algorithm = "AES256";
+  let kmsKeyId: string | undefined;
+  try {
+    const encryption = await client.send(
+      new GetBucketEncryptionCommand({ Bucket: s3BucketName }),
+    );
+    const rule =
+      encryption.ServerSideEncryptionConfiguration?.Rules?.[0]
+        ?.ApplyServerSideEncryptionByDefault;
+    algorithm = rule?.SSEAlgorithm ?? algorithm;
+    kmsKeyId = rule?.KMSMasterKeyID;
+  } catch (e: unknown) {
+    if (!(e instanceof Error && e.name.includes("ServerSideEncryptionConfigurationNotFound"))) {
+      throw e;
+    }
+  }
+  const expectedAlgorithm = config.encryption === "kms" ? "aws:kms" : "AES256";
+  if (algorithm !== expectedAlgorithm) {
+    mismatches.push(
+      `Default encryption is ${algorithm} but the config expects ${expectedAlgorithm}`,
+    );
+  }
+
+  const stack = await describeStack(s3BucketName, region);
+  if (config.encryption === "kms") {
+    const keyArn = stack?.outputs["KmsKeyArn"];
+    if (!keyArn) {
+      mismatches.push("The stack has no customer-managed KMS key");
+    } else if (kmsKeyId && kmsKeyId !== keyArn && !keyArn.endsWith(`/${kmsKeyId}`)) {
+      mismatches.push(`The bucket is encrypted with ${kmsKeyId} instead of the stack's key`);
+    }
+  }
+
+  const hasBackupPlan =
+    stack?.resources.some((r) => r.type === "AWS::Backup::BackupPlan") ?? false;
+  if (hasBackupPlan !== config.backupEnabled) {
+    mismatches.push(
+      config.backupEnabled
+        ? "The stack has no AWS Backup plan"
+        : "The stack has an AWS Backup plan but backup is disabled",
+    );
+  }
+
+  const hasKeyGroup =
+    stack?.resources.some((r) => r.type === "AWS::CloudFront::KeyGroup") ?? false;
+  if (hasKeyGroup !== config.privateDelivery) {
+    mismatches.push(
+      config.privateDelivery
+        ? "The distribution has no signing key group for private delivery"
+        : "The distribution has a signing key group but private delivery is off",
+    );
+  }
+
+  const hasHeadersPolicy =
+    stack?.resources.some((r) => r.type === "AWS::CloudFront::ResponseHeadersPolicy") ?? false;
+  if (hasHeadersPolicy !== config.securityHeaders) {
+    mismatches.push(
+      config.securityHeaders
+        ? "The distribution has no security headers policy"
+        : "The distribution has a security headers policy but security headers are off",
+    );
+  }
+
+  const hotlinkProtected = (config.hotlinkDomains?.length ?? 0) > 0;
+  const hasHotlinkFunction =
+    stack?.resources.some((r) => r.type === "AWS::CloudFront::Function") ?? false;
+  if (hasHotlinkFunction !== hotlinkProtected) {
+    mismatches.push(
+      hotlinkProtected
+        ? "The distribution has no hotlink protection function"
+        : "The distribution has a hotlink protection function but hotlink protection is off",
+    );
+  }
+
+  const hasWebAcl = !!stack?.outputs["WebAclArn"];
+  if (hasWebAcl !== usesWaf(config)) {
+    mismatches.push(
+      usesWaf(config)
+        ? "The distribution has no WAF web ACL"
+        : "The distribution has a WAF web ACL but the WAF is off",
+    );
+  }
+
+  const originAccess = stack ? stackOriginAccess(stack.resources) : undefined;
+  if (originAccess && originAccess !== config.originAccess) {
+    mismatches.push(
+      `The distribution uses ${originAccess.toUpperCase()} but the config expects ${config.originAccess.toUpperCase()}`,
+    );
+  }
+
+  return mismatches;
+}
+
 // ── Cost estimation helpers ──────────────────────────────────────────────────
 
 // AWS pricing (us-east-1 standard tier, approximate)
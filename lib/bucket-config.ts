@@ -0,0 +1,119 @@
+// Bucket config rules shared by the bucket routes, the deploy route and the
+// bucket detail page — what the CDK stack is built from and when it is stale
+
+import type { Bucket, BucketConfig } from "./types";
+
+/** Settings that change the CDK stack. maxFileSizeMB is only enforced by the upload routes. */
+export const STACK_CONFIG_KEYS = [
+  "versioning",
+  "encryption",
+  "backupEnabled",
+  "originAccess",
+  "privateDelivery",
+  "securityHeaders",
+  "wafRateLimit",
+  "wafBlockedCountries",
+  "hotlinkDomains",
+  "customDomain",
+  "certificateArn",
+] as const;
+
+export type StackConfigKey = (typeof STACK_CONFIG_KEYS)[number];
+
+export const STACK_CONFIG_LABELS: Record<StackConfigKey, string> = {
+  versioning: "Versioning",
+  encryption: "Encryption",
+  backupEnabled: "AWS Backup",
+  originAccess: "Origin access",
+  privateDelivery: "Private delivery",
+  securityHeaders: "Security headers",
+  wafRateLimit: "WAF rate limit",
+  wafBlockedCountries: "WAF blocked countries",
+  hotlinkDomains: "Hotlink allowed sites",
+  customDomain: "Custom domain",
+  certificateArn: "Certificate",
+};
+
+export interface StackConfigChange {
+  key: StackConfigKey;
+  from: BucketConfig[StackConfigKey];
+  to: BucketConfig[StackConfigKey];
+}
+
+/** Returns a description of the problem, or null if the stack can be built from this config. */
+export function validateBucketConfig(config: BucketConfig): string | null {
+  if (config.backupEnabled && !config.versioning) {
+    return "AWS Backup requires versioning to be enabled";
+  }
+  if (config.encryption === "kms" && config.originAccess === "oai") {
+    return "SSE-KMS buckets need Origin Access Control — an OAI cannot decrypt their objects";
+  }
+  if (!!config.customDomain !== !!config.certificateArn) {
+    return "A custom domain needs an issued certificate, and a certificate needs a domain";
+  }
+  return null;
+}
+
+/** Unset optional settings, "" and empty lists all mean "none" */
+function comparable(value: BucketConfig[StackConfigKey]): string | number | boolean {
+  if (Array.isArray(value)) return value.join(",");
+  return value ?? "";
+}
+
+/** Stack settings that differ between two configs. */
+export function stackConfigChanges(
+  from: BucketConfig,
+  to: BucketConfig,
+): StackConfigChange[] {
+  return STACK_CONFIG_KEYS.filter((key) => comparable(from[key]) !== comparable(to[key])).map((key) => ({
+    key,
+    from: from[key],
+    to: to[key],
+  }));
+}
+
+/**
+ * Whether the config needs a WAF web ACL. CloudFront only takes web ACLs from
+ * us-east-1, so the ACL gets its own SCR-<bucket>-waf stack there.
+ */
+export function usesWaf(config: Pick<BucketConfig, "wafRateLimit" | "wafBlockedCountries">): boolean {
+  return !!config.wafRateLimit || (config.wafBlockedCountries?.length ?? 0) > 0;
+}
+
+/**
+ * Whether the bucket is managed by a deployed SCR- stack. Imported buckets and
+ * buckets detached from a destroyed stack have no distribution.
+ */
+export function hasDeployedStack(bucket: Pick<Bucket, "cloudFrontDistributionId">): boolean {
+  return !!bucket.cloudFrontDistributionId;
+}
+
+/** True when the saved config has edits the live stack does not have yet. */
+export function hasPendingChanges(bucket: Pick<Bucket, "config" | "deployedConfig">): boolean {
+  if (!bucket.deployedConfig) return false;
+  return stackConfigChanges(bucket.deployedConfig, bucket.config).length > 0;
+}
+
+/** "on" / "off" for switches, "none" when unset, upper-cased encryption and origin access, the value otherwise. */
+export function formatConfigValue(key: StackConfigKey, value: BucketConfig[StackConfigKey]): string {
+  if (typeof value === "boolean") return value ? "on" : "off";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "none";
+  if (!value) return "none";
+  if (typeof value === "number") return `${value.toLocaleString()} / 5 min`;
+  if (key === "encryption" || key === "originAccess") return value.toUpperCase();
+  // arn:aws:acm:us-east-1:<account>:certificate/<id> — the id is what ACM lists
+  if (key === "certificateArn") return value.split("/").pop() ?? value;
+  return value;
+}
+
+/**
+ * Domain files are served from: the custom domain once the stack has deployed
+ * it, the distribution's *.cloudfront.net domain otherwise. Empty without a
+ * distribution.
+ */
+export function getCdnDomain(
+  bucket: Pick<Bucket, "cloudFrontDomain" | "deployedConfig">,
+): string {
+  if (!bucket.cloudFrontDomain) return "";
+  return bucket.deployedConfig?.customDomain || bucket.cloudFrontDomain;
+}
@@ -0,0 +1,90 @@
+// Parser for `cdk diff` output — turns the Resources section into a structured
+// change list and flags changes that would lose the bucket or its CDN domain
+
+export type CdkChangeKind = "added" | "modified" | "replaced" | "destroyed";
+
+export interface CdkResourceChange {
+  kind: CdkChangeKind;
+  resourceType: string;
+  constructPath: string;
+  logicalId: string;
+  /** The replacement depends on values only known at deploy time ("may be replaced") */
+  conditional?: boolean;
+  /** Property changes, e.g. "[~] BucketName (requires replacement)" */
+  details: string[];
+  /** Why the change is dangerous — set only for the S3 bucket and the distribution */
+  danger?: string;
+}
+
+export type CdkDiffCounts = Record<CdkChangeKind, number>;
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const RESOURCE_LINE = /^\[([+~-])\]\s+((?:AWS|Custom)::\S+)\s+(\S+)\s+(\S+)(.*)$/;
+// Only first-level properties — deeper lines are old/new values
+const PROPERTY_LINE = /^ [├└]─ (\[[+~-]\]\s+.+)$/;
+
+const DANGERS: Record<string, Partial<Record<CdkChangeKind, string>>> = {
+  "AWS::S3::Bucket": {
+    replaced:
+      "The bucket would be replaced by a new, empty bucket — existing objects stay behind in the retained old bucket",
+    destroyed: "The bucket would be removed from the stack and left behind as an unmanaged bucket",
+  },
+  "AWS::CloudFront::Distribution": {
+    replaced:
+      "A new distribution gets a new CloudFront domain — every stored file URL would break",
+    destroyed: "The distribution would be deleted — every stored file URL would break",
+  },
+};
+
+function classify(symbol: string, suffix: string, details: string[]): Pick<CdkResourceChange, "kind" | "conditional"> {
+  if (symbol === "+") return { kind: "added" };
+  if (symbol === "-") return { kind: "destroyed" };
+  const text = [suffix, ...details].join(" ");
+  if (/may be replaced|may cause replacement/.test(text)) {
+    return { kind: "replaced", conditional: true };
+  }
+  if (/\breplace\b|requires replacement/.test(text)) return { kind: "replaced" };
+  return { kind: "modified" };
+}
+
+/** Resource changes listed by `cdk diff`, in output order. Outputs, parameters and IAM tables are skipped. */
+export function parseCdkDiff(output: string): CdkResourceChange[] {
+  const lines = output.replace(ANSI_PATTERN, "").split("\n");
+  const parsed: { symbol: string; suffix: string; change: CdkResourceChange }[] = [];
+  let current: CdkResourceChange | null = null;
+
+  for (const line of lines) {
+    const resource = line.match(RESOURCE_LINE);
+    if (resource) {
+      const [, symbol, resourceType, constructPath, logicalId, suffix] = resource;
+      current = { kind: "modified", resourceType, constructPath, logicalId, details: [] };
+      parsed.push({ symbol, suffix, change: current });
+      continue;
+    }
+    const property = current && line.match(PROPERTY_LINE);
+    if (current && property) {
+      current.details.push(property[1].trim());
+    } else if (!line.startsWith(" ")) {
+      current = null;
+    }
+  }
+
+  return parsed.map(({ symbol, suffix, change }) => {
+    const classified = classify(symbol, suffix, change.details);
+    const danger = DANGERS[change.resourceType]?.[classified.kind];
+    return { ...change, ...classified, ...(danger && { danger }) };
+  });
+}
+
+export function countCdkChanges(changes: CdkResourceChange[]): CdkDiffCounts {
+  const counts: CdkDiffCounts = { added: 0, modified: 0, replaced: 0, destroyed: 0 };
+  for (const change of changes) counts[change.kind]++;
+  return counts;
+}
+
+/** "[~] AWS::S3::Bucket StorageBucket (replaced)" */
+export function formatCdkChange(change: CdkResourceChange): string {
+  const symbol = { added: "+", modified: "~", replaced: "±", destroyed: "-" }[change.kind];
+  const kind = change.conditional ? "may be replaced" : change.kind;
+  return `[${symbol}] ${change.resourceType} ${change.constructPath} (${kind})`;
+}
@@ -0,0 +1,155 @@
+// Content sniffing — identifies a file from its leading bytes (magic numbers)
+// and checks the result against the declared MIME type and a project allow-list
+
+/** Bytes read from the start of an object — covers every signature below (tar sits at 257). */
+export const SNIFF_BYTES = 4096;
+
+const OCTET_STREAM = "application/octet-stream";
+
+interface Signature {
+  mime: string;
+  offset?: number;
+  bytes: (number | null)[]; // null matches any byte
+}
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+const SIGNATURES: Signature[] = [
+  { mime: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/png", bytes: [0x89, ...ascii("PNG"), 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/gif", bytes: ascii("GIF8") },
+  { mime: "image/webp", bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("WEBP")] },
+  { mime: "audio/wav", bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("WAVE")] },
+  { mime: "video/x-msvideo", bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("AVI ")] },
+  { mime: "image/bmp", bytes: ascii("BM") },
+  { mime: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: "application/pdf", bytes: ascii("%PDF-") },
+  { mime: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: "application/zip", bytes: [0x50, 0x4b, 0x05, 0x06] }, // empty archive
+  { mime: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mime: "application/x-tar", offset: 257, bytes: ascii("ustar") },
+  { mime: "video/mp4", offset: 4, bytes: ascii("ftyp") },
+  { mime: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mime: "audio/mpeg", bytes: ascii("ID3") },
+  { mime: "audio/mpeg", bytes: [0xff, 0xfb] },
+  { mime: "audio/mpeg", bytes: [0xff, 0xf3] },
+  { mime: "audio/mpeg", bytes: [0xff, 0xf2] },
+  { mime: "audio/ogg", bytes: ascii("OggS") },
+  // OLE2 compound file — legacy Office documents
+  { mime: "application/x-cfb", bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  // Executables are never what an upload declares
+  { mime: "application/x-msdownload", bytes: ascii("MZ") },
+  { mime: "application/x-executable", bytes: [0x7f, ...ascii("ELF")] },
+];
+
+/**
+ * Declared types a sniffed type can stand for — container formats (ZIP, OLE2)
+ * and plain text cannot be told apart from their first bytes alone.
+ */
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  "application/zip": [
+    "application/zip",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+  "application/x-cfb": ["application/msword", "application/vnd.ms-excel"],
+  "video/webm": ["video/webm", "audio/webm"],
+  "video/mp4": ["video/mp4", "video/quicktime", "audio/mp4"],
+  "application/xml": ["application/xml", "text/xml"],
+  "text/plain": [
+    "text/plain",
+    "text/csv",
+    "text/css",
+    "text/markdown",
+    "application/json",
+    "application/javascript",
+    "application/typescript",
+  ],
+};
+
+function matches(bytes: Uint8Array, sig: Signature): boolean {
+  const offset = sig.offset ?? 0;
+  if (bytes.length < offset + sig.bytes.length) return false;
+  return sig.bytes.every((b, i) => b === null || bytes[offset + i] === b);
+}
+
+/** Text if it decodes as UTF-8 and has no control characters besides whitespace. */
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return false;
+  try {
+    // stream: a multi-byte character cut off at the end of the sample is not an error
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return !/[\x00-\x08\x0e-\x1f\x7f]/.test(text);
+  } catch {
+    return false;
+  }
+}
+
+function sniffText(bytes: Uint8Array): string {
+  const head = new TextDecoder()
+    .decode(bytes.subarray(0, 1024))
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .toLowerCase();
+  if (head.includes("<svg")) return "image/svg+xml";
+  if (head.startsWith("<!doctype html") || head.startsWith("<html")) return "text/html";
+  if (head.startsWith("<?xml")) return "application/xml";
+  return "text/plain";
+}
+
+/** The type the content actually has, or null for binary data with no known signature. */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  const signature = SIGNATURES.find((sig) => matches(bytes, sig));
+  if (signature) return signature.mime;
+  return looksLikeText(bytes) ? sniffText(bytes) : null;
+}
+
+/** Whether content sniffed as `detected` can legitimately be declared as `declared`. */
+export function isCompatibleMimeType(declared: string, detected: string): boolean {
+  if (declared === detected) return true;
+  return COMPATIBLE_TYPES[detected]?.includes(declared) ?? false;
+}
+
+export interface ContentInspection {
+  detectedMimeType: string | null;
+  /** Set when the object must be quarantined */
+  problem?: string;
+}
+
+/**
+ * Compare an object's leading bytes with the MIME type it was uploaded as and
+ * with the project's allowed types. `application/octet-stream` uploads get no
+ * pass here: the sniffed type has to be allowed on its own.
+ */
+export function inspectContent(
+  bytes: Uint8Array,
+  declaredMimeType: string,
+  allowedMimeTypes: string[],
+): ContentInspection {
+  const detected = sniffMimeType(bytes);
+
+  if (!detected) {
+    const allowed = allowedMimeTypes.includes(OCTET_STREAM);
+    return {
+      detectedMimeType: null,
+      problem: allowed ? undefined : "Content type could not be identified",
+    };
+  }
+
+  if (declaredMimeType !== OCTET_STREAM && !isCompatibleMimeType(declaredMimeType, detected)) {
+    return {
+      detectedMimeType: detected,
+      problem: `Declared as ${declaredMimeType} but the content is ${detected}`,
+    };
+  }
+
+  if (!allowedMimeTypes.some((allowed) => isCompatibleMimeType(allowed, detected))) {
+    return {
+      detectedMimeType: detected,
+      problem: `${detected} is not an allowed type for this project`,
+    };
+  }
+
+  return { detectedMimeType: detected };
+}
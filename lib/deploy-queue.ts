@@ -0,0 +1,138 @@
+// Deploy queue — runs CDK jobs with bounded concurrency, one job per stack at
+// a time, each with its own cloud assembly and outputs file
+
+import fs from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { DeployJob, DeployJobAction } from "@/lib/types";
+
+const CDK_DIR = path.join(process.cwd(), "infrastructure", "cdk");
+/** Per-job output directories, relative to the CDK directory */
+const JOBS_DIR = ".jobs";
+
+const DEFAULT_CONCURRENCY = 2;
+const MAX_FINISHED_JOBS = 20;
+
+/** How many CDK jobs may run at once. */
+export function deployConcurrency(): number {
+  const value = Number(process.env.SCR_DEPLOY_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+let jobs: DeployJob[] = [];
+/** Resolves a queued job's `started` promise — true when it runs, false if cancelled */
+const waiters = new Map<string, (started: boolean) => void>();
+
+function isActive(job: DeployJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * Start queued jobs while slots are free. Jobs for the same stack run one
+ * after another; synth without a bucket never conflicts.
+ */
+function pump(): void {
+  const running = jobs.filter((j) => j.status === "running");
+  const busyStacks = new Set(running.map((j) => j.s3BucketName).filter(Boolean));
+  let free = deployConcurrency() - running.length;
+
+  for (const job of jobs) {
+    if (free <= 0) break;
+    if (job.status !== "queued") continue;
+    if (job.s3BucketName && busyStacks.has(job.s3BucketName)) continue;
+
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    if (job.s3BucketName) busyStacks.add(job.s3BucketName);
+    free--;
+
+    const resolve = waiters.get(job.id);
+    waiters.delete(job.id);
+    fs.mkdir(path.join(CDK_DIR, job.outputDir), { recursive: true })
+      .catch(() => { /* the CDK reports a missing output directory itself */ })
+      .then(() => resolve?.(true));
+  }
+}
+
+/** Queue a CDK job. `started` resolves once it holds a slot and its output directory exists. */
+export function enqueueDeployJob(input: {
+  action: DeployJobAction;
+  bucketId?: string;
+  bucketName?: string;
+  s3BucketName?: string;
+  region?: string;
+}): { job: DeployJob; started: Promise<boolean> } {
+  const id = uuidv4();
+  const job: DeployJob = {
+    id,
+    action: input.action,
+    bucketId: input.bucketId,
+    bucketName: input.bucketName,
+    s3BucketName: input.s3BucketName ?? "",
+    region: input.region || "us-east-1",
+    status: "queued",
+    outputDir: path.join(JOBS_DIR, id),
+    queuedAt: new Date().toISOString(),
+  };
+  jobs.push(job);
+  const started = new Promise<boolean>((resolve) => waiters.set(id, resolve));
+  pump();
+  return { job, started };
+}
+
+/** Number of queued jobs ahead of this one. */
+export function deployQueuePosition(jobId: string): number {
+  const queued = jobs.filter((j) => j.status === "queued");
+  return Math.max(queued.findIndex((j) => j.id === jobId), 0);
+}
+
+/** Release the job's slot, remove its output directory and start the next job. */
+export async function finishDeployJob(
+  jobId: string,
+  status: "succeeded" | "failed",
+  error?: string,
+): Promise<void> {
+  const job = jobs.find((j) => j.id === jobId);
+  if (!job || job.status !== "running") return;
+  job.status = status;
+  job.finishedAt = new Date().toISOString();
+  job.error = error;
+  pruneFinished();
+  pump();
+  await fs
+    .rm(path.join(CDK_DIR, job.outputDir), { recursive: true, force: true })
+    .catch(() => { /* best-effort */ });
+}
+
+/** Drop a job that has not started yet, e.g. when its client disconnects. */
+export function cancelDeployJob(jobId: string): void {
+  const job = jobs.find((j) => j.id === jobId);
+  if (!job || job.status !== "queued") return;
+  job.status = "cancelled";
+  job.finishedAt = new Date().toISOString();
+  waiters.get(jobId)?.(false);
+  waiters.delete(jobId);
+  pruneFinished();
+  pump();
+}
+
+function pruneFinished(): void {
+  const finished = jobs.filter((j) => !isActive(j));
+  if (finished.length <= MAX_FINISHED_JOBS) return;
+  const dropped = new Set(
+    finished.slice(0, finished.length - MAX_FINISHED_JOBS).map((j) => j.id),
+  );
+  jobs = jobs.filter((j) => !dropped.has(j.id));
+}
+
+/** Running and queued jobs in queue order, then recently finished jobs, newest first. */
+export function listDeployJobs(): DeployJob[] {
+  const finished = jobs
+    .filter((j) => !isActive(j))
+    .sort((a, b) => (b.finishedAt ?? "").localeCompare(a.finishedAt ?? ""));
+  return [
+    ...jobs.filter((j) => j.status === "running"),
+    ...jobs.filter((j) => j.status === "queued"),
+    ...finished,
+  ].map((j) => ({ ...j }));
+}
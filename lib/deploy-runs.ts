@@ -0,0 +1,67 @@
+// Deploy run archive — every CDK run's metadata in deploy-runs.json and its
+// full NDJSON log in data/deploy-logs/, so runs can be replayed after a reload
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { findInJsonFile, modifyJsonFile, readJsonFile } from "@/lib/filesystem";
+import type { DeployRun } from "@/lib/types";
+
+export const DEPLOY_RUNS_FILE = "deploy-runs.json";
+export const DEPLOY_LOG_DIR = path.join(process.cwd(), "data", "deploy-logs");
+
+/** Runs kept per bucket (and for runs without a bucket); older logs are deleted. */
+const MAX_RUNS_PER_BUCKET = 100;
+
+function logPathFor(runId: string): string {
+  return path.join(DEPLOY_LOG_DIR, `${runId}.ndjson`);
+}
+
+/** Who started a run — the OS user running the dashboard server. */
+export function deployActor(): string {
+  try {
+    return `${os.userInfo().username}@${os.hostname()}`;
+  } catch {
+    return os.hostname();
+  }
+}
+
+/** Write the run's log, then its record, pruning the oldest runs of the same bucket. */
+export async function saveDeployRun(run: DeployRun, logLines: string[]): Promise<void> {
+  await fs.mkdir(DEPLOY_LOG_DIR, { recursive: true });
+  await fs.writeFile(logPathFor(run.id), logLines.join("\n") + "\n", "utf-8");
+
+  let dropped: DeployRun[] = [];
+  await modifyJsonFile<DeployRun>(DEPLOY_RUNS_FILE, (runs) => {
+    const all = [...runs, run];
+    const sameBucket = all.filter((r) => (r.bucketId ?? "") === (run.bucketId ?? ""));
+    dropped = sameBucket.slice(0, Math.max(sameBucket.length - MAX_RUNS_PER_BUCKET, 0));
+    const droppedIds = new Set(dropped.map((r) => r.id));
+    return all.filter((r) => !droppedIds.has(r.id));
+  });
+  for (const old of dropped) {
+    await fs.rm(logPathFor(old.id), { force: true }).catch(() => { /* best-effort */ });
+  }
+}
+
+/** Runs of one bucket — or all runs — newest first. */
+export async function listDeployRuns(bucketId?: string): Promise<DeployRun[]> {
+  const runs = await readJsonFile<DeployRun>(DEPLOY_RUNS_FILE);
+  return runs
+    .filter((r) => !bucketId || r.bucketId === bucketId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/** The run's NDJSON log, or null for an unknown run or a missing log file. */
+export async function readDeployRunLog(
+  runId: string,
+): Promise<{ run: DeployRun; log: string } | null> {
+  // Only ids of recorded runs reach the file system
+  const run = await findInJsonFile<DeployRun>(DEPLOY_RUNS_FILE, runId);
+  if (!run) return null;
+  try {
+    return { run, log: await fs.readFile(logPathFor(run.id), "utf-8") };
+  } catch {
+    return null;
+  }
+}
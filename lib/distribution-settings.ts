@@ -0,0 +1,71 @@
+// CloudFront distribution settings shared by the distribution config route and
+// the settings dialog — labels and the before/after diff shown before an update
+
+import type { DistributionErrorResponse, DistributionSettings } from "./types";
+
+export const PRICE_CLASS_LABELS: Record<DistributionSettings["priceClass"], string> = {
+  PriceClass_100: "North America & Europe",
+  PriceClass_200: "+ Asia, Middle East & Africa",
+  PriceClass_All: "All edge locations",
+};
+
+export const HTTP_VERSION_LABELS: Record<DistributionSettings["httpVersion"], string> = {
+  "http1.1": "HTTP/1.1",
+  http2: "HTTP/2",
+  http3: "HTTP/3",
+  http2and3: "HTTP/2 and HTTP/3",
+};
+
+/** Error codes CloudFront accepts in a custom error response */
+export const CUSTOM_ERROR_CODES = [400, 403, 404, 405, 414, 416, 500, 501, 502, 503, 504];
+
+export interface DistributionSettingChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+function formatErrorResponse(response: DistributionErrorResponse | undefined): string {
+  if (!response) return "—";
+  const page = response.responsePagePath
+    ? `${response.responsePagePath} (${response.responseCode || response.errorCode})`
+    : "no page";
+  return `${page}, cached ${response.errorCachingMinTtl}s`;
+}
+
+/** Settings that differ between two snapshots, formatted for display. */
+export function diffDistributionSettings(
+  before: DistributionSettings,
+  after: DistributionSettings,
+): DistributionSettingChange[] {
+  const changes: DistributionSettingChange[] = [];
+  const add = (label: string, from: string, to: string) => {
+    if (from !== to) changes.push({ label, from, to });
+  };
+
+  add("Status", before.enabled ? "enabled" : "disabled", after.enabled ? "enabled" : "disabled");
+  add("Price class", PRICE_CLASS_LABELS[before.priceClass], PRICE_CLASS_LABELS[after.priceClass]);
+  add("Default root object", before.defaultRootObject || "—", after.defaultRootObject || "—");
+  add("Minimum TTL", `${before.minTtl}s`, `${after.minTtl}s`);
+  add("Default TTL", `${before.defaultTtl}s`, `${after.defaultTtl}s`);
+  add("Maximum TTL", `${before.maxTtl}s`, `${after.maxTtl}s`);
+  add("Compression", before.compress ? "on" : "off", after.compress ? "on" : "off");
+  add(
+    "HTTP versions",
+    HTTP_VERSION_LABELS[before.httpVersion],
+    HTTP_VERSION_LABELS[after.httpVersion],
+  );
+
+  const codes = new Set(
+    [...before.customErrorResponses, ...after.customErrorResponses].map((r) => r.errorCode),
+  );
+  for (const code of [...codes].sort((a, b) => a - b)) {
+    add(
+      `Error ${code}`,
+      formatErrorResponse(before.customErrorResponses.find((r) => r.errorCode === code)),
+      formatErrorResponse(after.customErrorResponses.find((r) => r.errorCode === code)),
+    );
+  }
+
+  return changes;
+}
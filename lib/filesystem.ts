@@ -1,47 +1,44 @@
-// Handles reading and writing JSON data files from the local filesystem
+// Reads and writes the local data collections through the configured storage driver
+// (JSON files in data/ by default, SQLite when SCR_STORAGE_DRIVER=sqlite)
 
-import fs from "fs/promises";
-import path from "path";
+import { getStorageDriver } from "@/lib/storage";
 
-const DATA_DIR = path.join(process.cwd(), "data");
-
-async function ensureDataDir() {
-  try {
-    await fs.access(DATA_DIR);
-  } catch {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  }
+/** "files.json" → "files" — routes keep addressing collections by file name. */
+function toCollection(fileName: string): string {
+  return fileName.replace(/\.json$/, "");
 }
 
 export async function readJsonFile<T>(fileName: string): Promise<T[]> {
-  await ensureDataDir();
-  const filePath = path.join(DATA_DIR, fileName);
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(content) as T[];
-  } catch {
-    await fs.writeFile(filePath, "[]", "utf-8");
-    return [];
-  }
+  const driver = await getStorageDriver();
+  return driver.readAll<T>(toCollection(fileName));
 }
 
 export async function writeJsonFile<T>(
   fileName: string,
   data: T[]
 ): Promise<void> {
-  await ensureDataDir();
-  const filePath = path.join(DATA_DIR, fileName);
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+  const driver = await getStorageDriver();
+  await driver.replaceAll(toCollection(fileName), data);
+}
+
+/**
+ * Read-modify-write a whole collection without another write slipping in
+ * between the read and the write. Returns the collection as written.
+ */
+export async function modifyJsonFile<T>(
+  fileName: string,
+  modify: (items: T[]) => T[]
+): Promise<T[]> {
+  const driver = await getStorageDriver();
+  return driver.mutate<T>(toCollection(fileName), modify);
 }
 
 export async function appendToJsonFile<T extends { id: string }>(
   fileName: string,
   item: T
 ): Promise<T> {
-  const items = await readJsonFile<T>(fileName);
-  items.push(item);
-  await writeJsonFile(fileName, items);
-  return item;
+  const driver = await getStorageDriver();
+  return driver.insert(toCollection(fileName), item);
 }
 
 export async function updateInJsonFile<T extends { id: string }>(
@@ -49,31 +46,24 @@ export async function updateInJsonFile<T extends { id: string }>(
   id: string,
   updates: Partial<T>
 ): Promise<T | null> {
-  const items = await readJsonFile<T>(fileName);
-  const index = items.findIndex((item) => item.id === id);
-  if (index === -1) return null;
-  items[index] = { ...items[index], ...updates };
-  await writeJsonFile(fileName, items);
-  return items[index];
+  const driver = await getStorageDriver();
+  return driver.update<T>(toCollection(fileName), id, updates);
 }
 
 export async function deleteFromJsonFile<T extends { id: string }>(
   fileName: string,
   id: string
 ): Promise<boolean> {
-  const items = await readJsonFile<T>(fileName);
-  const filtered = items.filter((item) => item.id !== id);
-  if (filtered.length === items.length) return false;
-  await writeJsonFile(fileName, filtered);
-  return true;
+  const driver = await getStorageDriver();
+  return driver.remove<T>(toCollection(fileName), id);
 }
 
 export async function findInJsonFile<T extends { id: string }>(
   fileName: string,
   id: string
 ): Promise<T | null> {
-  const items = await readJsonFile<T>(fileName);
-  return items.find((item) => item.id === id) ?? null;
+  const driver = await getStorageDriver();
+  return driver.findById<T>(toCollection(fileName), id);
 }
 
 export async function filterJsonFile<T>(
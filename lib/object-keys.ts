@@ -0,0 +1,134 @@
+// Object key templates — per-project layout of S3 keys, e.g.
+// "{prefix}/{yyyy}/{mm}/{dd}/{uuid}-{filename}". Shared by the upload
+// pipeline, the project settings form and the snippet generator.
+
+export const DEFAULT_OBJECT_KEY_TEMPLATE = "{prefix}/{uuid}-{filename}";
+
+export const OBJECT_KEY_TOKENS = {
+  prefix: "Folder chosen at upload time, or the project ID",
+  projectId: "Project ID",
+  uuid: "Random UUID",
+  filename: "Sanitized original file name",
+  name: "File name without extension",
+  ext: "Extension including the dot (\".jpg\"), empty if none",
+  yyyy: "Upload year (UTC)",
+  mm: "Upload month, 2 digits",
+  dd: "Upload day, 2 digits",
+  hash: "SHA-256 of the file content (hex) — sent as contentHash",
+  linkedModel: "linkedModel of the upload",
+  linkedModelId: "linkedModelId of the upload",
+} as const;
+
+export type ObjectKeyToken = keyof typeof OBJECT_KEY_TOKENS;
+
+export const OBJECT_KEY_PRESETS = [
+  { label: "Random ID + name", template: DEFAULT_OBJECT_KEY_TEMPLATE },
+  { label: "Date partitions", template: "{prefix}/{yyyy}/{mm}/{dd}/{uuid}-{filename}" },
+  { label: "Content hash (dedup)", template: "{prefix}/{hash}{ext}" },
+  { label: "Linked model", template: "{linkedModel}/{linkedModelId}/{uuid}-{filename}" },
+  { label: "Original name", template: "{prefix}/{filename}" },
+] as const;
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+/** Tokens that make every key unique on their own — at least one is required. */
+const NAMING_TOKENS: ObjectKeyToken[] = ["uuid", "hash", "filename", "name"];
+
+/** Tokens used by a template, in order of appearance. */
+export function templateTokens(template: string): string[] {
+  return [...template.matchAll(TOKEN_PATTERN)].map((m) => m[1]);
+}
+
+/** Returns a description of the first problem, or null if the template is usable. */
+export function validateObjectKeyTemplate(template: string): string | null {
+  if (!template.trim()) return "Template is required";
+  if (template.length > 512) return "Template must be under 512 characters";
+
+  const tokens = templateTokens(template);
+  const unknown = tokens.find((t) => !(t in OBJECT_KEY_TOKENS));
+  if (unknown !== undefined) return `Unknown token {${unknown}}`;
+  if (!tokens.some((t) => NAMING_TOKENS.includes(t as ObjectKeyToken))) {
+    return "Template must include {uuid}, {hash}, {filename} or {name}";
+  }
+
+  const literal = template.replace(TOKEN_PATTERN, "");
+  if (/[{}]/.test(literal)) return "Unbalanced braces";
+  if (/[^a-zA-Z0-9._\-/]/.test(literal)) {
+    return "Only letters, numbers, '.', '_', '-' and '/' are allowed outside tokens";
+  }
+  if (template.startsWith("/")) return "Template must not start with '/'";
+  if (template.includes("//")) return "Template must not contain empty folders ('//')";
+  if (template.split("/").some((segment) => segment === "." || segment === "..")) {
+    return "Template must not contain '.' or '..' folders";
+  }
+  return null;
+}
+
+/** True when the same upload could render the key of an existing object. */
+export function templateNeedsCollisionSuffix(template: string): boolean {
+  const tokens = templateTokens(template);
+  // Only {uuid} keys never collide — {hash} is reported by the client, so a
+  // claimed hash could render another file's key and overwrite it
+  return !tokens.includes("uuid");
+}
+
+export interface ObjectKeyContext {
+  prefix: string;
+  projectId: string;
+  /** Already sanitized */
+  fileName: string;
+  contentHash?: string;
+  linkedModel?: string;
+  linkedModelId?: string;
+  uuid: string;
+  date: Date;
+}
+
+/** Token values that must be present for this template but are missing from ctx. */
+export function missingTemplateValues(
+  template: string,
+  ctx: Pick<ObjectKeyContext, "contentHash" | "linkedModel" | "linkedModelId">,
+): string[] {
+  const tokens = templateTokens(template);
+  const missing: string[] = [];
+  if (tokens.includes("hash") && !ctx.contentHash) missing.push("contentHash");
+  if (tokens.includes("linkedModel") && !ctx.linkedModel) missing.push("linkedModel");
+  if (tokens.includes("linkedModelId") && !ctx.linkedModelId) missing.push("linkedModelId");
+  return missing;
+}
+
+function splitExtension(fileName: string): { name: string; ext: string } {
+  const dot = fileName.lastIndexOf(".");
+  if (dot <= 0) return { name: fileName, ext: "" };
+  return { name: fileName.slice(0, dot), ext: fileName.slice(dot) };
+}
+
+const keySafe = (value: string) => value.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+export function renderObjectKey(template: string, ctx: ObjectKeyContext): string {
+  const { name, ext } = splitExtension(ctx.fileName);
+  const values: Record<ObjectKeyToken, string> = {
+    prefix: ctx.prefix,
+    projectId: ctx.projectId,
+    uuid: ctx.uuid,
+    filename: ctx.fileName,
+    name,
+    ext,
+    yyyy: String(ctx.date.getUTCFullYear()),
+    mm: String(ctx.date.getUTCMonth() + 1).padStart(2, "0"),
+    dd: String(ctx.date.getUTCDate()).padStart(2, "0"),
+    hash: (ctx.contentHash ?? "").toLowerCase(),
+    linkedModel: keySafe(ctx.linkedModel ?? ""),
+    linkedModelId: keySafe(ctx.linkedModelId ?? ""),
+  };
+  return template
+    .replace(TOKEN_PATTERN, (_, token: ObjectKeyToken) => values[token] ?? "")
+    .replace(/\/{2,}/g, "/");
+}
+
+/** "photos/cat.jpg" → "photos/cat-2.jpg" */
+export function withCollisionSuffix(objectKey: string, n: number): string {
+  const slash = objectKey.lastIndexOf("/");
+  const dir = objectKey.slice(0, slash + 1);
+  const { name, ext } = splitExtension(objectKey.slice(slash + 1));
+  return `${dir}${name}-${n}${ext}`;
+}
@@ -0,0 +1,84 @@
+// CloudFront signing keys for private buckets — one RSA key pair per bucket in
+// data/signing-keys/. The public key goes into the stack's key group; the
+// private key never leaves this machine and signs the URLs and cookies issued
+// by /api/buckets/signed-access
+
+import fs from "fs/promises";
+import path from "path";
+import { createPublicKey, generateKeyPairSync } from "crypto";
+import { getSignedCookies, getSignedUrl } from "@aws-sdk/cloudfront-signer";
+
+export const SIGNING_KEY_DIR = path.join(process.cwd(), "data", "signing-keys");
+
+function keyPathFor(s3BucketName: string): string {
+  return path.join(SIGNING_KEY_DIR, `${s3BucketName}.pem`);
+}
+
+/** The bucket's private key (PKCS#8 PEM), or null if none was generated yet. */
+export async function readSigningKey(s3BucketName: string): Promise<string | null> {
+  try {
+    return await fs.readFile(keyPathFor(s3BucketName), "utf-8");
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/**
+ * Public key (SPKI PEM) for the stack's key group. The key pair is generated
+ * on first use and reused afterwards, so redeploys keep the same CloudFront
+ * public key and earlier signatures stay valid.
+ */
+export async function ensureSigningPublicKey(s3BucketName: string): Promise<string> {
+  let privateKey = await readSigningKey(s3BucketName);
+  if (!privateKey) {
+    // CloudFront only accepts 2048-bit RSA keys
+    const pair = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: "spki", format: "pem" },
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    });
+    await fs.mkdir(SIGNING_KEY_DIR, { recursive: true });
+    await fs.writeFile(keyPathFor(s3BucketName), pair.privateKey, { mode: 0o600 });
+    privateKey = pair.privateKey;
+  }
+  return createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString();
+}
+
+/** Remove the key pair once the bucket itself is deleted. */
+export async function deleteSigningKey(s3BucketName: string): Promise<void> {
+  await fs.rm(keyPathFor(s3BucketName), { force: true });
+}
+
+/**
+ * Sign a CloudFront URL that expires at `expiresAt`. A resource ending in *
+ * (cookies only) covers every object under that prefix — CloudFront needs a
+ * custom policy for wildcards.
+ */
+export function signCdnResource(
+  type: "url" | "cookies",
+  resource: string,
+  keyPairId: string,
+  privateKey: string,
+  expiresAt: Date,
+): { url?: string; cookies?: Record<string, string> } {
+  if (type === "url") {
+    return { url: getSignedUrl({ url: resource, keyPairId, privateKey, dateLessThan: expiresAt }) };
+  }
+  const policy = JSON.stringify({
+    Statement: [
+      {
+        Resource: resource,
+        Condition: {
+          DateLessThan: { "AWS:EpochTime": Math.floor(expiresAt.getTime() / 1000) },
+        },
+      },
+    ],
+  });
+  const signed = getSignedCookies({ keyPairId, privateKey, policy });
+  const cookies: Record<string, string> = {};
+  for (const [name, value] of Object.entries(signed)) {
+    if (value !== undefined) cookies[name] = String(value);
+  }
+  return { cookies };
+}
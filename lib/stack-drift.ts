@@ -0,0 +1,128 @@
+// Stack drift rules — which drifted properties can be re-applied from the
+// template and which map back onto a bucket's stack config
+
+import {
+  RESTORABLE_BUCKET_PROPERTIES,
+  restoreBucketProperty,
+  type RestorableBucketProperty,
+  type StackDrift,
+  type StackResourceDrift,
+} from "@/lib/aws";
+import { STACK_CONFIG_KEYS } from "@/lib/bucket-config";
+import type { Bucket, BucketConfig, StackDriftResult } from "@/lib/types";
+
+const BUCKET_TYPE = "AWS::S3::Bucket";
+const BUCKET_POLICY_TYPE = "AWS::S3::BucketPolicy";
+
+/** "/BucketEncryption/ServerSideEncryptionConfiguration/0/…" → "BucketEncryption" */
+function topLevelProperty(propertyPath: string): string {
+  return propertyPath.split("/").filter(Boolean)[0] ?? "";
+}
+
+function restorableProperty(
+  resource: StackResourceDrift,
+  propertyPath: string,
+): RestorableBucketProperty | null {
+  if (resource.resourceType !== BUCKET_TYPE && resource.resourceType !== BUCKET_POLICY_TYPE) {
+    return null;
+  }
+  const property = topLevelProperty(propertyPath) as RestorableBucketProperty;
+  if (!RESTORABLE_BUCKET_PROPERTIES.includes(property)) return null;
+  if ((property === "PolicyDocument") !== (resource.resourceType === BUCKET_POLICY_TYPE)) {
+    return null;
+  }
+  // Nothing to write back when the template never set the property
+  return resource.expectedProperties[property] === undefined ? null : property;
+}
+
+/**
+ * Stack settings as the live resources have them — only the settings whose
+ * drift CloudFormation reported, so untouched settings keep their saved value.
+ */
+function liveStackConfig(resources: StackResourceDrift[]): Partial<BucketConfig> {
+  const live: Partial<BucketConfig> = {};
+
+  for (const resource of resources) {
+    if (resource.resourceType === "AWS::Backup::BackupPlan" && resource.driftStatus === "DELETED") {
+      live.backupEnabled = false;
+    }
+    if (resource.resourceType !== BUCKET_TYPE) continue;
+
+    for (const diff of resource.differences) {
+      if (diff.propertyPath.startsWith("/VersioningConfiguration")) {
+        live.versioning = diff.differenceType !== "REMOVE" && diff.actualValue.includes("Enabled");
+      } else if (diff.propertyPath.endsWith("/SSEAlgorithm")) {
+        if (diff.actualValue.startsWith("aws:kms")) live.encryption = "kms";
+        else if (diff.actualValue === "AES256") live.encryption = "s3";
+      }
+    }
+  }
+
+  return live;
+}
+
+/** The drift result sent to the sync dialog. */
+export function toStackDriftResult(bucket: Bucket, drift: StackDrift): StackDriftResult {
+  const live = liveStackConfig(drift.resources);
+  const acceptedConfig: Partial<BucketConfig> = {};
+  for (const key of STACK_CONFIG_KEYS) {
+    if (live[key] !== undefined && live[key] !== bucket.config[key]) {
+      Object.assign(acceptedConfig, { [key]: live[key] });
+    }
+  }
+
+  return {
+    bucketId: bucket.id,
+    stackDriftStatus: drift.stackDriftStatus,
+    detectionStatusReason: drift.detectionStatusReason,
+    detectedAt: drift.detectedAt,
+    resources: drift.resources.map((resource) => ({
+      logicalId: resource.logicalId,
+      physicalId: resource.physicalId,
+      resourceType: resource.resourceType,
+      driftStatus: resource.driftStatus,
+      differences: resource.differences.map((diff) => ({
+        ...diff,
+        reapplicable: !!restorableProperty(resource, diff.propertyPath),
+      })),
+    })),
+    acceptedConfig,
+  };
+}
+
+/**
+ * Write the template's value back for every drifted bucket setting that can
+ * be restored directly. Returns "<logicalId>.<property>" for what was restored
+ * and what has to be fixed some other way.
+ */
+export async function reapplyStackDrift(
+  bucket: Bucket,
+  drift: StackDrift,
+): Promise<{ restored: string[]; skipped: string[] }> {
+  const restored: string[] = [];
+  const skipped: string[] = [];
+
+  for (const resource of drift.resources) {
+    if (resource.driftStatus === "DELETED") {
+      skipped.push(resource.logicalId);
+      continue;
+    }
+    const properties = new Set<RestorableBucketProperty>();
+    for (const diff of resource.differences) {
+      const property = restorableProperty(resource, diff.propertyPath);
+      if (property) properties.add(property);
+      else skipped.push(`${resource.logicalId}${diff.propertyPath.replaceAll("/", ".")}`);
+    }
+    for (const property of properties) {
+      await restoreBucketProperty(
+        bucket.s3BucketName,
+        property,
+        resource.expectedProperties,
+        bucket.region,
+      );
+      restored.push(`${resource.logicalId}.${property}`);
+    }
+  }
+
+  return { restored, skipped };
+}
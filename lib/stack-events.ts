@@ -0,0 +1,88 @@
+// CloudFormation stack event watcher — polls DescribeStackEvents while a CDK
+// deploy or destroy runs and finds the resource that actually failed
+
+import { describeStackEvents } from "@/lib/aws";
+import type { StackEvent } from "@/lib/types";
+
+const POLL_INTERVAL_MS = 3000;
+/** Events are timestamped by AWS — allow for a local clock that runs ahead */
+const CLOCK_SKEW_MS = 10_000;
+
+/** Failures caused by another resource failing first */
+const CASCADE_REASON = /cancell?ed|failed to (create|update|delete): \[/i;
+
+export type StackEventLevel = "info" | "warn" | "error" | "success";
+
+export function stackEventLevel(event: StackEvent): StackEventLevel {
+  if (event.status.endsWith("_FAILED")) return "error";
+  if (event.status.includes("ROLLBACK")) return "warn";
+  if (event.status.endsWith("_COMPLETE")) return "success";
+  return "info";
+}
+
+/** "StorageBucket (AWS::S3::Bucket) CREATE_FAILED: <reason>" */
+export function formatStackEvent(event: StackEvent): string {
+  const reason = event.statusReason ? `: ${event.statusReason}` : "";
+  return `${event.logicalId} (${event.resourceType}) ${event.status}${reason}`;
+}
+
+/**
+ * The event that explains a failed deploy: the first resource failure whose
+ * reason is not a cancellation caused by another failure, falling back to
+ * the first failure or rollback of any kind.
+ */
+export function findRootCauseEvent(events: StackEvent[]): StackEvent | null {
+  const failures = events.filter((e) => e.status.endsWith("_FAILED"));
+  return (
+    failures.find((e) => e.statusReason && !CASCADE_REASON.test(e.statusReason)) ??
+    failures[0] ??
+    events.find((e) => e.status.includes("ROLLBACK_IN_PROGRESS") && e.statusReason) ??
+    null
+  );
+}
+
+/**
+ * Poll the stack's events from `since` on and hand each new one to `onEvent`.
+ * Polling errors are ignored — the stack may not exist yet, or AWS may
+ * throttle — and the next poll retries. `stop()` polls once more and returns
+ * every event seen.
+ */
+export function watchStackEvents(
+  s3BucketName: string,
+  region: string | undefined,
+  since: Date,
+  onEvent: (event: StackEvent) => void,
+): { stop: () => Promise<StackEvent[]> } {
+  const from = new Date(since.getTime() - CLOCK_SKEW_MS);
+  const seen = new Set<string>();
+  const events: StackEvent[] = [];
+  let polling: Promise<void> = Promise.resolve();
+
+  const poll = () => {
+    // Never run two polls at once, so events keep their order
+    polling = polling.then(async () => {
+      try {
+        for (const event of await describeStackEvents(s3BucketName, from, region)) {
+          if (seen.has(event.eventId)) continue;
+          seen.add(event.eventId);
+          events.push(event);
+          onEvent(event);
+        }
+      } catch {
+        // Retried on the next poll
+      }
+    });
+    return polling;
+  };
+
+  const timer = setInterval(poll, POLL_INTERVAL_MS);
+  poll();
+
+  return {
+    stop: async () => {
+      clearInterval(timer);
+      await poll();
+      return events;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+// Resolves the active storage driver from SCR_STORAGE_DRIVER (json | sqlite)
+
+import { jsonDriver } from "./json-driver";
+import { runMigrations } from "./migrations";
+import type { StorageDriver, StorageDriverName } from "./types";
+
+export type { StorageDriver, StorageDriverName } from "./types";
+
+let driverPromise: Promise<StorageDriver> | null = null;
+
+function configuredDriverName(): StorageDriverName {
+  const name = (process.env.SCR_STORAGE_DRIVER || "json").toLowerCase();
+  if (name !== "json" && name !== "sqlite") {
+    throw new Error(
+      `Unknown SCR_STORAGE_DRIVER "${name}". Use "json" or "sqlite".`,
+    );
+  }
+  return name;
+}
+
+/**
+ * Get the configured driver. The SQLite driver is only loaded when selected.
+ * Schema migrations run once, before the driver is first handed out.
+ */
+export function getStorageDriver(): Promise<StorageDriver> {
+  if (!driverPromise) {
+    const opened =
+      configuredDriverName() === "sqlite"
+        ? import("./sqlite-driver").then((m) => m.createSqliteDriver())
+        : Promise.resolve(jsonDriver);
+    driverPromise = opened.then(async (driver) => {
+      await runMigrations(driver);
+      return driver;
+    });
+    // Let a failed SQLite open be retried on the next call
+    driverPromise.catch(() => {
+      driverPromise = null;
+    });
+  }
+  return driverPromise;
+}
@@ -0,0 +1,243 @@
+// JSON file storage driver — one data/<collection>.json file per collection,
+// stored as { "version": n, "records": [...] } (bare arrays are read as version 0)
+//
+// Writes are serialized per collection, go through a temp file + rename so a
+// crash never leaves a half-written file, and keep the last few versions in
+// data/.backups/. A file that fails to parse is never overwritten.
+
+import fs from "fs/promises";
+import path from "path";
+import { currentVersion } from "./migrations";
+import type { StorageDriver } from "./types";
+
+export const DATA_DIR = path.join(process.cwd(), "data");
+export const BACKUP_DIR = path.join(DATA_DIR, ".backups");
+
+/** How many previous versions of each file to keep (SCR_JSON_BACKUPS, default 5). */
+const BACKUP_COUNT = Math.max(0, Number(process.env.SCR_JSON_BACKUPS ?? 5) || 0);
+
+async function ensureDataDir() {
+  try {
+    await fs.access(DATA_DIR);
+  } catch {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+  }
+}
+
+function filePathFor(collection: string): string {
+  return path.join(DATA_DIR, `${collection}.json`);
+}
+
+// ── Per-collection write queue ───────────────────────────────────────────────
+
+const queues = new Map<string, Promise<unknown>>();
+
+/** Run `task` after every earlier write to the same collection has settled. */
+function withCollectionLock<R>(
+  collection: string,
+  task: () => Promise<R>,
+): Promise<R> {
+  const previous = queues.get(collection) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  const tail = next.catch(() => undefined);
+  queues.set(collection, tail);
+  tail.then(() => {
+    if (queues.get(collection) === tail) queues.delete(collection);
+  });
+  return next;
+}
+
+// ── Reading ──────────────────────────────────────────────────────────────────
+
+interface Envelope<T> {
+  version: number;
+  records: T[];
+}
+
+/** Interpret parsed JSON as an envelope; legacy bare arrays become version 0. */
+export function toEnvelope<T>(parsed: unknown): Envelope<T> | null {
+  if (Array.isArray(parsed)) return { version: 0, records: parsed as T[] };
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    typeof (parsed as Envelope<T>).version === "number" &&
+    Array.isArray((parsed as Envelope<T>).records)
+  ) {
+    return parsed as Envelope<T>;
+  }
+  return null;
+}
+
+function parseEnvelope<T>(content: string, label: string): Envelope<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new Error(
+      `${label} could not be parsed (${e instanceof Error ? e.message : "invalid JSON"}). ` +
+        `Refusing to overwrite it — fix the file or restore a copy from data/.backups/.`,
+    );
+  }
+  const envelope = toEnvelope<T>(parsed);
+  if (!envelope) {
+    throw new Error(
+      `${label} does not contain a record list. ` +
+        `Refusing to overwrite it — fix the file or restore a copy from data/.backups/.`,
+    );
+  }
+  return envelope;
+}
+
+function serialize<T>(envelope: Envelope<T>): string {
+  return JSON.stringify(envelope, null, 2);
+}
+
+async function readEnvelope<T>(collection: string): Promise<Envelope<T>> {
+  await ensureDataDir();
+  const filePath = filePathFor(collection);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+    const empty: Envelope<T> = { version: currentVersion(collection), records: [] };
+    // Exclusive create: never clobber a file another writer just renamed in
+    await fs
+      .writeFile(filePath, serialize(empty), { encoding: "utf-8", flag: "wx" })
+      .catch(() => undefined);
+    return empty;
+  }
+
+  return parseEnvelope<T>(content, `data/${collection}.json`);
+}
+
+async function readAll<T>(collection: string): Promise<T[]> {
+  return (await readEnvelope<T>(collection)).records;
+}
+
+// ── Writing ──────────────────────────────────────────────────────────────────
+
+let tempCounter = 0;
+
+/** Write to a temp file, flush it to disk, then rename over the target. */
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${++tempCounter}.tmp`;
+  const handle = await fs.open(tempPath, "w");
+  try {
+    await handle.writeFile(content, "utf-8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (e) {
+    await fs.rm(tempPath, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Shift data/.backups/<collection>.json.1 … .N up by one and copy the current
+ * file into slot 1. Only called after the current file parsed successfully.
+ */
+async function rotateBackups(collection: string): Promise<void> {
+  if (BACKUP_COUNT === 0) return;
+  await fs.mkdir(BACKUP_DIR, { recursive: true });
+  const base = path.join(BACKUP_DIR, `${collection}.json`);
+
+  await fs.rm(`${base}.${BACKUP_COUNT}`, { force: true });
+  for (let i = BACKUP_COUNT - 1; i >= 1; i--) {
+    try {
+      await fs.rename(`${base}.${i}`, `${base}.${i + 1}`);
+    } catch {
+      // Slot not filled yet
+    }
+  }
+  try {
+    await fs.copyFile(filePathFor(collection), `${base}.1`);
+  } catch {
+    // Nothing to back up yet
+  }
+}
+
+/** Must be called while holding the collection lock. */
+async function writeCollection<T>(
+  collection: string,
+  envelope: Envelope<T>,
+): Promise<void> {
+  await ensureDataDir();
+  await rotateBackups(collection);
+  await writeAtomic(filePathFor(collection), serialize(envelope));
+}
+
+export const jsonDriver: StorageDriver = {
+  name: "json",
+
+  async getVersion(collection) {
+    return (await readEnvelope(collection)).version;
+  },
+
+  readAll,
+
+  replaceAll(collection, items, version) {
+    return withCollectionLock(collection, async () => {
+      // Parsing first means a corrupt file is reported, not replaced
+      const current = await readEnvelope(collection);
+      await writeCollection(collection, {
+        version: version ?? current.version,
+        records: items,
+      });
+    });
+  },
+
+  insert(collection, item) {
+    return withCollectionLock(collection, async () => {
+      const envelope = await readEnvelope<typeof item>(collection);
+      envelope.records.push(item);
+      await writeCollection(collection, envelope);
+      return item;
+    });
+  },
+
+  update<T extends { id: string }>(
+    collection: string,
+    id: string,
+    updates: Partial<T>,
+  ) {
+    return withCollectionLock(collection, async () => {
+      const envelope = await readEnvelope<T>(collection);
+      const items = envelope.records;
+      const index = items.findIndex((item) => item.id === id);
+      if (index === -1) return null;
+      items[index] = { ...items[index], ...updates };
+      await writeCollection(collection, envelope);
+      return items[index];
+    });
+  },
+
+  mutate<T>(collection: string, fn: (items: T[]) => T[]) {
+    return withCollectionLock(collection, async () => {
+      const envelope = await readEnvelope<T>(collection);
+      const next = fn(envelope.records);
+      await writeCollection(collection, { ...envelope, records: next });
+      return next;
+    });
+  },
+
+  remove<T extends { id: string }>(collection: string, id: string) {
+    return withCollectionLock(collection, async () => {
+      const envelope = await readEnvelope<T>(collection);
+      const filtered = envelope.records.filter((item) => item.id !== id);
+      if (filtered.length === envelope.records.length) return false;
+      await writeCollection(collection, { ...envelope, records: filtered });
+      return true;
+    });
+  },
+
+  async findById<T extends { id: string }>(collection: string, id: string) {
+    const items = await readAll<T>(collection);
+    return items.find((item) => item.id === id) ?? null;
+  },
+};
@@ -0,0 +1,70 @@
+// One-shot import of the existing data/*.json files into the SQLite database
+
+import fs from "fs/promises";
+import path from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import { DATA_DIR, toEnvelope } from "./json-driver";
+
+const MIGRATION_KEY = "json-import";
+
+export interface JsonImportResult {
+  collection: string;
+  version: number;
+  records: number;
+}
+
+/**
+ * Copy every collection file in data/ into its matching collection, keeping
+ * its schema version so the migration runner can upgrade it afterwards.
+ * Runs once per database: completion is recorded in the `meta` table, and the
+ * JSON files are left untouched so switching back to the JSON driver still works.
+ * Files that are not record lists, such as system.json, are skipped.
+ */
+export async function importJsonCollections(
+  db: BetterSqlite3.Database,
+  replaceCollection: (
+    collection: string,
+    items: unknown[],
+    version: number,
+  ) => void,
+): Promise<JsonImportResult[] | null> {
+  const done = db
+    .prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?")
+    .get(MIGRATION_KEY);
+  if (done) return null;
+
+  let entries: string[] = [];
+  try {
+    entries = await fs.readdir(DATA_DIR);
+  } catch {
+    // No data directory yet — nothing to import
+  }
+
+  const results: JsonImportResult[] = [];
+  for (const entry of entries.filter((e) => e.endsWith(".json"))) {
+    const collection = entry.replace(/\.json$/, "");
+    let parsed: unknown;
+    try {
+      const content = await fs.readFile(path.join(DATA_DIR, entry), "utf-8");
+      parsed = content.trim() ? JSON.parse(content) : [];
+    } catch (e) {
+      throw new Error(
+        `Cannot import ${entry} into SQLite: ${e instanceof Error ? e.message : "unreadable file"}`,
+      );
+    }
+    const envelope = toEnvelope(parsed);
+    if (!envelope) continue;
+    replaceCollection(collection, envelope.records, envelope.version);
+    results.push({
+      collection,
+      version: envelope.version,
+      records: envelope.records.length,
+    });
+  }
+
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?)").run(
+    MIGRATION_KEY,
+    JSON.stringify({ importedAt: new Date().toISOString(), results }),
+  );
+  return results;
+}
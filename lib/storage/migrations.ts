@@ -0,0 +1,298 @@
+// Schema versions and record migrations for the data collections
+//
+// Every collection is stored with a version number. On startup the runner
+// upgrades records written by older versions one step at a time, validates
+// every record against its Zod schema and reports records it cannot migrate.
+// Invalid records are kept as they are — nothing is dropped.
+
+import type { z } from "zod";
+import {
+  projectRecordSchema,
+  bucketRecordSchema,
+  fileRecordSchema,
+  environmentRecordSchema,
+  uploadSessionRecordSchema,
+} from "@/lib/validations";
+import { DEFAULT_OBJECT_KEY_TEMPLATE } from "@/lib/object-keys";
+import type { StorageDriver } from "./types";
+
+type StoredRecord = Record<string, unknown>;
+
+interface CollectionMigrations {
+  /** Current schema version. Bump it together with a new `upgrades` entry. */
+  version: number;
+  schema: z.ZodType;
+  /** upgrades[n] turns a version n-1 record into a version n record. */
+  upgrades: Record<number, (record: StoredRecord) => StoredRecord>;
+}
+
+const DEFAULT_BUCKET_CONFIG = {
+  versioning: false,
+  encryption: "s3",
+  backupEnabled: false,
+  maxFileSizeMB: 100,
+};
+
+// Version 0 is any bare JSON array written before files carried a version.
+export const COLLECTIONS: Record<string, CollectionMigrations> = {
+  projects: {
+    version: 2,
+    schema: projectRecordSchema,
+    upgrades: {
+      1: (p) => ({
+        ...p,
+        maxFileSizeMB: p.maxFileSizeMB ?? 100,
+        allowedMimeTypes: p.allowedMimeTypes ?? [],
+        updatedAt: p.updatedAt ?? p.createdAt,
+      }),
+      2: (p) => ({
+        ...p,
+        objectKeyTemplate: p.objectKeyTemplate ?? DEFAULT_OBJECT_KEY_TEMPLATE,
+      }),
+    },
+  },
+  buckets: {
+    version: 5,
+    schema: bucketRecordSchema,
+    upgrades: {
+      1: (b) => ({
+        ...b,
+        projectId: b.projectId ?? "",
+        s3BucketArn: b.s3BucketArn ?? "",
+        cloudFrontDomain: b.cloudFrontDomain ?? "",
+        cloudFrontDistributionId: b.cloudFrontDistributionId ?? "",
+        config: { ...DEFAULT_BUCKET_CONFIG, ...(b.config as object | undefined) },
+        updatedAt: b.updatedAt ?? b.createdAt,
+      }),
+      // Stacks deployed before the config was passed to CDK were built with
+      // the defaults, so any other saved setting shows up as a pending change
+      2: (b) => ({
+        ...b,
+        deployedConfig:
+          b.deployedConfig ??
+          (b.cloudFrontDistributionId
+            ? {
+                ...(b.config as object),
+                versioning: DEFAULT_BUCKET_CONFIG.versioning,
+                encryption: DEFAULT_BUCKET_CONFIG.encryption,
+                backupEnabled: DEFAULT_BUCKET_CONFIG.backupEnabled,
+              }
+            : undefined),
+      }),
+      // Stacks built before OAC became the default use an OAI unless they are
+      // SSE-KMS; switching them is a pending change the user applies
+      3: (b) => {
+        const legacyAccess = (config: unknown) => {
+          const c = config as { encryption?: string; originAccess?: string };
+          return { ...c, originAccess: c.originAccess ?? (c.encryption === "kms" ? "oac" : "oai") };
+        };
+        return {
+          ...b,
+          config: b.cloudFrontDistributionId
+            ? legacyAccess(b.config)
+            : { originAccess: "oac", ...(b.config as object) },
+          deployedConfig: b.deployedConfig ? legacyAccess(b.deployedConfig) : undefined,
+          deployHistory: (b.deployHistory as StoredRecord[] | undefined)?.map((d) => ({
+            ...d,
+            fromConfig: d.fromConfig ? legacyAccess(d.fromConfig) : undefined,
+            config: legacyAccess(d.config),
+          })),
+        };
+      },
+      // Every stack so far serves objects publicly
+      4: (b) => {
+        const publicDelivery = (config: unknown) => ({ privateDelivery: false, ...(config as object) });
+        return {
+          ...b,
+          config: publicDelivery(b.config),
+          deployedConfig: b.deployedConfig ? publicDelivery(b.deployedConfig) : undefined,
+          deployHistory: (b.deployHistory as StoredRecord[] | undefined)?.map((d) => ({
+            ...d,
+            fromConfig: d.fromConfig ? publicDelivery(d.fromConfig) : undefined,
+            config: publicDelivery(d.config),
+          })),
+        };
+      },
+      // No stack sent security headers before they became an option
+      5: (b) => {
+        const noHeaders = (config: unknown) => ({ securityHeaders: false, ...(config as object) });
+        return {
+          ...b,
+          config: noHeaders(b.config),
+          deployedConfig: b.deployedConfig ? noHeaders(b.deployedConfig) : undefined,
+          deployHistory: (b.deployHistory as StoredRecord[] | undefined)?.map((d) => ({
+            ...d,
+            fromConfig: d.fromConfig ? noHeaders(d.fromConfig) : undefined,
+            config: noHeaders(d.config),
+          })),
+        };
+      },
+    },
+  },
+  files: {
+    version: 2,
+    schema: fileRecordSchema,
+    upgrades: {
+      1: (f) => ({
+        ...f,
+        cloudFrontUrl: f.cloudFrontUrl ?? "",
+        mimeType: f.mimeType || "application/octet-stream",
+        linkedModel: f.linkedModel ?? "",
+        linkedModelId: f.linkedModelId ?? "",
+      }),
+      // Records from before the confirm step were never verified; treat them as uploaded
+      2: (f) => ({ ...f, status: f.status ?? "uploaded" }),
+    },
+  },
+  environments: {
+    version: 1,
+    schema: environmentRecordSchema,
+    upgrades: {
+      1: (e) => ({
+        ...e,
+        alias: e.alias ?? e.region,
+        bootstrappedAt: e.bootstrappedAt ?? "",
+      }),
+    },
+  },
+  "upload-sessions": {
+    version: 1,
+    schema: uploadSessionRecordSchema,
+    upgrades: {},
+  },
+};
+
+/** Version new collections are created at. Unregistered collections stay at 1. */
+export function currentVersion(collection: string): number {
+  return COLLECTIONS[collection]?.version ?? 1;
+}
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+export interface MigrationIssue {
+  collection: string;
+  recordId: string | null;
+  index: number;
+  error: string;
+}
+
+export interface CollectionMigrationResult {
+  collection: string;
+  fromVersion: number;
+  toVersion: number;
+  records: number;
+  migrated: boolean;
+  error?: string;
+}
+
+export interface MigrationReport {
+  ranAt: string;
+  driver: StorageDriver["name"];
+  collections: CollectionMigrationResult[];
+  issues: MigrationIssue[];
+}
+
+let lastReport: MigrationReport | null = null;
+
+/** The report from the most recent run, or null if migrations have not run yet. */
+export function getLastMigrationReport(): MigrationReport | null {
+  return lastReport;
+}
+
+function describeError(e: unknown): string {
+  if (e && typeof e === "object" && "issues" in e) {
+    const issues = (e as z.ZodError).issues;
+    return issues
+      .map((i) => `${i.path.join(".") || "(record)"}: ${i.message}`)
+      .join("; ");
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+export async function runMigrations(
+  driver: StorageDriver,
+): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    ranAt: new Date().toISOString(),
+    driver: driver.name,
+    collections: [],
+    issues: [],
+  };
+
+  for (const [collection, spec] of Object.entries(COLLECTIONS)) {
+    const result: CollectionMigrationResult = {
+      collection,
+      fromVersion: spec.version,
+      toVersion: spec.version,
+      records: 0,
+      migrated: false,
+    };
+    report.collections.push(result);
+
+    try {
+      const fromVersion = await driver.getVersion(collection);
+      const records = await driver.readAll<StoredRecord>(collection);
+      result.fromVersion = fromVersion;
+      result.records = records.length;
+
+      if (fromVersion > spec.version) {
+        result.error = `Stored at version ${fromVersion}, newer than this app supports (${spec.version}). Left untouched.`;
+        continue;
+      }
+
+      const upgraded = records.map((original, index) => {
+        let record = original;
+        try {
+          for (let v = fromVersion + 1; v <= spec.version; v++) {
+            const upgrade = spec.upgrades[v];
+            if (upgrade) record = upgrade(record);
+          }
+        } catch (e) {
+          report.issues.push({
+            collection,
+            recordId: typeof original.id === "string" ? original.id : null,
+            index,
+            error: `Upgrade failed: ${describeError(e)}`,
+          });
+          return original;
+        }
+
+        const parsed = spec.schema.safeParse(record);
+        if (!parsed.success) {
+          report.issues.push({
+            collection,
+            recordId: typeof record.id === "string" ? record.id : null,
+            index,
+            error: describeError(parsed.error),
+          });
+        }
+        return record;
+      });
+
+      if (fromVersion < spec.version) {
+        await driver.replaceAll(collection, upgraded, spec.version);
+        result.migrated = true;
+      }
+    } catch (e) {
+      result.error = describeError(e);
+    }
+  }
+
+  lastReport = report;
+
+  for (const c of report.collections) {
+    if (c.migrated) {
+      console.info(
+        `[migrations] ${c.collection}: v${c.fromVersion} → v${c.toVersion} (${c.records} records)`,
+      );
+    }
+    if (c.error) console.warn(`[migrations] ${c.collection}: ${c.error}`);
+  }
+  for (const issue of report.issues) {
+    console.warn(
+      `[migrations] ${issue.collection}[${issue.recordId ?? `#${issue.index}`}]: ${issue.error}`,
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,154 @@
+// SQLite storage driver — every collection lives in one local database file
+
+import path from "path";
+import type BetterSqlite3 from "better-sqlite3";
+import { DATA_DIR } from "./json-driver";
+import { importJsonCollections } from "./migrate-json";
+import { currentVersion } from "./migrations";
+import type { StorageDriver } from "./types";
+
+export const SQLITE_PATH =
+  process.env.SCR_SQLITE_PATH || path.join(DATA_DIR, "storage.db");
+
+// Records keep their JSON shape in `data`; `seq` preserves insertion order so
+// readAll returns items in the same order the JSON driver would.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection TEXT NOT NULL,
+    id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS records_collection_id
+    ON records (collection, id);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+function recordId(item: unknown): string | null {
+  if (item && typeof item === "object" && "id" in item) {
+    const id = (item as { id: unknown }).id;
+    return typeof id === "string" ? id : null;
+  }
+  return null;
+}
+
+export async function createSqliteDriver(): Promise<StorageDriver> {
+  const fs = await import("fs/promises");
+  await fs.mkdir(path.dirname(SQLITE_PATH), { recursive: true });
+
+  const { default: Database } = await import("better-sqlite3");
+  const db: BetterSqlite3.Database = new Database(SQLITE_PATH);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const selectAll = db.prepare<[string], { data: string }>(
+    "SELECT data FROM records WHERE collection = ? ORDER BY seq",
+  );
+  const selectOne = db.prepare<[string, string], { data: string }>(
+    "SELECT data FROM records WHERE collection = ? AND id = ?",
+  );
+  const insertOne = db.prepare<[string, string | null, string]>(
+    "INSERT INTO records (collection, id, data) VALUES (?, ?, ?)",
+  );
+  const updateOne = db.prepare<[string, string, string]>(
+    "UPDATE records SET data = ? WHERE collection = ? AND id = ?",
+  );
+  const deleteOne = db.prepare<[string, string]>(
+    "DELETE FROM records WHERE collection = ? AND id = ?",
+  );
+  const deleteCollection = db.prepare<[string]>(
+    "DELETE FROM records WHERE collection = ?",
+  );
+  // Schema versions live in `meta` under "version:<collection>"
+  const selectMeta = db.prepare<[string], { value: string }>(
+    "SELECT value FROM meta WHERE key = ?",
+  );
+  const upsertMeta = db.prepare<[string, string]>(
+    "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+  );
+
+  const replaceTx = db.transaction(
+    (collection: string, items: unknown[], version?: number) => {
+      deleteCollection.run(collection);
+      for (const item of items) {
+        insertOne.run(collection, recordId(item), JSON.stringify(item));
+      }
+      if (version !== undefined) {
+        upsertMeta.run(`version:${collection}`, String(version));
+      }
+    },
+  );
+
+  const mutateTx = db.transaction(
+    (collection: string, fn: (items: unknown[]) => unknown[]) => {
+      const current = selectAll
+        .all(collection)
+        .map((row) => JSON.parse(row.data) as unknown);
+      const next = fn(current);
+      replaceTx(collection, next);
+      return next;
+    },
+  );
+
+  const updateTx = db.transaction(
+    (collection: string, id: string, updates: object) => {
+      const row = selectOne.get(collection, id);
+      if (!row) return null;
+      const merged = { ...JSON.parse(row.data), ...updates };
+      updateOne.run(JSON.stringify(merged), collection, id);
+      return merged;
+    },
+  );
+
+  await importJsonCollections(db, (collection, items, version) =>
+    replaceTx(collection, items, version),
+  );
+
+  return {
+    name: "sqlite",
+
+    async getVersion(collection) {
+      const row = selectMeta.get(`version:${collection}`);
+      return row ? Number(row.value) : currentVersion(collection);
+    },
+
+    async readAll<T>(collection: string) {
+      return selectAll
+        .all(collection)
+        .map((row) => JSON.parse(row.data) as T);
+    },
+
+    async replaceAll(collection, items, version) {
+      replaceTx(collection, items, version);
+    },
+
+    async mutate<T>(collection: string, fn: (items: T[]) => T[]) {
+      return mutateTx(collection, fn as (items: unknown[]) => unknown[]) as T[];
+    },
+
+    async insert(collection, item) {
+      insertOne.run(collection, item.id, JSON.stringify(item));
+      return item;
+    },
+
+    async update<T extends { id: string }>(
+      collection: string,
+      id: string,
+      updates: Partial<T>,
+    ) {
+      return updateTx(collection, id, updates) as T | null;
+    },
+
+    async remove(collection, id) {
+      return deleteOne.run(collection, id).changes > 0;
+    },
+
+    async findById<T extends { id: string }>(collection: string, id: string) {
+      const row = selectOne.get(collection, id);
+      return row ? (JSON.parse(row.data) as T) : null;
+    },
+  };
+}
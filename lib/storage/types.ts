@@ -0,0 +1,32 @@
+// Storage driver contract shared by the JSON and SQLite backends
+
+export type StorageDriverName = "json" | "sqlite";
+
+/**
+ * A collection is one logical list of records, e.g. "files" for data/files.json.
+ * Drivers only deal with collections; lib/filesystem.ts maps file names onto them.
+ * Each collection also carries the schema version its records were written at.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  getVersion(collection: string): Promise<number>;
+  readAll<T>(collection: string): Promise<T[]>;
+  /** Replace every record; `version` is only changed when given. */
+  replaceAll<T>(collection: string, items: T[], version?: number): Promise<void>;
+  /** Read-modify-write of a whole collection as a single serialized step. */
+  mutate<T>(collection: string, fn: (items: T[]) => T[]): Promise<T[]>;
+  insert<T extends { id: string }>(collection: string, item: T): Promise<T>;
+  update<T extends { id: string }>(
+    collection: string,
+    id: string,
+    updates: Partial<T>,
+  ): Promise<T | null>;
+  remove<T extends { id: string }>(
+    collection: string,
+    id: T["id"],
+  ): Promise<boolean>;
+  findById<T extends { id: string }>(
+    collection: string,
+    id: string,
+  ): Promise<T | null>;
+}
@@ -20,15 +20,62 @@ export interface Project {
   environment: "dev" | "prod";
   maxFileSizeMB: number;
   allowedMimeTypes: string[];
+  /** Layout of uploaded object keys — see lib/object-keys.ts for the tokens */
+  objectKeyTemplate: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** A bucket affected by deleting its project */
+export interface ProjectBucketImpact {
+  id: string;
+  name: string;
+  s3BucketName: string;
+  region: string;
+  status: Bucket["status"];
+  /** Whether the bucket has a deployed SCR- stack */
+  hasStack: boolean;
+  /** Objects and bytes tracked in files.json */
+  fileCount: number;
+  totalBytes: number;
+}
+
+/** What deleting a project affects, shown before its buckets are reassigned, detached or torn down */
+export interface ProjectDeletionImpact {
+  projectId: string;
+  projectName: string;
+  buckets: ProjectBucketImpact[];
+  stackCount: number;
+  fileCount: number;
+  totalBytes: number;
+}
+
+/** What happens to a project's buckets when it is deleted — "teardown" runs each bucket's full delete first */
+export type ProjectBucketDisposition = "reassign" | "detach" | "teardown";
+
+/** How CloudFront reads from the bucket — "oai" is the legacy Origin Access Identity */
+export type OriginAccessMode = "oai" | "oac";
+
 export interface BucketConfig {
   versioning: boolean;
   encryption: "s3" | "kms" | "none";
   backupEnabled: boolean;
   maxFileSizeMB: number;
+  originAccess: OriginAccessMode;
+  /** Only viewers with a CloudFront-signed URL or cookies can read objects */
+  privateDelivery: boolean;
+  /** HSTS, Content-Security-Policy and nosniff response headers on every file */
+  securityHeaders: boolean;
+  /** WAF rate limit — requests per IP in any 5-minute window */
+  wafRateLimit?: number;
+  /** WAF geo restriction — ISO 3166 country codes that are blocked */
+  wafBlockedCountries?: string[];
+  /** Hotlink protection — sites allowed in the Referer header (requests without one pass) */
+  hotlinkDomains?: string[];
+  /** Alias served by the distribution — needs an issued certificateArn */
+  customDomain?: string;
+  /** ACM certificate (us-east-1) covering customDomain */
+  certificateArn?: string;
 }
 
 export interface Bucket {
@@ -42,10 +89,104 @@ export interface Bucket {
   region: string;
   status: "pending" | "deploying" | "active" | "failed" | "deleting";
   config: BucketConfig;
+  /** Config the live stack was last deployed with — differs from `config` while changes are pending */
+  deployedConfig?: BucketConfig;
+  deployHistory?: BucketDeployment[];
+  /** Custom domain being set up — staged into config once its certificate is issued */
+  customDomain?: BucketCustomDomain;
+  /** CloudFront public key id of the stack's key group — set while private delivery is deployed */
+  signingKeyPairId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/** A DNS record the user has to create at their DNS provider */
+export interface DnsRecord {
+  name: string;
+  type: "CNAME";
+  value: string;
+}
+
+export interface BucketCustomDomain {
+  domainName: string;
+  certificateArn: string;
+  /** Requested from ACM with DNS validation, or imported from PEM files */
+  certificateSource: "requested" | "imported";
+  /** ACM certificate status, e.g. PENDING_VALIDATION, ISSUED, FAILED */
+  certificateStatus: string;
+  /** CNAME records ACM checks before issuing a requested certificate */
+  validationRecords: DnsRecord[];
+  createdAt: string;
+}
+
+/** A time-limited grant to read one object (signed URL) or a prefix (signed cookies) */
+export interface SignedCdnAccess {
+  type: "url" | "cookies";
+  /** The URL the signature covers — ends in * for a prefix */
+  resource: string;
+  expiresAt: string;
+  url?: string;
+  /** CloudFront-Policy, CloudFront-Signature and CloudFront-Key-Pair-Id */
+  cookies?: Record<string, string>;
+}
+
+/** One CDK deploy of a bucket's stack, newest last in Bucket.deployHistory */
+export interface BucketDeployment {
+  id: string;
+  kind: "create" | "update" | "destroy";
+  status: "success" | "failed";
+  /** Deployed config before this run — absent for the first deploy */
+  fromConfig?: BucketConfig;
+  config: BucketConfig;
+  cloudFrontDomain: string;
+  startedAt: string;
+  finishedAt: string;
+  error?: string;
+  /** DeployRun with the full log of this deploy */
+  runId?: string;
+}
+
+export type DeployJobAction = "synth" | "diff" | "deploy" | "destroy";
+
+/** A CDK run in the server-side deploy queue — kept in memory, not persisted */
+export interface DeployJob {
+  id: string;
+  action: DeployJobAction;
+  bucketId?: string;
+  bucketName?: string;
+  s3BucketName: string;
+  region: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  /** Job's cloud assembly and outputs file, relative to infrastructure/cdk */
+  outputDir: string;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/** A finished CDK run, archived with its NDJSON log in data/deploy-logs/<id>.ndjson */
+export interface DeployRun {
+  /** Same id as the DeployJob that ran it */
+  id: string;
+  action: DeployJobAction;
+  bucketId?: string;
+  bucketName?: string;
+  s3BucketName: string;
+  region: string;
+  /** user@host of the dashboard server — the dashboard has no accounts */
+  actor: string;
+  status: "success" | "failed";
+  /** Exit code of the CDK process, null if it never ran */
+  exitCode: number | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** Stack outputs captured by a deploy */
+  outputs?: Record<string, string>;
+  lineCount: number;
+}
+
 export interface DeletionStep {
   id: string;
   label: string;
@@ -63,14 +204,63 @@ export interface FileRecord {
   mimeType: string;
   linkedModel: string;
   linkedModelId: string;
+  /**
+   * "pending" until the object has been confirmed in S3 with HeadObject;
+   * "quarantined" when its content failed inspection (see `quarantine`)
+   */
+  status: "pending" | "uploaded" | "quarantined";
+  /** Set on confirmation from the object's HeadObject response */
+  etag?: string;
+  /** Base64 SHA-256 from S3, or computed at confirmation to verify contentHash */
+  checksumSHA256?: string;
+  uploadedAt?: string;
+  /** SHA-256 (hex) of the content, as computed by the uploader */
+  contentHash?: string;
+  /** Set when this record reuses the object of an identical earlier upload (that record's id) */
+  dedupOf?: string;
+  quarantine?: FileQuarantine;
   createdAt: string;
 }
 
+/** Why an object was moved under quarantine/ after upload */
+export interface FileQuarantine {
+  reason: string;
+  /** Type sniffed from the content, null if it could not be identified */
+  detectedMimeType: string | null;
+  originalObjectKey: string;
+  quarantinedAt: string;
+}
+
+/**
+ * An upload in flight, stored in upload-sessions.json from the moment its
+ * FileRecord is written until the object is confirmed in S3 (or reconciled away).
+ */
+export interface UploadSession {
+  id: string;
+  fileId: string;
+  projectId: string;
+  bucketName: string;
+  objectKey: string;
+  /** S3 multipart upload ID — empty for single-request uploads, which cannot resume. */
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  /** File.lastModified from the browser, used to match a re-selected file on resume */
+  fileLastModified: number;
+  mimeType: string;
+  partSize: number;
+  partCount: number;
+  completedParts: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ProjectFormData {
   name: string;
   environment: "dev" | "prod";
   maxFileSizeMB: number;
   allowedMimeTypes: string[];
+  objectKeyTemplate?: string;
 }
 
 export interface BucketFormData {
@@ -79,6 +269,9 @@ export interface BucketFormData {
   region: string;
 }
 
+/** "put" = presigned PutObject URL, "post" = presigned POST policy enforced by S3 */
+export type UploadMethod = "put" | "post";
+
 export interface UploadRequest {
   projectId: string;
   bucketName: string;
@@ -87,10 +280,16 @@ export interface UploadRequest {
   mimeType: string;
   linkedModel?: string;
   linkedModelId?: string;
+  /** SHA-256 of the content (hex) — required when the key template uses {hash} */
+  contentHash?: string;
+  uploadMethod?: UploadMethod;
 }
 
 export interface PresignedUrlResponse {
+  uploadMethod: UploadMethod;
   uploadUrl: string;
+  /** Form fields to send before the file — POST uploads only */
+  fields?: Record<string, string>;
   objectKey: string;
   cloudFrontUrl: string;
 }
@@ -115,6 +314,10 @@ export interface BucketAnalytics {
   estimatedMonthlyCost: number;
   readRequests: number;
   writeRequests: number;
+  /** FileRecords linked to an existing object instead of uploading it again */
+  dedupLinkedFiles: number;
+  /** Bytes those linked records did not upload or store */
+  dedupSavedBytes: number;
 }
 
 // ── Cost & Expense types ─────────────────────────────────────────────────────
@@ -179,6 +382,58 @@ export interface OverallCostSummary {
   costByService: { service: string; cost: number }[];
 }
 
+// ── CloudFront ──────────────────────────────────────────────────────────────
+
+/** A cache invalidation of a CloudFront distribution */
+export interface CloudFrontInvalidation {
+  id: string;
+  distributionId: string;
+  /** "InProgress" until every edge location has dropped the paths, then "Completed" */
+  status: string;
+  createTime: string;
+  /** Only set when the invalidation was created or fetched by id */
+  paths?: string[];
+}
+
+/** A custom error response of a CloudFront distribution */
+export interface DistributionErrorResponse {
+  errorCode: number;
+  /** Page served instead, e.g. "/index.html" — empty to only cache the error */
+  responsePagePath: string;
+  /** Status code sent with the page — empty keeps the original */
+  responseCode: string;
+  errorCachingMinTtl: number;
+}
+
+/** The CloudFront settings editable from the distributions page */
+export interface DistributionSettings {
+  enabled: boolean;
+  priceClass: "PriceClass_100" | "PriceClass_200" | "PriceClass_All";
+  defaultRootObject: string;
+  /** TTLs of the default cache behavior, in seconds */
+  minTtl: number;
+  defaultTtl: number;
+  maxTtl: number;
+  compress: boolean;
+  httpVersion: "http1.1" | "http2" | "http3" | "http2and3";
+  customErrorResponses: DistributionErrorResponse[];
+}
+
+/** A distribution's editable settings with the ETag they were read at */
+export interface DistributionSettingsSnapshot {
+  distributionId: string;
+  domainName: string;
+  /** "InProgress" while a change propagates, then "Deployed" */
+  status: string;
+  etag: string;
+  settings: DistributionSettings;
+  /**
+   * Name of the cache policy of the default behavior. Its TTLs are shown but
+   * cannot be changed here — only legacy cache settings have their own TTLs.
+   */
+  cachePolicyName?: string;
+}
+
 // ── AWS Sync types ───────────────────────────────────────────────────────────
 
 export interface StackResourceInfo {
@@ -190,6 +445,46 @@ export interface StackResourceInfo {
   lastUpdated: string;
 }
 
+/** One CloudFormation stack event, streamed to the UI during a deploy or destroy */
+export interface StackEvent {
+  eventId: string;
+  timestamp: string;
+  logicalId: string;
+  physicalId: string;
+  resourceType: string;
+  status: string;
+  statusReason?: string;
+}
+
+/** One property where a live resource no longer matches the stack template */
+export interface DriftPropertyDifference {
+  propertyPath: string;
+  expectedValue: string;
+  actualValue: string;
+  differenceType: "ADD" | "REMOVE" | "NOT_EQUAL";
+  /** Whether "re-apply template" can restore the expected value */
+  reapplicable: boolean;
+}
+
+export interface ResourceDrift {
+  logicalId: string;
+  physicalId: string;
+  resourceType: string;
+  driftStatus: "IN_SYNC" | "MODIFIED" | "DELETED" | "NOT_CHECKED";
+  differences: DriftPropertyDifference[];
+}
+
+/** Result of CloudFormation drift detection on a bucket's SCR- stack */
+export interface StackDriftResult {
+  bucketId: string;
+  stackDriftStatus: "DRIFTED" | "IN_SYNC" | "NOT_CHECKED" | "UNKNOWN";
+  detectionStatusReason?: string;
+  detectedAt: string;
+  resources: ResourceDrift[];
+  /** Stack settings that "accept drift" would write to the bucket's config */
+  acceptedConfig: Partial<BucketConfig>;
+}
+
 export interface BucketSyncStatus {
   bucketId: string;
   bucketName: string;
@@ -202,6 +497,10 @@ export interface BucketSyncStatus {
   cloudFrontDomain?: string;
   cloudFrontDistributionId?: string;
   resources: StackResourceInfo[];
+  /** Origin access the live stack uses, read from its resources */
+  originAccess?: OriginAccessMode;
+  /** Set for OAI stacks — whether the switch to OAC is staged in the config yet */
+  oacMigration?: "available" | "staged";
   needsSync: boolean;
   recommendedAction?:
     | "update-to-active"
@@ -0,0 +1,217 @@
+// Upload sessions — server-side record of every upload in flight, so an
+// interrupted multipart upload can resume after a reload and pending
+// FileRecords that are never confirmed expire
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  readJsonFile,
+  appendToJsonFile,
+  updateInJsonFile,
+  deleteFromJsonFile,
+  modifyJsonFile,
+  findInJsonFile,
+} from "@/lib/filesystem";
+import { abortMultipartUpload } from "@/lib/aws";
+import { confirmUpload, type PreparedUpload } from "@/lib/uploads";
+import type { Bucket, FileRecord, UploadSession } from "@/lib/types";
+
+export const UPLOAD_SESSIONS_FILE = "upload-sessions.json";
+
+const DEFAULT_TTL_HOURS = 24;
+const RECONCILE_INTERVAL_MS = 15 * 60 * 1000;
+
+/** How long an upload may stay pending before the reconciler checks S3 for its object. */
+export function uploadSessionTtlMs(): number {
+  const hours = Number(process.env.SCR_UPLOAD_SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 3600_000;
+}
+
+export async function createUploadSession(
+  upload: PreparedUpload,
+  details: {
+    fileName: string;
+    fileLastModified?: unknown;
+    uploadId?: string;
+    partSize?: number;
+    partCount?: number;
+  },
+): Promise<UploadSession> {
+  const now = new Date().toISOString();
+  const session: UploadSession = {
+    id: uuidv4(),
+    fileId: upload.fileRecord.id,
+    projectId: upload.project.id,
+    bucketName: upload.bucket.s3BucketName,
+    objectKey: upload.objectKey,
+    uploadId: details.uploadId ?? "",
+    fileName: details.fileName,
+    fileSize: upload.fileRecord.size,
+    fileLastModified:
+      typeof details.fileLastModified === "number" ? details.fileLastModified : 0,
+    mimeType: upload.mimeType,
+    partSize: details.partSize ?? 0,
+    partCount: details.partCount ?? 0,
+    completedParts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await appendToJsonFile(UPLOAD_SESSIONS_FILE, session);
+  return session;
+}
+
+export async function recordUploadProgress(
+  id: string,
+  completedParts: number[],
+): Promise<UploadSession | null> {
+  const sorted = [...new Set(completedParts)].sort((a, b) => a - b);
+  return updateInJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE, id, {
+    completedParts: sorted,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/** Drop the session(s) of a finished or aborted multipart upload. */
+export async function closeUploadSessionsFor(uploadId: string): Promise<void> {
+  await modifyJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE, (sessions) =>
+    sessions.filter((s) => s.uploadId !== uploadId),
+  );
+}
+
+/** Drop the session(s) of a confirmed FileRecord. */
+export async function closeUploadSessionsForFile(fileId: string): Promise<void> {
+  await modifyJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE, (sessions) =>
+    sessions.filter((s) => s.fileId !== fileId),
+  );
+}
+
+export async function findUploadSessionByUploadId(uploadId: string) {
+  const sessions = await readJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE);
+  return sessions.find((s) => s.uploadId === uploadId) ?? null;
+}
+
+/** Give up on an upload: abort it in S3 and remove its FileRecord and session. */
+export async function discardUploadSession(
+  session: UploadSession,
+  region?: string,
+): Promise<void> {
+  if (session.uploadId) {
+    try {
+      await abortMultipartUpload(
+        session.bucketName,
+        session.objectKey,
+        session.uploadId,
+        region,
+      );
+    } catch {
+      // Already completed, aborted or expired by a lifecycle rule
+    }
+  }
+  await deleteFromJsonFile<FileRecord>("files.json", session.fileId);
+  await deleteFromJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE, session.id);
+}
+
+export async function findUploadSession(id: string) {
+  return findInJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE, id);
+}
+
+// ── Reconciler ───────────────────────────────────────────────────────────────
+
+export interface ReconcileResult {
+  checked: number;
+  /** Object was found in S3 — FileRecord confirmed, session closed */
+  completed: number;
+  /** Object never appeared — FileRecord and session removed */
+  removed: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Check every session, and every pending FileRecord without one, that is
+ * older than the TTL: confirm the FileRecord if its object exists, otherwise
+ * abort the upload and remove the FileRecord.
+ */
+export async function reconcileUploadSessions(
+  maxAgeMs: number = uploadSessionTtlMs(),
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = { checked: 0, completed: 0, removed: 0, errors: [] };
+  const cutoff = Date.now() - maxAgeMs;
+  const isStale = (iso: string) => new Date(iso).getTime() < cutoff;
+
+  const sessions = await readJsonFile<UploadSession>(UPLOAD_SESSIONS_FILE);
+  const files = await readJsonFile<FileRecord>("files.json");
+  const staleSessions = sessions.filter((s) => isStale(s.updatedAt));
+  const sessionFileIds = new Set(sessions.map((s) => s.fileId));
+  const stalePending = files.filter(
+    (f) => f.status === "pending" && !sessionFileIds.has(f.id) && isStale(f.createdAt),
+  );
+  if (staleSessions.length === 0 && stalePending.length === 0) return result;
+
+  const buckets = await readJsonFile<Bucket>("buckets.json");
+  const regionOf = (bucketName: string) =>
+    buckets.find((b) => b.s3BucketName === bucketName)?.region;
+  const fileById = new Map(files.map((f) => [f.id, f]));
+
+  const reconcile = async (
+    id: string,
+    file: FileRecord | undefined,
+    bucketName: string,
+    discard: () => Promise<void>,
+  ) => {
+    result.checked++;
+    try {
+      // A missing bucket record means the object cannot be served either
+      const bucketKnown = buckets.some((b) => b.s3BucketName === bucketName);
+      const confirmed =
+        !!file &&
+        bucketKnown &&
+        (file.status !== "pending" ||
+          (await confirmUpload(file, regionOf(bucketName))) !== null);
+      if (file && confirmed) {
+        await closeUploadSessionsForFile(file.id);
+        result.completed++;
+      } else {
+        await discard();
+        result.removed++;
+      }
+    } catch (err) {
+      result.errors.push({
+        id,
+        error: err instanceof Error ? err.message : "Reconcile failed",
+      });
+    }
+  };
+
+  for (const session of staleSessions) {
+    await reconcile(session.id, fileById.get(session.fileId), session.bucketName, () =>
+      discardUploadSession(session, regionOf(session.bucketName)),
+    );
+  }
+  for (const file of stalePending) {
+    await reconcile(file.id, file, file.bucketName, async () => {
+      await deleteFromJsonFile<FileRecord>("files.json", file.id);
+    });
+  }
+
+  if (result.checked > 0) {
+    console.info(
+      `[uploads] reconciled ${result.checked} stale upload(s): ${result.completed} confirmed, ${result.removed} removed, ${result.errors.length} failed`,
+    );
+  }
+  return result;
+}
+
+let reconcileTimer: ReturnType<typeof setInterval> | null = null;
+
+/** Run the reconciler now and then every 15 minutes. Safe to call more than once. */
+export function startUploadReconciler(): void {
+  if (reconcileTimer) return;
+  const run = () =>
+    reconcileUploadSessions().catch((err) =>
+      console.warn(
+        `[uploads] reconcile failed: ${err instanceof Error ? err.message : err}`,
+      ),
+    );
+  run();
+  reconcileTimer = setInterval(run, RECONCILE_INTERVAL_MS);
+  reconcileTimer.unref?.();
+}
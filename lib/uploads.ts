@@ -0,0 +1,399 @@
+// Shared upload preparation — validates a request against project and bucket
+// limits, resolves the MIME type and builds the object key and FileRecord —
+// the confirmation step that marks the record uploaded once S3 has the object
+// and its content passes inspection, and content-hash deduplication against
+// objects already in the bucket
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  readJsonFile,
+  findInJsonFile,
+  updateInJsonFile,
+  appendToJsonFile,
+} from "@/lib/filesystem";
+import {
+  buildCloudFrontUrl,
+  headS3Object,
+  readS3ObjectStart,
+  sha256OfS3Object,
+  moveS3Object,
+} from "@/lib/aws";
+import { SNIFF_BYTES, inspectContent } from "@/lib/content-sniffing";
+import {
+  DEFAULT_OBJECT_KEY_TEMPLATE,
+  renderObjectKey,
+  missingTemplateValues,
+  templateNeedsCollisionSuffix,
+  withCollisionSuffix,
+} from "@/lib/object-keys";
+import { uploadSchema } from "@/lib/validations";
+import type { FileRecord, Bucket, Project } from "@/lib/types";
+
+// Infer MIME type from file extension as a fallback
+export function inferMimeType(fileName: string): string {
+  const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const mimeMap: Record<string, string> = {
+    jpg: "image/jpeg", jpeg: "image/jpeg", png: "image/png", gif: "image/gif",
+    webp: "image/webp", svg: "image/svg+xml", bmp: "image/bmp", ico: "image/x-icon",
+    pdf: "application/pdf", json: "application/json", xml: "application/xml",
+    csv: "text/csv", txt: "text/plain", html: "text/html", css: "text/css",
+    js: "application/javascript", ts: "application/typescript",
+    zip: "application/zip", gz: "application/gzip", tar: "application/x-tar",
+    mp4: "video/mp4", webm: "video/webm", avi: "video/x-msvideo",
+    mp3: "audio/mpeg", wav: "audio/wav", ogg: "audio/ogg",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+  return mimeMap[ext] || "application/octet-stream";
+}
+
+export interface PreparedUpload {
+  project: Project;
+  bucket: Bucket;
+  objectKey: string;
+  mimeType: string;
+  cloudFrontUrl: string;
+  /** Effective size limit — the lower of the bucket and project limits */
+  maxBytes: number;
+  /** Not persisted yet — the caller decides when to store it. */
+  fileRecord: FileRecord;
+}
+
+export interface UploadRejection {
+  status: number;
+  error: string;
+  details?: Record<string, unknown>;
+}
+
+const MAX_COLLISION_SUFFIX = 1000;
+
+/**
+ * Append "-1", "-2", … to a key until neither a FileRecord nor an S3 object
+ * uses it. Used for templates without {uuid}.
+ */
+async function resolveKeyCollision(bucket: Bucket, objectKey: string): Promise<string> {
+  const files = await readJsonFile<FileRecord>("files.json");
+  const taken = new Set(
+    files.filter((f) => f.bucketName === bucket.s3BucketName).map((f) => f.objectKey)
+  );
+  const isFree = async (key: string) =>
+    !taken.has(key) &&
+    (bucket.status !== "active" || // not deployed yet — nothing to HEAD
+      !(await headS3Object(bucket.s3BucketName, key, bucket.region)));
+
+  if (await isFree(objectKey)) return objectKey;
+  for (let n = 1; n <= MAX_COLLISION_SUFFIX; n++) {
+    const candidate = withCollisionSuffix(objectKey, n);
+    if (await isFree(candidate)) return candidate;
+  }
+  throw new Error(`Could not find a free key for ${objectKey}`);
+}
+
+export type PrepareUploadResult =
+  | { ok: true; upload: PreparedUpload }
+  | { ok: false; rejection: UploadRejection };
+
+/** The smaller of the bucket's and the project's max file size */
+function uploadLimitMB(bucket: Bucket, project: Project): number {
+  return Math.min(bucket.config?.maxFileSizeMB ?? project.maxFileSizeMB, project.maxFileSizeMB);
+}
+
+/**
+ * Validate an upload request body (uploadSchema + optional folderPrefix) and
+ * work out where the object goes. Throws on malformed input (Zod errors).
+ */
+export async function prepareUpload(
+  body: Record<string, unknown>,
+): Promise<PrepareUploadResult> {
+  const parsed = uploadSchema.parse(body);
+  const reject = (
+    status: number,
+    error: string,
+    details?: Record<string, unknown>,
+  ): PrepareUploadResult => ({ ok: false, rejection: { status, error, details } });
+
+  // Sanitize file name: trim whitespace, replace problematic characters
+  const sanitizedFileName = parsed.fileName
+    .trim()
+    .replace(/[^a-zA-Z0-9._-]/g, "_")
+    .replace(/_{2,}/g, "_");
+
+  if (!sanitizedFileName || sanitizedFileName === "_") {
+    return reject(400, "Invalid file name");
+  }
+
+  // Resolve MIME type: use extension-based inference as fallback
+  let resolvedMimeType = parsed.mimeType;
+  if (
+    resolvedMimeType === "application/octet-stream" ||
+    !resolvedMimeType
+  ) {
+    const inferred = inferMimeType(parsed.fileName);
+    if (inferred !== "application/octet-stream") {
+      resolvedMimeType = inferred;
+    }
+  }
+
+  // Validate project exists and check limits
+  const project = await findInJsonFile<Project>(
+    "projects.json",
+    parsed.projectId
+  );
+  if (!project) {
+    return reject(404, "Project not found");
+  }
+
+  // Check MIME type against allowed list
+  // If inferred type is still octet-stream, allow it as a wildcard fallback
+  if (
+    !project.allowedMimeTypes.includes(resolvedMimeType) &&
+    resolvedMimeType !== "application/octet-stream"
+  ) {
+    return reject(
+      400,
+      `MIME type ${resolvedMimeType} is not allowed for project "${project.name}". Allowed: ${project.allowedMimeTypes.join(", ")}`,
+    );
+  }
+
+  // Find the bucket
+  const buckets = await readJsonFile<Bucket>("buckets.json");
+  const bucket = buckets.find(
+    (b) =>
+      b.s3BucketName === parsed.bucketName &&
+      b.projectId === parsed.projectId
+  );
+  if (!bucket) {
+    return reject(404, "Bucket not found for this project");
+  }
+
+  // Check file size limit — bucket-level is authoritative, project-level is the default fallback
+  const bucketMaxMB = bucket.config?.maxFileSizeMB ?? project.maxFileSizeMB;
+  const effectiveMaxMB = uploadLimitMB(bucket, project);
+  const maxBytes = effectiveMaxMB * 1024 * 1024;
+  const fileSizeMB = (parsed.fileSize / (1024 * 1024)).toFixed(2);
+
+  if (parsed.fileSize > maxBytes) {
+    const source = bucketMaxMB <= project.maxFileSizeMB ? "bucket" : "project";
+    return reject(
+      400,
+      `File size (${fileSizeMB} MB) exceeds the ${source}-level limit of ${effectiveMaxMB} MB.`,
+      {
+        fileSizeMB: Number(fileSizeMB),
+        bucketLimitMB: bucketMaxMB,
+        projectLimitMB: project.maxFileSizeMB,
+        effectiveLimitMB: effectiveMaxMB,
+        enforcedBy: source,
+      },
+    );
+  }
+
+  // Generate object key from the project's key template
+  // Support optional folderPrefix for organizing files into folders ({prefix})
+  const folderPrefixInput =
+    typeof body.folderPrefix === "string" ? body.folderPrefix : "";
+  const rawPrefix = folderPrefixInput
+    ? folderPrefixInput.replace(/^\/+|\/+$/g, "").replace(/\/\//g, "/")
+    : parsed.projectId;
+  const folderPrefix = rawPrefix || parsed.projectId; // ensure never empty
+
+  const keyTemplate = project.objectKeyTemplate || DEFAULT_OBJECT_KEY_TEMPLATE;
+  const missing = missingTemplateValues(keyTemplate, parsed);
+  if (missing.length > 0) {
+    return reject(
+      400,
+      `Project "${project.name}" names objects with "${keyTemplate}", which needs: ${missing.join(", ")}`,
+    );
+  }
+  let objectKey = renderObjectKey(keyTemplate, {
+    prefix: folderPrefix,
+    projectId: parsed.projectId,
+    fileName: sanitizedFileName,
+    contentHash: parsed.contentHash,
+    linkedModel: parsed.linkedModel,
+    linkedModelId: parsed.linkedModelId,
+    uuid: uuidv4(),
+    date: new Date(),
+  });
+  if (templateNeedsCollisionSuffix(keyTemplate)) {
+    objectKey = await resolveKeyCollision(bucket, objectKey);
+  }
+
+  const cloudFrontUrl = buildCloudFrontUrl(bucket, objectKey);
+
+  const fileRecord: FileRecord = {
+    id: uuidv4(),
+    projectId: parsed.projectId,
+    bucketName: bucket.s3BucketName,
+    objectKey,
+    cloudFrontUrl,
+    size: parsed.fileSize,
+    mimeType: resolvedMimeType,
+    linkedModel: parsed.linkedModel || "",
+    linkedModelId: parsed.linkedModelId || "",
+    status: "pending",
+    contentHash: parsed.contentHash?.toLowerCase(),
+    createdAt: new Date().toISOString(),
+  };
+
+  return {
+    ok: true,
+    upload: {
+      project,
+      bucket,
+      objectKey,
+      mimeType: resolvedMimeType,
+      cloudFrontUrl,
+      maxBytes,
+      fileRecord,
+    },
+  };
+}
+
+/** Objects whose content fails inspection are moved under this prefix. */
+export const QUARANTINE_PREFIX = "quarantine/";
+
+/**
+ * Second phase of an upload: HeadObject the record's object and store its real
+ * size, ETag, content type and checksum. Resolves to null while the object is
+ * not in S3 — the record stays pending.
+ *
+ * The object's real size is checked against the project and bucket limits —
+ * multipart parts are signed without a size condition, so the declared size
+ * proves nothing — and its leading bytes against the declared type and the
+ * project's allowed types. When the uploader claimed a content hash, the
+ * object's real SHA-256 — S3's checksum, or the streamed content when S3 has
+ * none — must match it. Any problem moves the object to quarantine/<key> and
+ * marks the record "quarantined" instead of "uploaded".
+ */
+export async function confirmUpload(
+  file: FileRecord,
+  region?: string,
+): Promise<FileRecord | null> {
+  const head = await headS3Object(file.bucketName, file.objectKey, region);
+  if (!head) return null;
+
+  const confirmed: Partial<FileRecord> = {
+    size: head.size,
+    etag: head.etag,
+    mimeType: head.contentType,
+    checksumSHA256: head.checksumSHA256,
+    uploadedAt: head.lastModified ?? new Date().toISOString(),
+  };
+
+  const project = await findInJsonFile<Project>("projects.json", file.projectId);
+  const buckets = await readJsonFile<Bucket>("buckets.json");
+  const bucket = buckets.find((b) => b.s3BucketName === file.bucketName);
+  const limitMB = project && bucket ? uploadLimitMB(bucket, project) : undefined;
+  const sizeProblem =
+    limitMB !== undefined && head.size > limitMB * 1024 * 1024
+      ? `File size (${(head.size / (1024 * 1024)).toFixed(2)} MB) exceeds the limit of ${limitMB} MB`
+      : undefined;
+
+  const bytes = await readS3ObjectStart(file.bucketName, file.objectKey, SNIFF_BYTES, region);
+  const inspection = inspectContent(bytes, file.mimeType, project?.allowedMimeTypes ?? []);
+
+  let hashProblem: string | undefined;
+  if (file.contentHash && !sizeProblem) {
+    const verifiedHash =
+      checksumToHex(head.checksumSHA256) ??
+      (await sha256OfS3Object(file.bucketName, file.objectKey, region));
+    if (verifiedHash !== file.contentHash) {
+      hashProblem = "Content hash does not match the uploaded content";
+    } else {
+      // Deduplication only trusts checksumSHA256, never the claimed contentHash
+      confirmed.checksumSHA256 = Buffer.from(verifiedHash, "hex").toString("base64");
+    }
+  }
+  const problem = sizeProblem ?? inspection.problem ?? hashProblem;
+
+  if (problem) {
+    const quarantineKey = `${QUARANTINE_PREFIX}${file.objectKey}`;
+    await moveS3Object(file.bucketName, file.objectKey, quarantineKey, region);
+    console.warn(
+      `[uploads] quarantined ${file.bucketName}/${file.objectKey}: ${problem}`,
+    );
+    return updateInJsonFile<FileRecord>("files.json", file.id, {
+      ...confirmed,
+      status: "quarantined",
+      objectKey: quarantineKey,
+      // Not served — CloudFront is denied reads under quarantine/
+      cloudFrontUrl: "",
+      quarantine: {
+        reason: problem,
+        detectedMimeType: inspection.detectedMimeType,
+        originalObjectKey: file.objectKey,
+        quarantinedAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  return updateInJsonFile<FileRecord>("files.json", file.id, {
+    ...confirmed,
+    status: "uploaded",
+  });
+}
+
+// ── Deduplication ────────────────────────────────────────────────────────────
+
+/** S3 reports ChecksumSHA256 as base64; hashes from the browser are hex. */
+function checksumToHex(checksum?: string): string | undefined {
+  // Multipart checksums ("…-12") are checksums of part checksums, not of the content
+  if (!checksum || checksum.includes("-")) return undefined;
+  return Buffer.from(checksum, "base64").toString("hex");
+}
+
+/**
+ * An uploaded object in the bucket with the same SHA-256 and size, if one
+ * still exists in S3. Only checksumSHA256 is compared — it comes from S3 or
+ * from hashing the object at confirmation — so a record's claimed contentHash
+ * can never make another upload link to its object.
+ */
+export async function findDuplicateObject(
+  bucket: Bucket,
+  contentHash: string,
+  size: number,
+): Promise<FileRecord | null> {
+  const hash = contentHash.toLowerCase();
+  const files = await readJsonFile<FileRecord>("files.json");
+  const candidates = files.filter(
+    (f) =>
+      f.bucketName === bucket.s3BucketName &&
+      f.status === "uploaded" &&
+      f.size === size &&
+      checksumToHex(f.checksumSHA256) === hash,
+  );
+
+  const checked = new Set<string>();
+  for (const candidate of candidates) {
+    if (checked.has(candidate.objectKey)) continue;
+    checked.add(candidate.objectKey);
+    const head = await headS3Object(bucket.s3BucketName, candidate.objectKey, bucket.region);
+    if (head && head.size === size) return candidate;
+  }
+  return null;
+}
+
+/** Store the prepared FileRecord as uploaded, pointing at the duplicate's object. */
+export async function linkDuplicateUpload(
+  upload: PreparedUpload,
+  original: FileRecord,
+): Promise<FileRecord> {
+  const record: FileRecord = {
+    ...upload.fileRecord,
+    objectKey: original.objectKey,
+    cloudFrontUrl:
+      buildCloudFrontUrl(upload.bucket, original.objectKey) || original.cloudFrontUrl,
+    size: original.size,
+    // The object is served with the original's Content-Type
+    mimeType: original.mimeType,
+    status: "uploaded",
+    etag: original.etag,
+    checksumSHA256: original.checksumSHA256,
+    uploadedAt: new Date().toISOString(),
+    dedupOf: original.dedupOf ?? original.id,
+  };
+  await appendToJsonFile("files.json", record);
+  return record;
+}
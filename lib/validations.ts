@@ -1,6 +1,25 @@
 // Zod schemas for form validation across the application
 
 import { z } from "zod";
+import { validateObjectKeyTemplate } from "@/lib/object-keys";
+import { CUSTOM_ERROR_CODES } from "@/lib/distribution-settings";
+
+export const objectKeyTemplateSchema = z
+  .string()
+  .superRefine((template, ctx) => {
+    const problem = validateObjectKeyTemplate(template);
+    if (problem) ctx.addIssue({ code: "custom", message: problem });
+  });
+
+/** A DNS hostname such as cdn.example.com */
+const HOSTNAME_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/;
+
+const hostnameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(253)
+  .regex(HOSTNAME_PATTERN, "Enter a domain name like cdn.example.com");
 
 export const projectSchema = z.object({
   name: z
@@ -16,6 +35,7 @@ export const projectSchema = z.object({
   allowedMimeTypes: z
     .array(z.string())
     .min(1, "At least one MIME type required"),
+  objectKeyTemplate: objectKeyTemplateSchema.optional(),
 });
 
 export const bucketSchema = z.object({
@@ -32,6 +52,16 @@ export const bucketSchema = z.object({
   versioning: z.boolean(),
   encryption: z.enum(["s3", "kms", "none"]),
   backupEnabled: z.boolean(),
+  privateDelivery: z.boolean(),
+  securityHeaders: z.boolean(),
+  // AWS WAF accepts rate limits from 10; lower than 100 blocks ordinary page loads
+  wafRateLimit: z.number().int().min(100, "At least 100 requests").max(2_000_000_000).optional(),
+  wafBlockedCountries: z
+    .array(z.string().regex(/^[A-Z]{2}$/, "Use two-letter country codes like CN"))
+    .max(50)
+    .refine((codes) => new Set(codes).size === codes.length, "Countries must be unique")
+    .optional(),
+  hotlinkDomains: z.array(hostnameSchema).max(20).optional(),
   maxFileSizeMB: z.number().min(1).max(5000),
 });
 
@@ -43,6 +73,266 @@ export const uploadSchema = z.object({
   mimeType: z.string().min(1),
   linkedModel: z.string().optional(),
   linkedModelId: z.string().optional(),
+  contentHash: z
+    .string()
+    .regex(/^[a-fA-F0-9]{64}$/, "contentHash must be a hex SHA-256 digest")
+    .optional(),
+  uploadMethod: z.enum(["put", "post"]).optional(),
+});
+
+export const multipartUploadRefSchema = z.object({
+  bucketName: z.string().min(1),
+  objectKey: z.string().min(1),
+  uploadId: z.string().min(1),
+});
+
+export const multipartSignSchema = multipartUploadRefSchema.extend({
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+});
+
+export const multipartCompleteSchema = multipartUploadRefSchema.extend({
+  partCount: z.number().int().min(1).max(10000),
+});
+
+export const confirmUploadSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const uploadSessionProgressSchema = z.object({
+  id: z.string().min(1),
+  completedParts: z.array(z.number().int().min(1).max(10000)).max(10000),
+});
+
+export const invalidationSchema = z.object({
+  distributionId: z.string().min(1),
+  /** Object keys, "/paths" or folder prefixes ending in "/" or "*" */
+  paths: z.array(z.string().trim().min(1)).min(1).max(100),
+});
+
+/** CloudFront TTLs are seconds, up to 100 years */
+const ttlSchema = z.number().int().min(0, "TTL can't be negative").max(3153600000);
+
+export const distributionSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    priceClass: z.enum(["PriceClass_100", "PriceClass_200", "PriceClass_All"]),
+    defaultRootObject: z
+      .string()
+      .trim()
+      .regex(/^[^/]*$/, "Default root object must not start with or contain /"),
+    minTtl: ttlSchema,
+    defaultTtl: ttlSchema,
+    maxTtl: ttlSchema,
+    compress: z.boolean(),
+    httpVersion: z.enum(["http1.1", "http2", "http3", "http2and3"]),
+    customErrorResponses: z
+      .array(
+        z
+          .object({
+            errorCode: z
+              .number()
+              .int()
+              .refine((code) => CUSTOM_ERROR_CODES.includes(code), "Unsupported error code"),
+            responsePagePath: z
+              .string()
+              .trim()
+              .regex(/^(\/.*)?$/, "Response page path must start with /"),
+            responseCode: z.string().regex(/^(\d{3})?$/, "Response code must be an HTTP status"),
+            errorCachingMinTtl: ttlSchema,
+          })
+          .refine((r) => !r.responseCode || !!r.responsePagePath, {
+            message: "A response code needs a response page path",
+            path: ["responseCode"],
+          }),
+      )
+      .refine(
+        (items) => new Set(items.map((r) => r.errorCode)).size === items.length,
+        "Each error code can only be configured once",
+      ),
+  })
+  .refine((s) => s.minTtl <= s.defaultTtl && s.defaultTtl <= s.maxTtl, {
+    message: "TTLs must satisfy minimum ≤ default ≤ maximum",
+    path: ["defaultTtl"],
+  });
+
+export const distributionSettingsUpdateSchema = z.object({
+  distributionId: z.string().min(1),
+  etag: z.string().min(1),
+  settings: distributionSettingsSchema,
+});
+
+/** A hostname like "cdn.example.com" — no scheme, path or wildcard */
+export const customDomainSchema = hostnameSchema;
+
+export const customDomainRequestSchema = z.discriminatedUnion("certificateSource", [
+  z.object({
+    bucketId: z.string().min(1),
+    domainName: customDomainSchema,
+    certificateSource: z.literal("requested"),
+  }),
+  z.object({
+    bucketId: z.string().min(1),
+    domainName: customDomainSchema,
+    certificateSource: z.literal("imported"),
+    certificate: z.string().includes("BEGIN CERTIFICATE", { message: "Certificate must be PEM-encoded" }),
+    privateKey: z.string().includes("PRIVATE KEY", { message: "Private key must be PEM-encoded" }),
+    certificateChain: z.string().optional(),
+  }),
+]);
+
+/** Longest grant the signing API issues — CloudFront itself has no limit */
+export const MAX_SIGNED_ACCESS_SECONDS = 7 * 24 * 3600;
+
+/**
+ * A signed URL for one key, or signed cookies for one key or a prefix
+ * ("" covers the whole bucket).
+ */
+export const signedAccessRequestSchema = z
+  .object({
+    bucketId: z.string().min(1),
+    type: z.enum(["url", "cookies"]),
+    key: z.string().min(1).optional(),
+    prefix: z.string().optional(),
+    expiresInSeconds: z.number().int().min(60).max(MAX_SIGNED_ACCESS_SECONDS).default(3600),
+  })
+  .refine((r) => (r.key === undefined) !== (r.prefix === undefined), {
+    message: "Give either a key or a prefix",
+    path: ["key"],
+  })
+  .refine((r) => r.type === "cookies" || r.key !== undefined, {
+    message: "A signed URL covers a single key — use cookies for a prefix",
+    path: ["prefix"],
+  });
+
+// ── Stored record schemas (data/*.json) ──────────────────────────────────────
+// Derived from the form schemas above, relaxed where stored data legitimately
+// differs from form input (e.g. imported buckets keep their AWS name and have
+// no project). Used by the migration runner in lib/storage/migrations.ts.
+
+export const projectRecordSchema = projectSchema.extend({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  maxFileSizeMB: z.number().positive(),
+  allowedMimeTypes: z.array(z.string()),
+  objectKeyTemplate: objectKeyTemplateSchema,
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export const bucketConfigSchema = bucketSchema
+  .pick({
+    versioning: true,
+    encryption: true,
+    backupEnabled: true,
+    privateDelivery: true,
+    securityHeaders: true,
+    wafRateLimit: true,
+    wafBlockedCountries: true,
+    hotlinkDomains: true,
+    maxFileSizeMB: true,
+  })
+  .extend({
+    originAccess: z.enum(["oai", "oac"]),
+    customDomain: z.string().optional(),
+    certificateArn: z.string().optional(),
+  });
+
+export const bucketDeploymentSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["create", "update", "destroy"]),
+  status: z.enum(["success", "failed"]),
+  fromConfig: bucketConfigSchema.optional(),
+  config: bucketConfigSchema,
+  cloudFrontDomain: z.string(),
+  startedAt: z.string().min(1),
+  finishedAt: z.string().min(1),
+  error: z.string().optional(),
+  runId: z.string().optional(),
+});
+
+export const bucketRecordSchema = bucketSchema.pick({ region: true }).extend({
+  id: z.string().min(1),
+  projectId: z.string(),
+  name: z.string().min(1),
+  s3BucketName: z.string().min(1),
+  s3BucketArn: z.string(),
+  cloudFrontDomain: z.string(),
+  cloudFrontDistributionId: z.string(),
+  status: z.enum(["pending", "deploying", "active", "failed", "deleting"]),
+  config: bucketConfigSchema,
+  deployedConfig: bucketConfigSchema.optional(),
+  deployHistory: z.array(bucketDeploymentSchema).optional(),
+  customDomain: z
+    .object({
+      domainName: z.string().min(1),
+      certificateArn: z.string().min(1),
+      certificateSource: z.enum(["requested", "imported"]),
+      certificateStatus: z.string(),
+      validationRecords: z.array(
+        z.object({ name: z.string(), type: z.literal("CNAME"), value: z.string() }),
+      ),
+      createdAt: z.string().min(1),
+    })
+    .optional(),
+  signingKeyPairId: z.string().optional(),
+  createdAt: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
+
+export const fileRecordSchema = uploadSchema
+  .pick({ bucketName: true, mimeType: true })
+  .extend({
+    id: z.string().min(1),
+    // "" once the project is deleted and its buckets are detached
+    projectId: z.string(),
+    objectKey: z.string().min(1),
+    cloudFrontUrl: z.string(),
+    size: z.number().nonnegative(),
+    linkedModel: z.string(),
+    linkedModelId: z.string(),
+    status: z.enum(["pending", "uploaded", "quarantined"]),
+    etag: z.string().optional(),
+    checksumSHA256: z.string().optional(),
+    uploadedAt: z.string().optional(),
+    contentHash: z.string().optional(),
+    dedupOf: z.string().optional(),
+    quarantine: z
+      .object({
+        reason: z.string(),
+        detectedMimeType: z.string().nullable(),
+        originalObjectKey: z.string().min(1),
+        quarantinedAt: z.string().min(1),
+      })
+      .optional(),
+    createdAt: z.string().min(1),
+  });
+
+export const uploadSessionRecordSchema = multipartUploadRefSchema
+  .pick({ bucketName: true, objectKey: true })
+  .extend({
+    id: z.string().min(1),
+    fileId: z.string().min(1),
+    projectId: z.string().min(1),
+    uploadId: z.string(),
+    fileName: z.string().min(1),
+    fileSize: z.number().nonnegative(),
+    fileLastModified: z.number().nonnegative(),
+    mimeType: z.string().min(1),
+    partSize: z.number().nonnegative(),
+    partCount: z.number().int().nonnegative(),
+    completedParts: z.array(z.number().int().min(1)),
+    createdAt: z.string().min(1),
+    updatedAt: z.string().min(1),
+  });
+
+export const environmentRecordSchema = z.object({
+  id: z.string().min(1),
+  accountId: z.string().min(1),
+  region: z.string().min(1),
+  alias: z.string(),
+  status: z.enum(["bootstrapping", "active", "failed"]),
+  bootstrappedAt: z.string(),
+  createdAt: z.string().min(1),
 });
 
 export type ProjectFormValues = z.infer<typeof projectSchema>;